@@ -3,13 +3,37 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { EvaluateModule } from './evaluate/evaluate.module';
+import { AssignmentsModule } from './assignments/assignments.module';
+import { RubricsModule } from './rubrics/rubrics.module';
+import { BatchesModule } from './batches/batches.module';
+import { SubmissionsModule } from './submissions/submissions.module';
+import { SimilarityModule } from './similarity/similarity.module';
+import { AuthModule } from './auth/auth.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { GitWebhooksModule } from './git-webhooks/git-webhooks.module';
+import { AuditModule } from './audit/audit.module';
+import { GradingModule } from './grading/grading.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    AuthModule,
     EvaluateModule,
+    AssignmentsModule,
+    RubricsModule,
+    BatchesModule,
+    SubmissionsModule,
+    SimilarityModule,
+    WebhooksModule,
+    GitWebhooksModule,
+    AuditModule,
+    GradingModule,
+    HealthModule,
+    MetricsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
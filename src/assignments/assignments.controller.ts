@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { AssignmentsService } from './assignments.service';
+import { CreateAssignmentDto } from './dto/create-assignment.dto';
+import { UpdateAssignmentDto } from './dto/update-assignment.dto';
+import { Assignment } from './entities/assignment.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('assignments')
+export class AssignmentsController {
+  constructor(private readonly assignmentsService: AssignmentsService) {}
+
+  @Post()
+  @Roles('instructor')
+  create(
+    @Body() createAssignmentDto: CreateAssignmentDto,
+  ): Promise<Assignment> {
+    return this.assignmentsService.create(createAssignmentDto);
+  }
+
+  @Get()
+  @Roles('instructor', 'ta', 'student')
+  findAll(): Promise<Assignment[]> {
+    return this.assignmentsService.findAll();
+  }
+
+  @Get(':id')
+  @Roles('instructor', 'ta', 'student')
+  findOne(@Param('id') id: string): Promise<Assignment> {
+    return this.assignmentsService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles('instructor')
+  update(
+    @Param('id') id: string,
+    @Body() updateAssignmentDto: UpdateAssignmentDto,
+  ): Promise<Assignment> {
+    return this.assignmentsService.update(id, updateAssignmentDto);
+  }
+
+  @Delete(':id')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id') id: string): Promise<void> {
+    return this.assignmentsService.remove(id);
+  }
+}
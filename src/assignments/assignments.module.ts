@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { RubricsModule } from '../rubrics/rubrics.module';
+import { RunnerModule } from '../runner/runner.module';
+import { AssignmentsService } from './assignments.service';
+import { AssignmentsController } from './assignments.controller';
+import { HiddenTestsService } from './hidden-tests.service';
+import { HiddenTestsController } from './hidden-tests.controller';
+
+@Module({
+  imports: [StorageModule, RubricsModule, RunnerModule],
+  controllers: [AssignmentsController, HiddenTestsController],
+  providers: [AssignmentsService, HiddenTestsService],
+  exports: [AssignmentsService, HiddenTestsService],
+})
+export class AssignmentsModule {}
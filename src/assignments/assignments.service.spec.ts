@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AssignmentsService,
+  DEFAULT_REQUIRED_FILES,
+} from './assignments.service';
+import { StorageService } from '../storage/storage.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { FlutterSdkService } from '../runner/flutter-sdk.service';
+
+describe('AssignmentsService', () => {
+  let service: AssignmentsService;
+  let dataDir: string;
+  const flutterSdkService = { resolve: jest.fn() };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'assignments-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AssignmentsService,
+        StorageService,
+        { provide: RubricsService, useValue: { findOne: jest.fn() } },
+        { provide: FlutterSdkService, useValue: flutterSdkService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<AssignmentsService>(AssignmentsService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should default the required files when none are given', async () => {
+    const assignment = await service.create({
+      title: 'Todo',
+      description: 'Create a Todo app',
+    });
+
+    expect(assignment.requiredFiles).toEqual(DEFAULT_REQUIRED_FILES);
+    expect(await service.findOne(assignment.id)).toEqual(assignment);
+
+    const updated = await service.update(assignment.id, {
+      requiredFiles: [],
+    });
+    expect(updated.requiredFiles).toEqual(DEFAULT_REQUIRED_FILES);
+  });
+
+  it('should only overwrite the fields that are provided on update', async () => {
+    const assignment = await service.create({
+      title: 'Todo',
+      description: 'Create a Todo app',
+      requirements: ['Add todo'],
+    });
+
+    const updated = await service.update(assignment.id, {
+      title: 'Todo v2',
+      description: undefined,
+    });
+
+    expect(updated.title).toBe('Todo v2');
+    expect(updated.description).toBe('Create a Todo app');
+    expect(updated.requirements).toEqual(['Add todo']);
+  });
+
+  it('should reject requirement checks with invalid patterns', async () => {
+    await expect(
+      service.create({
+        title: 'Todo',
+        description: 'Create a Todo app',
+        requirementChecks: [{ requirement: 'Lists', patterns: ['ListView('] }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject Flutter versions that are not installed', async () => {
+    flutterSdkService.resolve.mockRejectedValue(
+      new BadRequestException('Flutter SDK 3.10.0 is not installed'),
+    );
+
+    await expect(
+      service.create({
+        title: 'Todo',
+        description: 'Create a Todo app',
+        flutterVersion: '3.10.0',
+      }),
+    ).rejects.toThrow('Flutter SDK 3.10.0 is not installed');
+    expect(flutterSdkService.resolve).toHaveBeenCalledWith('3.10.0');
+  });
+
+  it('should throw when removing an unknown assignment', async () => {
+    await expect(service.remove('missing')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
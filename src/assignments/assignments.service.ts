@@ -0,0 +1,148 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { FlutterSdkService } from '../runner/flutter-sdk.service';
+import { JsonCollection } from '../storage/json-collection';
+import { CreateAssignmentDto } from './dto/create-assignment.dto';
+import { UpdateAssignmentDto } from './dto/update-assignment.dto';
+import { Assignment } from './entities/assignment.entity';
+
+export const DEFAULT_REQUIRED_FILES = ['pubspec.yaml', 'lib/main.dart'];
+
+export const DEFAULT_EVALUATION_CRITERIA = [
+  'Code quality and structure',
+  'Implementation of requirements',
+  'Best practices and Flutter conventions',
+  'Error handling',
+  'Code organization',
+];
+
+@Injectable()
+export class AssignmentsService {
+  private readonly logger = new Logger(AssignmentsService.name);
+  private readonly assignments: JsonCollection<Assignment>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly rubricsService: RubricsService,
+    private readonly flutterSdkService: FlutterSdkService,
+  ) {
+    this.assignments =
+      this.storageService.collection<Assignment>('assignments');
+  }
+
+  async create(createAssignmentDto: CreateAssignmentDto): Promise<Assignment> {
+    if (createAssignmentDto.rubricId) {
+      await this.rubricsService.findOne(createAssignmentDto.rubricId);
+    }
+    if (createAssignmentDto.flutterVersion) {
+      await this.flutterSdkService.resolve(createAssignmentDto.flutterVersion);
+    }
+    this.assertValidPatterns(createAssignmentDto);
+
+    const now = new Date().toISOString();
+    const assignment: Assignment = {
+      id: randomUUID(),
+      title: createAssignmentDto.title,
+      description: createAssignmentDto.description,
+      requirements: createAssignmentDto.requirements ?? [],
+      requirementChecks: createAssignmentDto.requirementChecks,
+      requiredFiles: withDefaultRequiredFiles(
+        createAssignmentDto.requiredFiles,
+      ),
+      deadline: createAssignmentDto.deadline,
+      gradeAtDeadline: createAssignmentDto.gradeAtDeadline,
+      evaluationCriteria: createAssignmentDto.evaluationCriteria?.length
+        ? createAssignmentDto.evaluationCriteria
+        : DEFAULT_EVALUATION_CRITERIA,
+      rubricId: createAssignmentDto.rubricId,
+      llm: createAssignmentDto.llm,
+      flutterVersion: createAssignmentDto.flutterVersion,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.assignments.save(assignment);
+    this.logger.log(`Created assignment ${assignment.id}: ${assignment.title}`);
+    return assignment;
+  }
+
+  findAll(): Promise<Assignment[]> {
+    return this.assignments.findAll();
+  }
+
+  async findOne(id: string): Promise<Assignment> {
+    const assignment = await this.assignments.findById(id);
+    if (!assignment) {
+      throw new NotFoundException(`Assignment ${id} not found`);
+    }
+    return assignment;
+  }
+
+  async update(
+    id: string,
+    updateAssignmentDto: UpdateAssignmentDto,
+  ): Promise<Assignment> {
+    const existing = await this.findOne(id);
+    if (updateAssignmentDto.rubricId) {
+      await this.rubricsService.findOne(updateAssignmentDto.rubricId);
+    }
+    if (updateAssignmentDto.flutterVersion) {
+      await this.flutterSdkService.resolve(updateAssignmentDto.flutterVersion);
+    }
+    this.assertValidPatterns(updateAssignmentDto);
+
+    const changes = Object.fromEntries(
+      Object.entries(updateAssignmentDto).filter(
+        ([, value]) => value !== undefined,
+      ),
+    ) as UpdateAssignmentDto;
+    const updated: Assignment = {
+      ...existing,
+      ...changes,
+      requiredFiles: withDefaultRequiredFiles(
+        changes.requiredFiles ?? existing.requiredFiles,
+      ),
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.assignments.save(updated);
+    this.logger.log(`Updated assignment ${id}`);
+    return updated;
+  }
+
+  private assertValidPatterns(dto: UpdateAssignmentDto): void {
+    for (const check of dto.requirementChecks ?? []) {
+      for (const pattern of check.patterns) {
+        try {
+          new RegExp(pattern);
+        } catch (error) {
+          throw new BadRequestException(
+            `Invalid pattern for requirement "${check.requirement}": ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    const removed = await this.assignments.remove(id);
+    if (!removed) {
+      throw new NotFoundException(`Assignment ${id} not found`);
+    }
+    this.logger.log(`Removed assignment ${id}`);
+  }
+}
+
+// An empty list would make every submission pass the required files check
+function withDefaultRequiredFiles(requiredFiles?: string[]): string[] {
+  return requiredFiles?.length ? requiredFiles : DEFAULT_REQUIRED_FILES;
+}
@@ -0,0 +1,120 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class LlmSettingsDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  model?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(2)
+  temperature?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxTokens?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  contextTokens?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  samples?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxScoreSpread?: number;
+}
+
+export class RequirementCheckDto {
+  @IsString()
+  @IsNotEmpty()
+  requirement: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  patterns: string[];
+}
+
+export class CreateAssignmentDto {
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  requirements?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RequirementCheckDto)
+  requirementChecks?: RequirementCheckDto[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  requiredFiles?: string[];
+
+  @IsOptional()
+  @IsDateString({}, { message: 'deadline must be an ISO 8601 date' })
+  deadline?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  gradeAtDeadline?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  evaluationCriteria?: string[];
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  rubricId?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LlmSettingsDto)
+  llm?: LlmSettingsDto;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[\w][\w.+-]*$/, {
+    message: 'flutterVersion must be an SDK version such as 3.24.3',
+  })
+  flutterVersion?: string;
+}
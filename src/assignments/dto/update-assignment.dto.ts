@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateAssignmentDto } from './create-assignment.dto';
+
+export class UpdateAssignmentDto extends PartialType(CreateAssignmentDto) {}
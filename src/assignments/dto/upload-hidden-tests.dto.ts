@@ -0,0 +1,31 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class HiddenTestFileDto {
+  @IsString()
+  @IsNotEmpty()
+  path: string;
+
+  @IsString()
+  content: string;
+
+  @IsOptional()
+  @IsIn(['utf8', 'base64'])
+  encoding?: 'utf8' | 'base64';
+}
+
+export class UploadHiddenTestsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => HiddenTestFileDto)
+  files: HiddenTestFileDto[];
+}
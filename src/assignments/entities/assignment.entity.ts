@@ -0,0 +1,38 @@
+export class LlmSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Context window the code is packed into; defaults to LLM_CONTEXT_TOKENS
+  contextTokens?: number;
+  // Independent gradings whose median score is used
+  samples?: number;
+  // Largest spread between sample scores, as a fraction of the LLM
+  // criterion's points, before the result is flagged for review
+  maxScoreSpread?: number;
+}
+
+export class RequirementCheck {
+  requirement: string;
+  // Regular expressions that must each match somewhere in lib/
+  patterns: string[];
+}
+
+export class Assignment {
+  id: string;
+  title: string;
+  description: string;
+  requirements: string[];
+  // Deterministic checks for the requirements, run before the LLM
+  requirementChecks?: RequirementCheck[];
+  requiredFiles: string[];
+  deadline?: string;
+  // Grade the last commit made before the deadline instead of the latest one
+  gradeAtDeadline?: boolean;
+  evaluationCriteria: string[];
+  rubricId?: string;
+  llm?: LlmSettings;
+  // Installed Flutter SDK every command runs with; the one on the PATH if unset
+  flutterVersion?: string;
+  createdAt: string;
+  updatedAt: string;
+}
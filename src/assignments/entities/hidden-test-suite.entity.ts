@@ -0,0 +1,19 @@
+export class HiddenTestFile {
+  // Relative to the suite root, e.g. `widget_test.dart` or `fixtures/todos.json`
+  path: string;
+  // Base64 so binary fixtures survive the JSON store
+  content: string;
+}
+
+// Keyed by the assignment id; never returned by the API
+export class HiddenTestSuite {
+  id: string;
+  files: HiddenTestFile[];
+  updatedAt: string;
+}
+
+export class HiddenTestSuiteSummary {
+  assignmentId: string;
+  files: string[];
+  updatedAt: string;
+}
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HiddenTestsController } from './hidden-tests.controller';
+import { HiddenTestsService } from './hidden-tests.service';
+
+describe('HiddenTestsController', () => {
+  let controller: HiddenTestsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HiddenTestsController],
+      providers: [{ provide: HiddenTestsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<HiddenTestsController>(HiddenTestsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
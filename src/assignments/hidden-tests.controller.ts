@@ -0,0 +1,42 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+} from '@nestjs/common';
+import { HiddenTestsService } from './hidden-tests.service';
+import { UploadHiddenTestsDto } from './dto/upload-hidden-tests.dto';
+import { HiddenTestSuiteSummary } from './entities/hidden-test-suite.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('assignments/:assignmentId/hidden-tests')
+export class HiddenTestsController {
+  constructor(private readonly hiddenTestsService: HiddenTestsService) {}
+
+  @Put()
+  @Roles('instructor')
+  replace(
+    @Param('assignmentId') assignmentId: string,
+    @Body() uploadDto: UploadHiddenTestsDto,
+  ): Promise<HiddenTestSuiteSummary> {
+    return this.hiddenTestsService.replace(assignmentId, uploadDto);
+  }
+
+  @Get()
+  describe(
+    @Param('assignmentId') assignmentId: string,
+  ): Promise<HiddenTestSuiteSummary> {
+    return this.hiddenTestsService.describe(assignmentId);
+  }
+
+  @Delete()
+  @Roles('instructor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('assignmentId') assignmentId: string): Promise<void> {
+    return this.hiddenTestsService.remove(assignmentId);
+  }
+}
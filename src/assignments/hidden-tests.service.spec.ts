@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { HiddenTestsService } from './hidden-tests.service';
+import { AssignmentsService } from './assignments.service';
+import { StorageService } from '../storage/storage.service';
+
+describe('HiddenTestsService', () => {
+  let service: HiddenTestsService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hidden-tests-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HiddenTestsService,
+        StorageService,
+        {
+          provide: AssignmentsService,
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'a1' }) },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<HiddenTestsService>(HiddenTestsService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should install the stored suite without exposing its sources', async () => {
+    const summary = await service.replace('a1', {
+      files: [
+        { path: 'todo_test.dart', content: 'void main() {}' },
+        {
+          path: 'fixtures/todos.json',
+          content: Buffer.from('[]').toString('base64'),
+          encoding: 'base64',
+        },
+      ],
+    });
+
+    expect(summary.files).toEqual(['todo_test.dart', 'fixtures/todos.json']);
+    expect(JSON.stringify(summary)).not.toContain('void main');
+
+    const target = path.join(dataDir, 'repo', 'hidden_test');
+    await fs.outputFile(path.join(target, 'planted_test.dart'), '');
+    expect(await service.install('a1', target)).toBe(true);
+
+    expect(await fs.readdir(target)).toEqual(['fixtures', 'todo_test.dart']);
+    expect(
+      await fs.readFile(path.join(target, 'fixtures/todos.json'), 'utf8'),
+    ).toBe('[]');
+  });
+
+  it('should reject paths that escape the suite directory', async () => {
+    for (const escaping of ['../lib/main_test.dart', 'fixtures/../..']) {
+      await expect(
+        service.replace('a1', {
+          files: [
+            { path: 'main_test.dart', content: '' },
+            { path: escaping, content: '' },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    }
+  });
+
+  it('should require at least one test file', async () => {
+    await expect(
+      service.replace('a1', {
+        files: [{ path: 'fixtures/todos.json', content: '[]' }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should report when an assignment has no suite', async () => {
+    expect(await service.install('a1', path.join(dataDir, 'x'))).toBe(false);
+    await expect(service.describe('a1')).rejects.toThrow(NotFoundException);
+  });
+});
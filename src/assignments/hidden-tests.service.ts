@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AssignmentsService } from './assignments.service';
+import { UploadHiddenTestsDto } from './dto/upload-hidden-tests.dto';
+import {
+  HiddenTestFile,
+  HiddenTestSuite,
+  HiddenTestSuiteSummary,
+} from './entities/hidden-test-suite.entity';
+
+// Upper bound on the decoded size of one suite
+export const MAX_HIDDEN_SUITE_BYTES = 5 * 1024 * 1024;
+
+@Injectable()
+export class HiddenTestsService {
+  private readonly logger = new Logger(HiddenTestsService.name);
+  private readonly suites: JsonCollection<HiddenTestSuite>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly assignmentsService: AssignmentsService,
+  ) {
+    this.suites =
+      this.storageService.collection<HiddenTestSuite>('hidden-test-suites');
+  }
+
+  /**
+   * Replaces the assignment's hidden test suite with the uploaded files.
+   */
+  async replace(
+    assignmentId: string,
+    uploadDto: UploadHiddenTestsDto,
+  ): Promise<HiddenTestSuiteSummary> {
+    await this.assignmentsService.findOne(assignmentId);
+
+    const paths = new Set<string>();
+    let totalBytes = 0;
+    const files: HiddenTestFile[] = uploadDto.files.map((file) => {
+      const filePath = this.normalizePath(file.path);
+      if (paths.has(filePath)) {
+        throw new BadRequestException(
+          `Duplicate hidden test file: ${filePath}`,
+        );
+      }
+      paths.add(filePath);
+
+      const content = Buffer.from(file.content, file.encoding ?? 'utf8');
+      totalBytes += content.length;
+      return { path: filePath, content: content.toString('base64') };
+    });
+
+    if (totalBytes > MAX_HIDDEN_SUITE_BYTES) {
+      throw new BadRequestException(
+        `Hidden test suite exceeds ${MAX_HIDDEN_SUITE_BYTES} bytes`,
+      );
+    }
+    if (!files.some((file) => file.path.endsWith('_test.dart'))) {
+      throw new BadRequestException(
+        'Hidden test suite must contain at least one *_test.dart file',
+      );
+    }
+
+    const suite: HiddenTestSuite = {
+      id: assignmentId,
+      files,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.suites.save(suite);
+    this.logger.log(
+      `Stored ${files.length} hidden test file(s) for assignment ${assignmentId}`,
+    );
+    return this.toSummary(suite);
+  }
+
+  async describe(assignmentId: string): Promise<HiddenTestSuiteSummary> {
+    const suite = await this.suites.findById(assignmentId);
+    if (!suite) {
+      throw new NotFoundException(
+        `Assignment ${assignmentId} has no hidden test suite`,
+      );
+    }
+    return this.toSummary(suite);
+  }
+
+  /**
+   * Identifies the current version of the assignment's suite, so results
+   * graded against an older one can be told apart. Undefined without a suite.
+   */
+  async revision(assignmentId: string): Promise<string | undefined> {
+    return (await this.suites.findById(assignmentId))?.updatedAt;
+  }
+
+  async remove(assignmentId: string): Promise<void> {
+    const removed = await this.suites.remove(assignmentId);
+    if (!removed) {
+      throw new NotFoundException(
+        `Assignment ${assignmentId} has no hidden test suite`,
+      );
+    }
+    this.logger.log(`Removed hidden test suite of assignment ${assignmentId}`);
+  }
+
+  /**
+   * Writes the assignment's suite into `targetDir`, replacing anything the
+   * student may have put there. Returns false when there is no suite.
+   */
+  async install(assignmentId: string, targetDir: string): Promise<boolean> {
+    const suite = await this.suites.findById(assignmentId);
+    if (!suite) {
+      return false;
+    }
+
+    await fs.remove(targetDir);
+    for (const file of suite.files) {
+      const target = path.join(targetDir, file.path);
+      await fs.ensureDir(path.dirname(target));
+      await fs.writeFile(target, Buffer.from(file.content, 'base64'));
+    }
+    return true;
+  }
+
+  private normalizePath(filePath: string): string {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, '/'));
+    if (
+      path.posix.isAbsolute(normalized) ||
+      normalized === '.' ||
+      normalized.split('/').includes('..')
+    ) {
+      throw new BadRequestException(
+        `Invalid hidden test file path: ${filePath}`,
+      );
+    }
+    return normalized;
+  }
+
+  private toSummary(suite: HiddenTestSuite): HiddenTestSuiteSummary {
+    return {
+      assignmentId: suite.id,
+      files: suite.files.map((file) => file.path),
+      updatedAt: suite.updatedAt,
+    };
+  }
+}
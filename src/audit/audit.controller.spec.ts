@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthService } from '../auth/auth.service';
+
+describe('AuditController', () => {
+  let controller: AuditController;
+  const auditService = { findAll: jest.fn() };
+
+  const guard = new AuthGuard(
+    new Reflector(),
+    new AuthService(
+      new ConfigService({
+        AUTH_API_KEYS: 'ta-key:ta,amira-key:student:221JMT4512',
+      }),
+    ),
+  );
+  const canActivate = (route: keyof AuditController, apiKey: string) => {
+    const request = {
+      headers: {},
+      header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+    };
+    return () =>
+      guard.canActivate({
+        getHandler: () => AuditController.prototype[route],
+        getClass: () => AuditController,
+        switchToHttp: () => ({ getRequest: () => request }),
+      } as unknown as ExecutionContext);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AuditController],
+      providers: [{ provide: AuditService, useValue: auditService }],
+    }).compile();
+
+    controller = module.get<AuditController>(AuditController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should keep the audit log from students', () => {
+    expect(canActivate('findAll', 'ta-key')()).toBe(true);
+    expect(canActivate('findAll', 'amira-key')).toThrow(ForbiddenException);
+  });
+
+  it('should pass the filters to the service', async () => {
+    auditService.findAll.mockResolvedValue([]);
+
+    await expect(
+      controller.findAll({ submissionId: 'x', action: 'score.overridden' }),
+    ).resolves.toEqual([]);
+    expect(auditService.findAll).toHaveBeenCalledWith({
+      submissionId: 'x',
+      action: 'score.overridden',
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AuditService } from './audit.service';
+import { ListAuditQueryDto } from './dto/list-audit-query.dto';
+import { AuditEntry } from './entities/audit-entry.entity';
+
+@Controller('audit')
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  findAll(@Query() query: ListAuditQueryDto): Promise<AuditEntry[]> {
+    return this.auditService.findAll(query);
+  }
+}
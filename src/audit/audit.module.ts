@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+
+@Module({
+  imports: [StorageModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
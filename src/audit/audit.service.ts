@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { Principal } from '../auth/entities/principal.entity';
+import { ListAuditQueryDto } from './dto/list-audit-query.dto';
+import { AuditEntry } from './entities/audit-entry.entity';
+
+export type AuditRecord = Omit<AuditEntry, 'id' | 'actor' | 'createdAt'>;
+
+/**
+ * The append-only record of who changed grades and grading state: entries
+ * can be added and read, but there is no way to edit or delete them.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+  private readonly entries: JsonCollection<AuditEntry>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.entries = this.storageService.collection<AuditEntry>('audit-log');
+  }
+
+  async record(principal: Principal, record: AuditRecord): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      ...record,
+      actor: { id: principal.id, role: principal.role },
+      createdAt: new Date().toISOString(),
+    };
+    await this.entries.save(entry);
+    this.logger.log(
+      `${entry.action} by ${principal.id}${entry.submissionId ? ` on submission ${entry.submissionId}` : ''}`,
+    );
+    return entry;
+  }
+
+  // Oldest first, so the entries read as a history
+  async findAll(query: ListAuditQueryDto = {}): Promise<AuditEntry[]> {
+    return (await this.entries.findAll())
+      .filter(
+        (entry) =>
+          (!query.submissionId || entry.submissionId === query.submissionId) &&
+          (!query.studentId || entry.studentId === query.studentId) &&
+          (!query.assignmentId || entry.assignmentId === query.assignmentId) &&
+          (!query.action || entry.action === query.action),
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
@@ -0,0 +1,24 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { AUDIT_ACTIONS } from '../entities/audit-entry.entity';
+import type { AuditAction } from '../entities/audit-entry.entity';
+
+export class ListAuditQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  submissionId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  studentId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  assignmentId?: string;
+
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS)
+  action?: AuditAction;
+}
@@ -0,0 +1,39 @@
+import { Role } from '../../auth/entities/principal.entity';
+
+export const AUDIT_ACTIONS = [
+  'score.overridden',
+  'regrade.requested',
+  'regrade.resolved',
+  'submission.rerun',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditValue = string | number | boolean | null;
+
+export class AuditChange {
+  // e.g. `totalScore`, `status` or `checks[Tests].score`
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export class AuditActor {
+  id: string;
+  role: Role;
+}
+
+// Entries are only ever added, never changed or removed
+export class AuditEntry {
+  id: string;
+  action: AuditAction;
+  actor: AuditActor;
+  submissionId?: string;
+  assignmentId?: string;
+  studentId?: string;
+  changes: AuditChange[];
+  // The justification, comment or response given with the change
+  note?: string;
+  // Related record, such as the regrade request or the re-run's job
+  referenceId?: string;
+  createdAt: string;
+}
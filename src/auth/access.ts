@@ -0,0 +1,18 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Principal, STAFF_ROLES } from './entities/principal.entity';
+
+export function isStaff(principal: Principal): boolean {
+  return STAFF_ROLES.includes(principal.role);
+}
+
+/**
+ * Staff may act on any student's work; students only on their own.
+ */
+export function assertOwnWork(
+  principal: Principal,
+  studentId: string | undefined,
+): void {
+  if (!isStaff(principal) && studentId !== principal.studentId) {
+    throw new ForbiddenException('Students can only access their own work');
+  }
+}
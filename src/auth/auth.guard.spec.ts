@@ -0,0 +1,68 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from './auth.guard';
+import { AuthService } from './auth.service';
+import { Public } from './decorators/public.decorator';
+import { Roles } from './decorators/roles.decorator';
+
+class TestController {
+  @Public()
+  open(this: void) {}
+
+  staffOnly(this: void) {}
+
+  @Roles('instructor', 'ta', 'student')
+  everyone(this: void) {}
+}
+
+describe('AuthGuard', () => {
+  const guard = new AuthGuard(
+    new Reflector(),
+    new AuthService(
+      new ConfigService({
+        AUTH_API_KEYS: 'ta-key:ta,amira-key:student:221JMT4512',
+      }),
+    ),
+  );
+  const context = (handler: () => void, apiKey?: string) => {
+    const request = {
+      headers: {},
+      header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+      principal: undefined,
+    };
+    const executionContext = {
+      getHandler: () => handler,
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => request }),
+    } as unknown as ExecutionContext;
+    return { executionContext, request };
+  };
+  const { prototype } = TestController;
+
+  it('should let anyone through public routes', () => {
+    expect(guard.canActivate(context(prototype.open).executionContext)).toBe(
+      true,
+    );
+  });
+
+  it('should keep students out of staff routes', () => {
+    const { executionContext, request } = context(
+      prototype.staffOnly,
+      'ta-key',
+    );
+    expect(guard.canActivate(executionContext)).toBe(true);
+    expect(request.principal).toEqual({ id: 'api-key-1', role: 'ta' });
+
+    expect(() =>
+      guard.canActivate(
+        context(prototype.staffOnly, 'amira-key').executionContext,
+      ),
+    ).toThrow(ForbiddenException);
+    expect(
+      guard.canActivate(
+        context(prototype.everyone, 'amira-key').executionContext,
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { AuthService } from './auth.service';
+import { IS_PUBLIC_KEY } from './decorators/public.decorator';
+import { ROLES_KEY } from './decorators/roles.decorator';
+import { Principal, Role, STAFF_ROLES } from './entities/principal.entity';
+
+export interface AuthenticatedRequest extends Request {
+  principal?: Principal;
+}
+
+/**
+ * Global guard: authenticates every request not marked `@Public()` and checks
+ * the principal's role against the route's `@Roles()`, staff by default.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const principal = this.authService.authenticate(
+      request.headers.authorization,
+      request.header('x-api-key'),
+    );
+    request.principal = principal;
+
+    const roles =
+      this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, targets) ??
+      STAFF_ROLES;
+    if (!roles.includes(principal.role)) {
+      throw new ForbiddenException(
+        `This action requires one of the roles: ${roles.join(', ')}`,
+      );
+    }
+    return true;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { RateLimitService } from './rate-limit.service';
+
+@Module({
+  providers: [
+    AuthService,
+    RateLimitService,
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+  exports: [AuthService, RateLimitService],
+})
+export class AuthModule {}
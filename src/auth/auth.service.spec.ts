@@ -0,0 +1,66 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AuthService } from './auth.service';
+import { signJwt } from './jwt';
+
+describe('AuthService', () => {
+  const secret = 'test-secret';
+  const create = (config: Record<string, string>) =>
+    new AuthService(new ConfigService(config));
+
+  it('should resolve configured API keys', () => {
+    const service = create({
+      AUTH_API_KEYS: 'prof-key:instructor, amira-key:student:221JMT4512',
+    });
+
+    expect(service.authenticate(undefined, 'prof-key')).toEqual({
+      id: 'api-key-1',
+      role: 'instructor',
+    });
+    expect(service.authenticate('Bearer amira-key')).toEqual({
+      id: 'api-key-2',
+      role: 'student',
+      studentId: '221JMT4512',
+    });
+    expect(() => service.authenticate(undefined, 'guess')).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => service.authenticate()).toThrow(UnauthorizedException);
+  });
+
+  it('should reject malformed API key entries', () => {
+    expect(() => create({ AUTH_API_KEYS: 'key:admin' })).toThrow(
+      /AUTH_API_KEYS entry 1/,
+    );
+    expect(() => create({ AUTH_API_KEYS: 'key:student' })).toThrow(
+      /students need a studentId/,
+    );
+  });
+
+  it('should resolve JWTs by their role claim', () => {
+    const service = create({ AUTH_JWT_SECRET: secret });
+
+    expect(
+      service.authenticate(
+        `Bearer ${signJwt({ sub: '221JMT4512', role: 'student' }, secret)}`,
+      ),
+    ).toEqual({ id: '221JMT4512', role: 'student', studentId: '221JMT4512' });
+    expect(() =>
+      service.authenticate(
+        `Bearer ${signJwt({ sub: 'x', role: 'admin' }, secret)}`,
+      ),
+    ).toThrow('Token must carry a valid role, and students a studentId');
+    expect(() =>
+      service.authenticate(
+        `Bearer ${signJwt({ role: 'instructor' }, 'other-secret')}`,
+      ),
+    ).toThrow('Invalid token signature');
+  });
+
+  it('should act as an instructor when disabled', () => {
+    expect(create({ AUTH_DISABLED: 'true' }).authenticate()).toEqual({
+      id: 'anonymous',
+      role: 'instructor',
+    });
+  });
+});
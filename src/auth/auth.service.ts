@@ -0,0 +1,135 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { InvalidTokenError, verifyJwt } from './jwt';
+import { Principal, Role, ROLES } from './entities/principal.entity';
+
+// Acting principal when AUTH_DISABLED is set, e.g. for local development
+const ANONYMOUS_INSTRUCTOR: Principal = { id: 'anonymous', role: 'instructor' };
+
+/**
+ * Resolves API keys and JWTs to principals. API keys are configured in
+ * AUTH_API_KEYS as comma-separated `<key>:<role>[:<studentId>]` entries; JWTs
+ * are HS256-signed with AUTH_JWT_SECRET and carry a `role` claim, and
+ * students a `studentId` claim (their `sub` otherwise).
+ */
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly disabled: boolean;
+  // Keyed by the SHA-256 of the key, so lookups do not compare raw secrets
+  private readonly apiKeys = new Map<string, Principal>();
+  private readonly jwtSecret?: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.disabled =
+      this.configService.get<string>('AUTH_DISABLED')?.toLowerCase() === 'true';
+    this.jwtSecret =
+      this.configService.get<string>('AUTH_JWT_SECRET') || undefined;
+
+    const entries = (this.configService.get<string>('AUTH_API_KEYS') ?? '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    entries.forEach((entry, index) => {
+      const [key, role, studentId] = entry
+        .split(':')
+        .map((part) => part.trim());
+      const principal = this.toPrincipal(
+        `api-key-${index + 1}`,
+        role,
+        studentId,
+      );
+      if (!key || !principal) {
+        throw new Error(
+          `AUTH_API_KEYS entry ${index + 1} must be <key>:<role>[:<studentId>] with a role of ${ROLES.join(', ')}; students need a studentId`,
+        );
+      }
+      this.apiKeys.set(this.hash(key), principal);
+    });
+
+    if (this.disabled) {
+      this.logger.warn(
+        'AUTH_DISABLED is set: every request acts as an instructor',
+      );
+    } else if (this.apiKeys.size === 0 && !this.jwtSecret) {
+      this.logger.warn(
+        'Neither AUTH_API_KEYS nor AUTH_JWT_SECRET is set: all authenticated routes will answer 401',
+      );
+    }
+  }
+
+  /**
+   * Authenticates a request from its `Authorization: Bearer` or `X-API-Key`
+   * header. A bearer credential is taken for a JWT when it has three parts.
+   */
+  authenticate(authorization?: string, apiKey?: string): Principal {
+    if (this.disabled) {
+      return ANONYMOUS_INSTRUCTOR;
+    }
+
+    const bearer = /^Bearer\s+(\S+)$/i.exec(authorization ?? '')?.[1];
+    const credential = bearer ?? apiKey;
+    if (!credential) {
+      throw new UnauthorizedException(
+        'Authentication required: send an API key or a bearer token',
+      );
+    }
+
+    if (credential.split('.').length === 3) {
+      return this.authenticateJwt(credential);
+    }
+    const principal = this.apiKeys.get(this.hash(credential));
+    if (!principal) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    return principal;
+  }
+
+  private authenticateJwt(token: string): Principal {
+    if (!this.jwtSecret) {
+      throw new UnauthorizedException('Bearer tokens are not accepted');
+    }
+
+    let claims: ReturnType<typeof verifyJwt>;
+    try {
+      claims = verifyJwt(token, this.jwtSecret);
+    } catch (error) {
+      if (error instanceof InvalidTokenError) {
+        throw new UnauthorizedException(error.message);
+      }
+      throw error;
+    }
+
+    const studentId = claims.studentId ?? claims.sub;
+    const principal = this.toPrincipal(
+      claims.sub ?? 'jwt',
+      claims.role,
+      typeof studentId === 'string' ? studentId : undefined,
+    );
+    if (!principal) {
+      throw new UnauthorizedException(
+        'Token must carry a valid role, and students a studentId',
+      );
+    }
+    return principal;
+  }
+
+  private toPrincipal(
+    id: string,
+    role: unknown,
+    studentId?: string,
+  ): Principal | undefined {
+    if (!ROLES.includes(role as Role)) {
+      return undefined;
+    }
+    if (role === 'student') {
+      return studentId ? { id, role, studentId } : undefined;
+    }
+    return { id, role: role as Role };
+  }
+
+  private hash(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
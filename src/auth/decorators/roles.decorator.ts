@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../entities/principal.entity';
+
+export const ROLES_KEY = 'roles';
+
+// Routes without `@Roles` are open to staff (instructors and TAs) only
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,14 @@
+export const ROLES = ['instructor', 'ta', 'student'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Roles that see every student's work
+export const STAFF_ROLES: Role[] = ['instructor', 'ta'];
+
+export class Principal {
+  // API key name or JWT subject, for logs
+  id: string;
+  role: Role;
+  // The student a `student` principal acts as
+  studentId?: string;
+}
@@ -0,0 +1,53 @@
+import { InvalidTokenError, signJwt, verifyJwt } from './jwt';
+
+describe('jwt', () => {
+  const secret = 'test-secret';
+  const now = Date.parse('2025-01-31T12:00:00Z');
+  const seconds = now / 1000;
+
+  it('should verify a signed token', () => {
+    const token = signJwt(
+      { sub: 'amira', role: 'student', exp: seconds + 60 },
+      secret,
+    );
+
+    expect(verifyJwt(token, secret, now)).toEqual({
+      sub: 'amira',
+      role: 'student',
+      exp: seconds + 60,
+    });
+  });
+
+  it('should reject tampered, foreign and expired tokens', () => {
+    const token = signJwt({ sub: 'amira', role: 'student' }, secret);
+    const [header, , signature] = token.split('.');
+    const payload = Buffer.from(
+      JSON.stringify({ sub: 'amira', role: 'instructor' }),
+    ).toString('base64url');
+
+    expect(() =>
+      verifyJwt(`${header}.${payload}.${signature}`, secret),
+    ).toThrow(InvalidTokenError);
+    expect(() => verifyJwt(token, 'other-secret')).toThrow(InvalidTokenError);
+    expect(() =>
+      verifyJwt(signJwt({ exp: seconds - 1 }, secret), secret, now),
+    ).toThrow('Token has expired');
+    expect(() =>
+      verifyJwt(signJwt({ nbf: seconds + 60 }, secret), secret, now),
+    ).toThrow('Token is not valid yet');
+  });
+
+  it('should refuse unsigned tokens', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString(
+      'base64url',
+    );
+    const payload = Buffer.from(
+      JSON.stringify({ role: 'instructor' }),
+    ).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${payload}.`, secret)).toThrow(
+      'Unsupported token algorithm',
+    );
+    expect(() => verifyJwt('not-a-token', secret)).toThrow('Malformed token');
+  });
+});
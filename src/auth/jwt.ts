@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export class InvalidTokenError extends Error {}
+
+export interface JwtClaims {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+/**
+ * Verifies an HS256-signed JWT and returns its claims. Other algorithms,
+ * including `none`, are refused, as are expired and not yet valid tokens.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new InvalidTokenError('Malformed token');
+  }
+  const [header, payload, signature] = parts;
+
+  if (decodeJson(header).alg !== 'HS256') {
+    throw new InvalidTokenError('Unsupported token algorithm');
+  }
+  const expected = createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new InvalidTokenError('Invalid token signature');
+  }
+
+  const claims = decodeJson(payload) as JwtClaims;
+  const seconds = now / 1000;
+  if (typeof claims.exp === 'number' && seconds >= claims.exp) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf) {
+    throw new InvalidTokenError('Token is not valid yet');
+  }
+  return claims;
+}
+
+/**
+ * Issues an HS256-signed JWT, e.g. for scripts and tests.
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const header = encodeJson({ alg: 'HS256', typ: 'JWT' });
+  const payload = encodeJson(claims);
+  const signature = createHmac('sha256', secret)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+function encodeJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeJson(part: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(
+      Buffer.from(part, 'base64url').toString('utf8'),
+    );
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidTokenError('Malformed token');
+}
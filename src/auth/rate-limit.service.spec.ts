@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  RateLimitService,
+  TooManyRequestsException,
+} from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  const student = (studentId: string) => ({
+    id: studentId,
+    role: 'student' as const,
+    studentId,
+  });
+  const instructor = { id: 'prof', role: 'instructor' as const };
+  const service = (config: Record<string, string>) =>
+    new RateLimitService(
+      new ConfigService({ RATE_LIMIT_WINDOW_SECONDS: '60', ...config }),
+    );
+
+  it('should limit each student within the window', () => {
+    const limits = service({ RATE_LIMIT_PER_STUDENT: '2' });
+    const start = 1_000_000;
+
+    limits.consumeSubmission(student('a'), start);
+    limits.consumeSubmission(student('a'), start + 10_000);
+    limits.consumeSubmission(student('b'), start + 10_000);
+    limits.consumeSubmission(instructor, start + 10_000);
+
+    let error: unknown;
+    try {
+      limits.consumeSubmission(student('a'), start + 20_000);
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(TooManyRequestsException);
+    expect((error as TooManyRequestsException).retryAfterSeconds).toBe(40);
+    expect((error as TooManyRequestsException).getStatus()).toBe(429);
+
+    // The first submission has left the window
+    expect(() =>
+      limits.consumeSubmission(student('a'), start + 60_001),
+    ).not.toThrow();
+  });
+
+  it('should apply the global limit to everyone', () => {
+    const limits = service({
+      RATE_LIMIT_PER_STUDENT: '0',
+      RATE_LIMIT_GLOBAL: '2',
+    });
+
+    limits.consumeSubmission(student('a'), 0);
+    limits.consumeSubmission(instructor, 0);
+
+    expect(() => limits.consumeSubmission(student('b'), 0)).toThrow(
+      /at most 2 submission\(s\) in total/,
+    );
+  });
+
+  it('should not count rejected submissions', () => {
+    const limits = service({
+      RATE_LIMIT_PER_STUDENT: '1',
+      RATE_LIMIT_GLOBAL: '2',
+    });
+
+    limits.consumeSubmission(student('a'), 0);
+    expect(() => limits.consumeSubmission(student('a'), 0)).toThrow(
+      TooManyRequestsException,
+    );
+    limits.consumeSubmission(student('b'), 0);
+  });
+});
@@ -0,0 +1,100 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Principal } from './entities/principal.entity';
+
+const DEFAULT_WINDOW_SECONDS = 3600;
+const DEFAULT_PER_STUDENT = 10;
+const DEFAULT_GLOBAL = 200;
+
+export class TooManyRequestsException extends HttpException {
+  constructor(
+    message: string,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
+
+/**
+ * Sliding-window limits on submissions: per student and across everyone.
+ * Counts are kept in memory, so they reset when the server restarts.
+ */
+@Injectable()
+export class RateLimitService {
+  private readonly windowMs: number;
+  private readonly perStudent: number;
+  private readonly global: number;
+  // Submission times within the window, oldest first, by limit key
+  private readonly submissions = new Map<string, number[]>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.windowMs =
+      this.limit('RATE_LIMIT_WINDOW_SECONDS', DEFAULT_WINDOW_SECONDS) * 1000;
+    this.perStudent = this.limit('RATE_LIMIT_PER_STUDENT', DEFAULT_PER_STUDENT);
+    this.global = this.limit('RATE_LIMIT_GLOBAL', DEFAULT_GLOBAL);
+  }
+
+  /**
+   * Counts a submission by `principal`, or throws a TooManyRequestsException
+   * without counting it when a limit is reached. Staff are only subject to the
+   * global limit.
+   */
+  consumeSubmission(principal: Principal, now = Date.now()): void {
+    const limits: Array<[key: string, max: number, scope: string]> = [];
+    if (this.global > 0) {
+      limits.push(['global', this.global, 'in total']);
+    }
+    if (principal.role === 'student' && this.perStudent > 0) {
+      limits.push([
+        `student:${principal.studentId}`,
+        this.perStudent,
+        'per student',
+      ]);
+    }
+
+    for (const [key, max, scope] of limits) {
+      const times = this.recent(key, now);
+      if (times.length >= max) {
+        const retryAfter = Math.ceil((times[0] + this.windowMs - now) / 1000);
+        throw new TooManyRequestsException(
+          `Submission limit reached: at most ${max} submission(s) ${scope} every ${this.windowMs / 1000} seconds. Try again in ${retryAfter} seconds.`,
+          retryAfter,
+        );
+      }
+    }
+    for (const [key] of limits) {
+      this.submissions.set(key, [...this.recent(key, now), now]);
+    }
+  }
+
+  private recent(key: string, now: number): number[] {
+    const times = (this.submissions.get(key) ?? []).filter(
+      (time) => time > now - this.windowMs,
+    );
+    if (times.length === 0) {
+      this.submissions.delete(key);
+    }
+    return times;
+  }
+
+  // A non-negative integer setting; 0 disables the limit
+  private limit(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`${key} must be a non-negative integer`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,36 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { Response } from 'express';
+import { AuthenticatedRequest } from './auth.guard';
+import {
+  RateLimitService,
+  TooManyRequestsException,
+} from './rate-limit.service';
+
+/**
+ * Applies the submission rate limits to a route. Runs after the global
+ * AuthGuard, so the principal is known.
+ */
+@Injectable()
+export class SubmissionRateLimitGuard implements CanActivate {
+  constructor(private readonly rateLimitService: RateLimitService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const http = context.switchToHttp();
+    const { principal } = http.getRequest<AuthenticatedRequest>();
+    if (!principal) {
+      return true;
+    }
+
+    try {
+      this.rateLimitService.consumeSubmission(principal);
+    } catch (error) {
+      if (error instanceof TooManyRequestsException) {
+        http
+          .getResponse<Response>()
+          .setHeader('Retry-After', String(error.retryAfterSeconds));
+      }
+      throw error;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+} from '@nestjs/common';
+import { BatchesService } from './batches.service';
+import type { GradebookFormat } from './batches.service';
+import { CreateBatchDto } from './dto/create-batch.dto';
+import { Batch } from './entities/batch.entity';
+
+@Controller('batches')
+export class BatchesController {
+  constructor(private readonly batchesService: BatchesService) {}
+
+  @Post()
+  create(@Body() createBatchDto: CreateBatchDto): Promise<Batch> {
+    return this.batchesService.create(createBatchDto);
+  }
+
+  @Get()
+  findAll(): Promise<Batch[]> {
+    return this.batchesService.findAll();
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string): Promise<Batch> {
+    return this.batchesService.findOne(id);
+  }
+
+  @Get(':id/gradebook')
+  async exportGradebook(
+    @Param('id') id: string,
+    @Query('format') format: GradebookFormat = 'csv',
+  ): Promise<StreamableFile> {
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new BadRequestException('format must be csv or xlsx');
+    }
+
+    const csv = await this.batchesService.exportGradebook(id, format);
+    return new StreamableFile(Buffer.from(csv, 'utf-8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="gradebook-${id}.csv"`,
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { EvaluateModule } from '../evaluate/evaluate.module';
+import { SubmissionsModule } from '../submissions/submissions.module';
+import { BatchesService } from './batches.service';
+import { BatchesController } from './batches.controller';
+
+@Module({
+  imports: [
+    StorageModule,
+    AssignmentsModule,
+    EvaluateModule,
+    SubmissionsModule,
+  ],
+  controllers: [BatchesController],
+  providers: [BatchesService],
+})
+export class BatchesModule {}
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { BatchesService } from './batches.service';
+import { StorageService } from '../storage/storage.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { EvaluationJob } from '../evaluate/entities/evaluation-job.entity';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { parseCsv } from '../common/csv';
+
+describe('BatchesService', () => {
+  let service: BatchesService;
+  let submissionsService: SubmissionsService;
+  let dataDir: string;
+  const jobs = new Map<string, EvaluationJob>();
+  const evaluationQueueService = {
+    enqueue: jest.fn(),
+    findOne: jest.fn((id: string) => Promise.resolve(jobs.get(id))),
+  };
+
+  beforeEach(async () => {
+    jobs.clear();
+    evaluationQueueService.enqueue.mockImplementation(
+      (request: EvaluationJob['request']) => {
+        if (!request.repoUrl.includes('github.com')) {
+          return Promise.reject(
+            new BadRequestException('Invalid GitHub repository URL'),
+          );
+        }
+        const job: EvaluationJob = {
+          id: `job-${request.studentId}`,
+          status: 'queued',
+          request,
+          createdAt: new Date().toISOString(),
+        };
+        jobs.set(job.id, job);
+        return Promise.resolve(job);
+      },
+    );
+
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'batches-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchesService,
+        StorageService,
+        SubmissionsService,
+        { provide: AssignmentsService, useValue: { findOne: jest.fn() } },
+        { provide: EvaluationQueueService, useValue: evaluationQueueService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<BatchesService>(BatchesService);
+    submissionsService = module.get<SubmissionsService>(SubmissionsService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should queue every roster line and reject invalid ones', async () => {
+    const batch = await service.create({
+      assignmentId: 'todo',
+      csv: [
+        'Student ID,Name,Repository',
+        's1,Amira,https://github.com/amira/todo',
+        's2,Youssef,https://gitlab.com/youssef/todo',
+      ].join('\n'),
+    });
+
+    expect(batch.entries.map((entry) => entry.status)).toEqual([
+      'queued',
+      'rejected',
+    ]);
+    expect(batch.entries[1].error).toBe('Invalid GitHub repository URL');
+  });
+
+  it('should reject duplicate students', async () => {
+    await expect(
+      service.create({
+        assignmentId: 'todo',
+        students: [
+          { studentId: 's1', repoUrl: 'https://github.com/a/b' },
+          { studentId: 's1', repoUrl: 'https://github.com/a/c' },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should export per-check columns and the summary', async () => {
+    const batch = await service.create({
+      assignmentId: 'todo',
+      students: [
+        { studentId: 's1', name: 'Amira', repoUrl: 'https://github.com/a/b' },
+      ],
+    });
+    jobs.set('job-s1', {
+      ...jobs.get('job-s1')!,
+      status: 'completed',
+      result: {
+        totalScore: 15,
+        maxScore: 20,
+        checks: [
+          { name: 'Flutter Test', passed: true, score: 5 },
+          { name: 'Groq Code Evaluation', passed: true, score: 10 },
+        ],
+        summary: 'Solid work',
+      },
+    });
+
+    const rows = parseCsv(await service.exportGradebook(batch.id, 'csv'));
+
+    expect(rows).toEqual([
+      [
+        'Student ID',
+        'Name',
+        'Repository',
+        'Status',
+        'Total Score',
+        'Max Score',
+        'Flutter Test',
+        'Groq Code Evaluation',
+        'Summary',
+      ],
+      [
+        's1',
+        'Amira',
+        'https://github.com/a/b',
+        'completed',
+        '15',
+        '20',
+        '5',
+        '10',
+        'Solid work',
+      ],
+    ]);
+  });
+
+  it('should export the score an instructor overrode', async () => {
+    const batch = await service.create({
+      assignmentId: 'todo',
+      students: [{ studentId: 's1', repoUrl: 'https://github.com/a/b' }],
+    });
+    const job = jobs.get('job-s1')!;
+    const result = {
+      totalScore: 15,
+      maxScore: 20,
+      checks: [{ name: 'Flutter Test', passed: true, score: 5 }],
+    };
+    const submission = await submissionsService.record(
+      job.request,
+      result,
+      job.id,
+    );
+    await submissionsService.update({
+      ...submission,
+      totalScore: 18,
+      result: {
+        ...result,
+        totalScore: 18,
+        checks: [{ name: 'Flutter Test', passed: true, score: 8 }],
+      },
+    });
+    jobs.set(job.id, {
+      ...job,
+      status: 'completed',
+      result,
+      submissionId: submission.id,
+    });
+
+    const rows = parseCsv(await service.exportGradebook(batch.id, 'csv'));
+
+    expect(rows[1].slice(4, 7)).toEqual(['18', '20', '8']);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { EvaluateResponseDto } from '../evaluate/dto/evaluate-response.dto';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { toCsv } from '../common/csv';
+import { CreateBatchDto, RosterEntryDto } from './dto/create-batch.dto';
+import { Batch, BatchEntry } from './entities/batch.entity';
+import { parseRosterCsv } from './roster';
+
+export type GradebookFormat = 'csv' | 'xlsx';
+
+@Injectable()
+export class BatchesService {
+  private readonly logger = new Logger(BatchesService.name);
+  private readonly batches: JsonCollection<Batch>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly assignmentsService: AssignmentsService,
+    private readonly evaluationQueueService: EvaluationQueueService,
+    private readonly submissionsService: SubmissionsService,
+  ) {
+    this.batches = this.storageService.collection<Batch>('batches');
+  }
+
+  async create(createBatchDto: CreateBatchDto): Promise<Batch> {
+    await this.assignmentsService.findOne(createBatchDto.assignmentId);
+    const roster = this.resolveRoster(createBatchDto);
+
+    const entries: BatchEntry[] = [];
+    for (const student of roster) {
+      try {
+        const job = await this.evaluationQueueService.enqueue({
+          repoUrl: student.repoUrl,
+          assignmentId: createBatchDto.assignmentId,
+          studentId: student.studentId,
+        });
+        entries.push({ ...student, jobId: job.id, status: job.status });
+      } catch (error) {
+        // One bad roster line must not sink the rest of the class
+        if (!(error instanceof HttpException)) {
+          throw error;
+        }
+        entries.push({ ...student, status: 'rejected', error: error.message });
+      }
+    }
+
+    const batch: Batch = {
+      id: randomUUID(),
+      assignmentId: createBatchDto.assignmentId,
+      entries,
+      createdAt: new Date().toISOString(),
+    };
+    await this.batches.save(batch);
+    this.logger.log(
+      `Created batch ${batch.id} with ${entries.length} student(s) for assignment ${batch.assignmentId}`,
+    );
+    return batch;
+  }
+
+  async findAll(): Promise<Batch[]> {
+    const batches = await this.batches.findAll();
+    return Promise.all(batches.map((batch) => this.refresh(batch)));
+  }
+
+  async findOne(id: string): Promise<Batch> {
+    const batch = await this.batches.findById(id);
+    if (!batch) {
+      throw new NotFoundException(`Batch ${id} not found`);
+    }
+    return this.refresh(batch);
+  }
+
+  async exportGradebook(id: string, format: GradebookFormat): Promise<string> {
+    const batch = await this.findOne(id);
+    // The submission holds the result with any instructor overrides applied
+    const results = new Map<string, EvaluateResponseDto | undefined>();
+    for (const entry of batch.entries) {
+      if (entry.jobId) {
+        const job = await this.evaluationQueueService.findOne(entry.jobId);
+        results.set(
+          entry.jobId,
+          job.submissionId
+            ? (await this.submissionsService.findOne(job.submissionId)).result
+            : job.result,
+        );
+      }
+    }
+
+    // One column per check, in the order the pipeline ran them
+    const checkNames: string[] = [];
+    for (const result of results.values()) {
+      for (const check of result?.checks ?? []) {
+        if (!checkNames.includes(check.name)) {
+          checkNames.push(check.name);
+        }
+      }
+    }
+
+    const header = [
+      'Student ID',
+      'Name',
+      'Repository',
+      'Status',
+      'Total Score',
+      'Max Score',
+      ...checkNames,
+      'Summary',
+    ];
+    const rows = batch.entries.map((entry) => {
+      const result = entry.jobId ? results.get(entry.jobId) : undefined;
+      return [
+        entry.studentId,
+        entry.name,
+        entry.repoUrl,
+        entry.status,
+        result?.totalScore,
+        result?.maxScore,
+        ...checkNames.map(
+          (name) => result?.checks.find((check) => check.name === name)?.score,
+        ),
+        result?.details?.groqEvaluation?.summary ??
+          result?.summary ??
+          entry.error,
+      ];
+    });
+
+    return toCsv([header, ...rows], { excel: format === 'xlsx' });
+  }
+
+  private resolveRoster(createBatchDto: CreateBatchDto): RosterEntryDto[] {
+    const roster = createBatchDto.csv
+      ? parseRosterCsv(createBatchDto.csv)
+      : (createBatchDto.students ?? []);
+
+    if (roster.length === 0) {
+      throw new BadRequestException(
+        'A batch needs a non-empty roster in either students or csv',
+      );
+    }
+
+    const seen = new Set<string>();
+    for (const student of roster) {
+      if (seen.has(student.studentId)) {
+        throw new BadRequestException(
+          `Student ${student.studentId} appears more than once in the roster`,
+        );
+      }
+      seen.add(student.studentId);
+    }
+
+    return roster;
+  }
+
+  /**
+   * Copies the latest job status and score onto each entry that is still in
+   * flight.
+   */
+  private async refresh(batch: Batch): Promise<Batch> {
+    let changed = false;
+
+    for (const entry of batch.entries) {
+      if (
+        !entry.jobId ||
+        !(entry.status === 'queued' || entry.status === 'running')
+      ) {
+        continue;
+      }
+
+      const job = await this.evaluationQueueService.findOne(entry.jobId);
+      if (job.status !== entry.status) {
+        entry.status = job.status;
+        entry.totalScore = job.result?.totalScore;
+        entry.maxScore = job.result?.maxScore;
+        entry.error = job.error;
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await this.batches.save(batch);
+    }
+    return batch;
+  }
+}
@@ -0,0 +1,40 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class RosterEntryDto {
+  @IsString()
+  @IsNotEmpty()
+  studentId: string;
+
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  repoUrl: string;
+}
+
+export class CreateBatchDto {
+  @IsString()
+  @IsNotEmpty()
+  assignmentId: string;
+
+  // Either a JSON roster or the raw text of a roster CSV export
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RosterEntryDto)
+  students?: RosterEntryDto[];
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  csv?: string;
+}
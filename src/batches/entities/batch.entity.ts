@@ -0,0 +1,22 @@
+import { EvaluationJobStatus } from '../../evaluate/entities/evaluation-job.entity';
+
+// 'rejected' entries never reached the queue (e.g. an invalid repository URL)
+export type BatchEntryStatus = EvaluationJobStatus | 'rejected';
+
+export class BatchEntry {
+  studentId: string;
+  name?: string;
+  repoUrl: string;
+  jobId?: string;
+  status: BatchEntryStatus;
+  totalScore?: number;
+  maxScore?: number;
+  error?: string;
+}
+
+export class Batch {
+  id: string;
+  assignmentId: string;
+  entries: BatchEntry[];
+  createdAt: string;
+}
@@ -0,0 +1,47 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseCsv } from '../common/csv';
+import { RosterEntryDto } from './dto/create-batch.dto';
+
+// Accepted spellings of each roster column, compared without case or punctuation
+const COLUMN_ALIASES: Record<keyof RosterEntryDto, string[]> = {
+  studentId: ['studentid', 'id', 'matricule', 'studentnumber'],
+  name: ['name', 'studentname', 'fullname'],
+  repoUrl: ['repourl', 'repo', 'repository', 'url', 'github', 'githuburl'],
+};
+
+export function parseRosterCsv(csv: string): RosterEntryDto[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new BadRequestException('Roster CSV is empty');
+  }
+
+  const normalized = header.map((column) =>
+    column.toLowerCase().replace(/[^a-z0-9]/g, ''),
+  );
+  const indexOf = (key: keyof RosterEntryDto) =>
+    normalized.findIndex((column) => COLUMN_ALIASES[key].includes(column));
+
+  const studentIdIndex = indexOf('studentId');
+  const nameIndex = indexOf('name');
+  const repoUrlIndex = indexOf('repoUrl');
+  if (studentIdIndex === -1 || repoUrlIndex === -1) {
+    throw new BadRequestException(
+      'Roster CSV needs a header row with student id and repository URL columns',
+    );
+  }
+
+  return rows.map((row, index) => {
+    const studentId = row[studentIdIndex]?.trim();
+    const repoUrl = row[repoUrlIndex]?.trim();
+    if (!studentId || !repoUrl) {
+      throw new BadRequestException(
+        `Roster CSV row ${index + 2} is missing a student id or repository URL`,
+      );
+    }
+    return {
+      studentId,
+      name: nameIndex === -1 ? undefined : row[nameIndex]?.trim() || undefined,
+      repoUrl,
+    };
+  });
+}
@@ -0,0 +1,42 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    const rows = parseCsv(
+      'id,name\r\n1,"Doe, ""JD"" Jane"\n2,"multi\nline"\n\n',
+    );
+
+    expect(rows).toEqual([
+      ['id', 'name'],
+      ['1', 'Doe, "JD" Jane'],
+      ['2', 'multi\nline'],
+    ]);
+  });
+
+  it('should round-trip through toCsv', () => {
+    const rows = [
+      ['a', 'b,c'],
+      ['"quoted"', ''],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('should write Excel-friendly output when asked', () => {
+    const csv = toCsv(
+      [
+        ['name', 'score'],
+        ['=cmd()', 12],
+      ],
+      { excel: true },
+    );
+
+    expect(csv).toBe("\uFEFFname,score\r\n'=cmd(),12\r\n");
+  });
+
+  it('should neutralise formulas in plain CSV too', () => {
+    expect(
+      toCsv([['=HYPERLINK("x")', '+1', '-2', '@SUM(A1)', 'Amira', -3]]),
+    ).toBe(`"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),Amira,-3\n`);
+  });
+});
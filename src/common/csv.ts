@@ -0,0 +1,82 @@
+/**
+ * Minimal RFC 4180 CSV helpers: quoted fields, escaped quotes and embedded
+ * line breaks are supported; everything else is treated as plain text.
+ */
+export function parseCsv(input: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+export interface CsvWriteOptions {
+  // Prefix a BOM and use CRLF so Excel opens it cleanly
+  excel?: boolean;
+}
+
+/**
+ * Writes rows as CSV. Text that a spreadsheet would run as a formula is
+ * prefixed with `'` in every mode, since any CSV may end up in one.
+ */
+export function toCsv(
+  rows: Array<Array<string | number | undefined>>,
+  options: CsvWriteOptions = {},
+): string {
+  const lineBreak = options.excel ? '\r\n' : '\n';
+  const body = rows
+    .map((row) => row.map(escapeField).join(','))
+    .join(lineBreak);
+  return `${options.excel ? '\uFEFF' : ''}${body}${lineBreak}`;
+}
+
+function escapeField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,14 @@
+/**
+ * A comparable form of a repository URL: scheme, credentials, case, a
+ * trailing slash and the `.git` suffix are dropped, so the clone and web URLs
+ * of a repository are the same.
+ */
+export function normalizeRepoUrl(url: string): string {
+  try {
+    const { host, pathname } = new URL(url);
+    const repoPath = pathname.replace(/\/+$/, '').replace(/\.git$/, '');
+    return `${host}${repoPath}`.toLowerCase();
+  } catch {
+    return url.toLowerCase();
+  }
+}
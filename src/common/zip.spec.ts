@@ -0,0 +1,105 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
+import { extractZip, inspectZip, ZipArchiveError } from './zip';
+
+function buildZip(
+  entries: Array<{ name: string; content?: string; mode?: number }>,
+): Promise<Buffer> {
+  const zip = new yazl.ZipFile();
+  for (const entry of entries) {
+    zip.addBuffer(Buffer.from(entry.content ?? ''), entry.name, {
+      mode: entry.mode,
+    });
+  }
+  zip.end();
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    zip.outputStream
+      .on('data', (chunk: Buffer) => chunks.push(chunk))
+      .on('end', () => resolve(Buffer.concat(chunks)))
+      .on('error', reject);
+  });
+}
+
+describe('zip', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zip-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should extract into the single folder the project was zipped in', async () => {
+    const archive = await buildZip([
+      { name: 'todo_app/pubspec.yaml', content: 'name: todo' },
+      { name: 'todo_app/lib/main.dart', content: 'void main() {}' },
+      { name: '__MACOSX/todo_app/._pubspec.yaml', content: 'junk' },
+    ]);
+
+    const summary = await inspectZip(archive);
+    const projectDir = await extractZip(archive, workDir);
+
+    expect(summary.root).toBe('todo_app');
+    expect(projectDir).toBe(path.join(workDir, 'todo_app'));
+    expect(
+      await fs.readFile(path.join(projectDir, 'lib/main.dart'), 'utf8'),
+    ).toBe('void main() {}');
+    expect(await fs.pathExists(path.join(workDir, '__MACOSX'))).toBe(false);
+  });
+
+  it('should extract flat archives into the target directory', async () => {
+    const archive = await buildZip([
+      { name: 'pubspec.yaml', content: 'name: todo' },
+      { name: 'lib/main.dart', content: 'void main() {}' },
+    ]);
+
+    expect(await extractZip(archive, workDir)).toBe(workDir);
+  });
+
+  it('should reject entries that escape the archive', async () => {
+    // yazl refuses `..` paths, so patch a same-length name afterwards
+    const archive = await buildZip([{ name: 'xx/evil.sh', content: 'rm' }]);
+    const slip = Buffer.from(
+      archive.toString('latin1').replace(/xx\/evil\.sh/g, '../evil.sh'),
+      'latin1',
+    );
+
+    await expect(inspectZip(slip)).rejects.toThrow(ZipArchiveError);
+    await expect(extractZip(slip, workDir)).rejects.toThrow(ZipArchiveError);
+    expect(await fs.pathExists(path.join(workDir, '..', 'evil.sh'))).toBe(
+      false,
+    );
+  });
+
+  it('should reject symbolic links', async () => {
+    const archive = await buildZip([
+      { name: 'lib/link', content: '/etc/passwd', mode: 0o120777 },
+    ]);
+
+    await expect(inspectZip(archive)).rejects.toThrow(/Symbolic links/);
+  });
+
+  it('should cap the uncompressed size', async () => {
+    const archive = await buildZip([
+      { name: 'big.txt', content: 'a'.repeat(2048) },
+    ]);
+    const limits = { maxEntries: 10, maxUncompressedBytes: 1024 };
+
+    await expect(inspectZip(archive, limits)).rejects.toThrow(/1024 bytes/);
+    await expect(extractZip(archive, workDir, limits)).rejects.toThrow(
+      /1024 bytes/,
+    );
+  });
+
+  it('should reject data that is not a zip archive', async () => {
+    await expect(inspectZip(Buffer.from('not a zip'))).rejects.toThrow(
+      ZipArchiveError,
+    );
+  });
+});
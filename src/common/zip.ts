@@ -0,0 +1,230 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as yauzl from 'yauzl';
+
+export class ZipArchiveError extends Error {}
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxUncompressedBytes: number;
+}
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 10000,
+  maxUncompressedBytes: 200 * 1024 * 1024,
+};
+
+export interface ZipSummary {
+  files: string[];
+  uncompressedBytes: number;
+  // Folder every file sits in, e.g. `todo_app` for a zipped project folder,
+  // or '' when the files are at the top level
+  root: string;
+}
+
+// Metadata added by archivers that never belongs to the project
+const IGNORED_ENTRY = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+
+/**
+ * Lists and validates a zip archive without extracting it: entry paths must
+ * stay inside the archive, symlinks are refused and the declared sizes must
+ * fit within the limits.
+ */
+export async function inspectZip(
+  archive: Buffer | string,
+  limits: ZipLimits = DEFAULT_ZIP_LIMITS,
+): Promise<ZipSummary> {
+  const files: string[] = [];
+  let uncompressedBytes = 0;
+
+  await readEntries(archive, limits, (zipFile, entry, name) => {
+    files.push(name);
+    uncompressedBytes += entry.uncompressedSize;
+    if (uncompressedBytes > limits.maxUncompressedBytes) {
+      throw new ZipArchiveError(
+        `Archive expands to more than ${limits.maxUncompressedBytes} bytes`,
+      );
+    }
+    return Promise.resolve();
+  });
+
+  if (files.length === 0) {
+    throw new ZipArchiveError('Archive contains no files');
+  }
+  return { files, uncompressedBytes, root: detectRoot(files) };
+}
+
+/**
+ * Extracts a zip archive into `targetDir` under the same rules as
+ * {@link inspectZip}, counting the bytes actually written rather than trusting
+ * the declared sizes. Returns the project directory, which is the single
+ * folder the archive was wrapped in, if any.
+ */
+export async function extractZip(
+  archive: Buffer | string,
+  targetDir: string,
+  limits: ZipLimits = DEFAULT_ZIP_LIMITS,
+): Promise<string> {
+  const root = path.resolve(targetDir);
+  const files: string[] = [];
+  let written = 0;
+
+  await fs.ensureDir(root);
+  await readEntries(archive, limits, async (zipFile, entry, name) => {
+    const target = path.resolve(root, name);
+    if (!target.startsWith(`${root}${path.sep}`)) {
+      throw new ZipArchiveError(`Entry escapes the archive: ${name}`);
+    }
+
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        written += chunk.length;
+        if (written > limits.maxUncompressedBytes) {
+          callback(
+            new ZipArchiveError(
+              `Archive expands to more than ${limits.maxUncompressedBytes} bytes`,
+            ),
+          );
+        } else {
+          callback(null, chunk);
+        }
+      },
+    });
+
+    await fs.ensureDir(path.dirname(target));
+    await pipeline(
+      await openReadStream(zipFile, entry),
+      counter,
+      fs.createWriteStream(target),
+    );
+    files.push(name);
+  });
+
+  if (files.length === 0) {
+    throw new ZipArchiveError('Archive contains no files');
+  }
+  return path.join(root, detectRoot(files));
+}
+
+async function readEntries(
+  archive: Buffer | string,
+  limits: ZipLimits,
+  onFile: (
+    zipFile: yauzl.ZipFile,
+    entry: yauzl.Entry,
+    name: string,
+  ) => Promise<void>,
+): Promise<void> {
+  const zipFile = await openZip(archive);
+  if (zipFile.entryCount > limits.maxEntries) {
+    zipFile.close();
+    throw new ZipArchiveError(
+      `Archive has more than ${limits.maxEntries} entries`,
+    );
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const fail = (error: Error) => {
+      zipFile.close();
+      reject(
+        error instanceof ZipArchiveError
+          ? error
+          : new ZipArchiveError(`Invalid zip archive: ${error.message}`),
+      );
+    };
+
+    zipFile.on('error', fail);
+    zipFile.on('end', () => resolve());
+    zipFile.on('entry', (entry: yauzl.Entry) => {
+      try {
+        const name = entryName(entry);
+        if (!name) {
+          zipFile.readEntry();
+          return;
+        }
+        onFile(zipFile, entry, name).then(() => zipFile.readEntry(), fail);
+      } catch (error) {
+        fail(error as Error);
+      }
+    });
+    zipFile.readEntry();
+  });
+}
+
+/**
+ * Returns the entry's normalized path, or undefined for directories and
+ * archiver metadata.
+ */
+function entryName(entry: yauzl.Entry): string | undefined {
+  const name = entry.fileName;
+  if (name.endsWith('/') || IGNORED_ENTRY.test(name)) {
+    return undefined;
+  }
+
+  // The upper 16 bits of the external attributes hold the Unix file mode
+  const mode = (entry.externalFileAttributes >>> 16) & 0o170000;
+  if (mode === 0o120000) {
+    throw new ZipArchiveError(`Symbolic links are not allowed: ${name}`);
+  }
+
+  const normalized = path.posix.normalize(name);
+  if (
+    name.includes('\\') ||
+    path.posix.isAbsolute(normalized) ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized === '..' ||
+    normalized.startsWith('../')
+  ) {
+    throw new ZipArchiveError(`Entry escapes the archive: ${name}`);
+  }
+  return normalized;
+}
+
+function detectRoot(files: string[]): string {
+  const [first] = files;
+  const folder = first.includes('/') ? first.split('/')[0] : undefined;
+  if (folder && files.every((file) => file.startsWith(`${folder}/`))) {
+    return folder;
+  }
+  return '';
+}
+
+function openZip(archive: Buffer | string): Promise<yauzl.ZipFile> {
+  return new Promise((resolve, reject) => {
+    const callback = (error: Error | null, zipFile?: yauzl.ZipFile) => {
+      if (error || !zipFile) {
+        reject(
+          new ZipArchiveError(
+            `Invalid zip archive: ${error?.message ?? 'unreadable'}`,
+          ),
+        );
+      } else {
+        resolve(zipFile);
+      }
+    };
+    // yauzl itself also rejects absolute and `..` paths with decodeStrings
+    const options = { lazyEntries: true, validateEntrySizes: true };
+    if (typeof archive === 'string') {
+      yauzl.open(archive, options, callback);
+    } else {
+      yauzl.fromBuffer(archive, options, callback);
+    }
+  });
+}
+
+function openReadStream(
+  zipFile: yauzl.ZipFile,
+  entry: yauzl.Entry,
+): Promise<NodeJS.ReadableStream> {
+  return new Promise((resolve, reject) => {
+    zipFile.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error ?? new ZipArchiveError('Unreadable entry'));
+      } else {
+        resolve(stream);
+      }
+    });
+  });
+}
@@ -0,0 +1,113 @@
+import {
+  buildCodeContext,
+  estimateTokens,
+  isGeneratedDartFile,
+  relevanceKeywords,
+  relevanceScore,
+  SUMMARY_TOKENS,
+} from './code-context';
+
+describe('code context', () => {
+  // A file of roughly `tokens` estimated tokens
+  const file = (path: string, tokens: number, text = '') => ({
+    path,
+    content: `${text}\n`.padEnd(tokens * 4, 'x'),
+  });
+
+  it('should estimate four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should detect generated files by name and header', () => {
+    expect(isGeneratedDartFile({ path: 'lib/todo.g.dart', content: '' })).toBe(
+      true,
+    );
+    expect(
+      isGeneratedDartFile({ path: 'lib/todo.freezed.dart', content: '' }),
+    ).toBe(true);
+    expect(
+      isGeneratedDartFile({
+        path: 'lib/firebase_options.dart',
+        content: '// File generated by FlutterFire CLI.\nclass A {}',
+      }),
+    ).toBe(true);
+    expect(
+      isGeneratedDartFile({
+        path: 'lib/main.dart',
+        content: 'void main() {}\n// generated later',
+      }),
+    ).toBe(false);
+  });
+
+  it('should rank files by the assignment keywords', () => {
+    const keywords = relevanceKeywords(['Todo App', 'Mark todos as complete']);
+
+    expect(keywords).toEqual(['todo', 'mark', 'complete']);
+    expect(
+      relevanceScore(
+        { path: 'lib/todo_list.dart', content: 'markComplete()' },
+        keywords,
+      ),
+    ).toBe(5);
+    expect(
+      relevanceScore({ path: 'lib/theme.dart', content: 'Colors' }, keywords),
+    ).toBe(0);
+  });
+
+  it('should send everything but generated files when it fits', () => {
+    const plan = buildCodeContext(
+      [
+        file('lib/theme.dart', 100),
+        file('lib/todo.dart', 100, 'todo'),
+        file('lib/todo.g.dart', 5000),
+      ],
+      1000,
+      ['todo'],
+    );
+
+    expect(plan.included.map((f) => f.path)).toEqual([
+      'lib/todo.dart',
+      'lib/theme.dart',
+    ]);
+    expect(plan.summarized).toEqual([]);
+    expect(plan.skipped).toMatchObject([
+      { path: 'lib/todo.g.dart', reason: 'generated' },
+    ]);
+  });
+
+  it('should summarize the least relevant files of oversize projects', () => {
+    const plan = buildCodeContext(
+      [
+        file('lib/theme.dart', 800),
+        file('lib/todo.dart', 800, 'todo'),
+        file('lib/huge.dart', 5000),
+      ],
+      1200,
+      ['todo'],
+    );
+
+    expect(plan.included.map((f) => f.path)).toEqual(['lib/todo.dart']);
+    expect(plan.summarized.map((f) => f.path)).toEqual(['lib/theme.dart']);
+    expect(plan.skipped).toMatchObject([
+      { path: 'lib/huge.dart', reason: 'tooLarge' },
+    ]);
+  });
+
+  it('should skip files once even their summaries no longer fit', () => {
+    const files = ['a', 'b', 'c'].map((name) =>
+      file(`lib/${name}.dart`, SUMMARY_TOKENS * 2),
+    );
+
+    const plan = buildCodeContext(files, SUMMARY_TOKENS * 2, []);
+
+    expect(plan.included).toEqual([]);
+    expect(plan.summarized.map((f) => f.path)).toEqual([
+      'lib/a.dart',
+      'lib/b.dart',
+    ]);
+    expect(plan.skipped).toMatchObject([
+      { path: 'lib/c.dart', reason: 'budget' },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { checkRequirements, computeDartMetrics } from './dart-metrics';
+
+describe('dart metrics', () => {
+  const main = {
+    path: 'lib/main.dart',
+    content: `import 'package:flutter/material.dart';
+import 'package:flutter_riverpod/flutter_riverpod.dart';
+
+class TodoApp extends StatelessWidget {
+  @override
+  Widget build(BuildContext context) => const TodoList();
+}
+
+class TodoList extends StatefulWidget {
+  @override
+  State<TodoList> createState() => _TodoListState();
+}
+
+class _TodoListState extends State<TodoList> {
+  final todos = <String>[];
+
+  void add(String todo) {
+    if (todo.isNotEmpty) {
+      for (final existing in todos) {
+        if (existing == todo) {
+          return;
+        }
+      }
+      setState(() {
+        todos.add(todo);
+      });
+    }
+  }
+
+  Future<void> load() async {
+    await Future.delayed(Duration.zero);
+  }
+}
+`,
+  };
+
+  it('should count widgets, setState calls and state management', () => {
+    const metrics = computeDartMetrics([main]);
+
+    expect(metrics).toMatchObject({
+      files: 1,
+      widgets: 2,
+      statefulWidgets: 1,
+      setStateCalls: 1,
+      stateManagement: ['riverpod'],
+    });
+    // Blank lines are not counted
+    expect(metrics.linesOfCode).toBe(28);
+  });
+
+  it('should measure function length and nesting', () => {
+    const metrics = computeDartMetrics([main]);
+
+    expect(metrics.functions).toBe(2);
+    expect(metrics.longestFunction).toEqual({
+      name: 'add',
+      file: 'lib/main.dart',
+      line: 17,
+      lines: 12,
+    });
+    // add > if > for > if
+    expect(metrics.maxNestingDepth).toBe(4);
+  });
+
+  it('should locate requirement patterns and ignore comments', () => {
+    const results = checkRequirements(
+      [
+        {
+          path: 'lib/main.dart',
+          content: '// TODO: use a ListView\nvoid main() {}',
+        },
+        { path: 'lib/list.dart', content: 'class A {}\nfinal l = ListView();' },
+      ],
+      [
+        { requirement: 'List', patterns: ['ListView\\('] },
+        { requirement: 'Storage', patterns: ['SharedPreferences', 'ListView'] },
+      ],
+    );
+
+    expect(results).toEqual([
+      {
+        requirement: 'List',
+        passed: true,
+        matches: [{ pattern: 'ListView\\(', file: 'lib/list.dart', line: 2 }],
+      },
+      {
+        requirement: 'Storage',
+        passed: false,
+        matches: [
+          { pattern: 'SharedPreferences' },
+          { pattern: 'ListView', file: 'lib/list.dart', line: 2 },
+        ],
+      },
+    ]);
+  });
+});
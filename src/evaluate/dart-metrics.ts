@@ -0,0 +1,228 @@
+import { Token, tokenizeDart } from '../similarity/fingerprint';
+import { RequirementCheck } from '../assignments/entities/assignment.entity';
+import {
+  CodeMetrics,
+  FunctionMetric,
+  RequirementCheckResult,
+} from './dto/evaluate-response.dto';
+
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+const STATELESS_WIDGETS = new Set([
+  'StatelessWidget',
+  'ConsumerWidget',
+  'HookWidget',
+  'HookConsumerWidget',
+]);
+const STATEFUL_WIDGETS = new Set([
+  'StatefulWidget',
+  'ConsumerStatefulWidget',
+  'StatefulHookWidget',
+  'StatefulHookConsumerWidget',
+]);
+
+// Packages that give away the state management approach
+const STATE_MANAGEMENT_PACKAGES: Record<string, string> = {
+  provider: 'provider',
+  bloc: 'bloc',
+  flutter_bloc: 'bloc',
+  hydrated_bloc: 'bloc',
+  riverpod: 'riverpod',
+  flutter_riverpod: 'riverpod',
+  hooks_riverpod: 'riverpod',
+  get: 'getx',
+  mobx: 'mobx',
+  flutter_mobx: 'mobx',
+  redux: 'redux',
+  flutter_redux: 'redux',
+};
+
+// Keywords whose parenthesized clause opens a block rather than a function
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch']);
+
+/**
+ * Computes size and structure metrics over Dart sources. Functions are found
+ * from their bodies: a block opened after a named parameter list or a getter,
+ * so arrow functions and closures are not counted. Nesting is measured from
+ * the outermost function body.
+ */
+export function computeDartMetrics(files: SourceFile[]): CodeMetrics {
+  const functions: FunctionMetric[] = [];
+  const packages = new Set<string>();
+  const metrics: CodeMetrics = {
+    files: files.length,
+    linesOfCode: 0,
+    widgets: 0,
+    statefulWidgets: 0,
+    setStateCalls: 0,
+    stateManagement: [],
+    functions: 0,
+    averageFunctionLength: 0,
+    maxNestingDepth: 0,
+  };
+
+  for (const file of files) {
+    const tokens = tokenizeDart(file.content);
+    metrics.linesOfCode += new Set(tokens.map((token) => token.line)).size;
+
+    const openParens: number[] = [];
+    const matchingParen = new Map<number, number>();
+    const blocks: Array<{ name?: string; line: number }> = [];
+
+    tokens.forEach((token, i) => {
+      switch (token.value) {
+        case '(':
+          openParens.push(i);
+          break;
+        case ')': {
+          const open = openParens.pop();
+          if (open !== undefined) {
+            matchingParen.set(i, open);
+          }
+          break;
+        }
+        case '{': {
+          blocks.push({
+            name: functionName(tokens, i, matchingParen),
+            line: token.line,
+          });
+          const outermost = blocks.findIndex((block) => block.name);
+          if (outermost !== -1) {
+            metrics.maxNestingDepth = Math.max(
+              metrics.maxNestingDepth,
+              blocks.length - outermost,
+            );
+          }
+          break;
+        }
+        case '}': {
+          const block = blocks.pop();
+          if (block?.name) {
+            functions.push({
+              name: block.name,
+              file: file.path,
+              line: block.line,
+              lines: token.line - block.line + 1,
+            });
+          }
+          break;
+        }
+        case 'class': {
+          const base = tokens[i + 2]?.value === 'extends' && tokens[i + 3];
+          if (base && STATEFUL_WIDGETS.has(base.text)) {
+            metrics.widgets++;
+            metrics.statefulWidgets++;
+          } else if (base && STATELESS_WIDGETS.has(base.text)) {
+            metrics.widgets++;
+          }
+          break;
+        }
+        case 'import': {
+          const uri = tokens[i + 1]?.value === 'S' ? tokens[i + 1].text : '';
+          const match = /^['"]package:(\w+)\//.exec(uri);
+          if (match && match[1] in STATE_MANAGEMENT_PACKAGES) {
+            packages.add(STATE_MANAGEMENT_PACKAGES[match[1]]);
+          }
+          break;
+        }
+        default:
+          if (token.text === 'setState' && tokens[i + 1]?.value === '(') {
+            metrics.setStateCalls++;
+          }
+      }
+    });
+  }
+
+  metrics.stateManagement = [...packages].sort();
+  metrics.functions = functions.length;
+  if (functions.length > 0) {
+    const total = functions.reduce((sum, fn) => sum + fn.lines, 0);
+    metrics.averageFunctionLength =
+      Math.round((total / functions.length) * 10) / 10;
+    metrics.longestFunction = functions.reduce((longest, fn) =>
+      fn.lines > longest.lines ? fn : longest,
+    );
+  }
+  return metrics;
+}
+
+/**
+ * Checks each requirement's patterns against the sources with comments blanked
+ * out, so a requirement cannot be met by mentioning it in a comment. A
+ * requirement passes when every one of its patterns matches in some file.
+ */
+export function checkRequirements(
+  files: SourceFile[],
+  checks: RequirementCheck[],
+): RequirementCheckResult[] {
+  const sources = files.map((file) => ({
+    path: file.path,
+    code: withoutComments(file.content),
+  }));
+
+  return checks.map((check) => {
+    const matches = check.patterns.map((pattern) => {
+      const regex = new RegExp(pattern, 'm');
+      for (const source of sources) {
+        const match = regex.exec(source.code);
+        if (match) {
+          const line = source.code.slice(0, match.index).split('\n').length;
+          return { pattern, file: source.path, line };
+        }
+      }
+      return { pattern };
+    });
+    return {
+      requirement: check.requirement,
+      passed: matches.every((match) => match.file !== undefined),
+      matches,
+    };
+  });
+}
+
+/**
+ * Returns the name of the function whose body the brace at `index` opens, or
+ * undefined when it opens a class, control flow or other block.
+ */
+function functionName(
+  tokens: Token[],
+  index: number,
+  matchingParen: Map<number, number>,
+): string | undefined {
+  let i = index - 1;
+  // Skip the async, async* and sync* body markers
+  if (tokens[i]?.value === '*') {
+    i--;
+  }
+  if (tokens[i]?.value === 'async' || tokens[i]?.value === 'sync') {
+    i--;
+  }
+
+  if (tokens[i]?.value === 'I' && tokens[i - 1]?.value === 'get') {
+    return tokens[i].text;
+  }
+  const open = tokens[i]?.value === ')' ? matchingParen.get(i) : undefined;
+  if (open === undefined) {
+    return undefined;
+  }
+  const before = tokens[open - 1];
+  if (before && CONTROL_KEYWORDS.has(before.value)) {
+    return undefined;
+  }
+  // Closures such as `onPressed: () {...}` are part of their enclosing function
+  return before?.value === 'I' ? before.text : undefined;
+}
+
+// Blanks out comments, keeping line breaks so line numbers still match
+function withoutComments(source: string): string {
+  let code = '';
+  let last = 0;
+  for (const token of tokenizeDart(source)) {
+    code += source.slice(last, token.start).replace(/\S/g, ' ') + token.text;
+    last = token.start + token.text.length;
+  }
+  return code + source.slice(last).replace(/\S/g, ' ');
+}
@@ -1,9 +1,53 @@
-import { IsString, IsUrl, IsNotEmpty } from 'class-validator';
+import {
+  IsBoolean,
+  IsString,
+  IsUrl,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+} from 'class-validator';
 
 export class EvaluateRequestDto {
   @IsString()
   @IsNotEmpty()
   @IsUrl({}, { message: 'repoUrl must be a valid URL' })
   repoUrl: string;
+
+  @IsString()
+  @IsNotEmpty()
+  assignmentId: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  studentId?: string;
+
+  // Branch or tag to check out instead of the default branch
+  @IsOptional()
+  @IsString()
+  @Matches(/^(?!-)[\w./-]+$/, { message: 'ref must be a branch or tag name' })
+  ref?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^[0-9a-fA-F]{7,40}$/, {
+    message: 'commit must be a 7 to 40 character hexadecimal SHA',
+  })
+  commit?: string;
+
+  // Evaluate again even when the commit was already graded
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
 }
 
+export class UploadEvaluationDto {
+  @IsString()
+  @IsNotEmpty()
+  assignmentId: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  studentId?: string;
+}
@@ -1,8 +1,11 @@
+import { CheckSource } from '../../rubrics/entities/rubric.entity';
+
 export class CheckResult {
   name: string;
   passed: boolean;
   message?: string;
   score?: number;
+  criterionId?: string; // Rubric criterion this check was scored against
 }
 
 export class GroqEvaluationSummary {
@@ -11,22 +14,163 @@ export class GroqEvaluationSummary {
   strengths?: string[];
   weaknesses?: string[];
   recommendations?: string;
+  model?: string; // Model that produced the evaluation
+  // Raw scores of each sample when several were taken; `score` is the median
+  sampleScores?: number[];
+  highVariance?: boolean;
+}
+
+export const EVALUATION_STATUSES = ['graded', 'pendingReview'] as const;
+
+// `pendingReview` results need a human: the score is provisional
+export type EvaluationStatus = (typeof EVALUATION_STATUSES)[number];
+
+// `bypassed` when the caller forced a fresh evaluation
+export type CacheStatus = 'hit' | 'miss' | 'bypassed';
+
+export class CacheReport {
+  result: CacheStatus;
+  // When a cached result was originally produced
+  cachedAt?: string;
+  // Whether the pubspec.lock was resolved before, so `pub get` ran offline
+  dependencies?: 'hit' | 'miss';
+}
+
+export class EvaluationDetails {
+  cloneSuccessful: boolean;
+  commitSha?: string; // Commit that was graded
+  commitDate?: string; // Committer date of that commit
+  filesValid: boolean;
+  pubGetSuccessful: boolean;
+  buildSuccessful: boolean;
+  diagnostics?: AnalyzerDiagnostic[];
+  testsPassed: boolean;
+  testResults?: TestReport;
+  // Names and statuses only; hidden test sources and failures stay private
+  hiddenTestResults?: TestReport;
+  groqEvaluation?: GroqEvaluationSummary;
+  metrics?: CodeMetrics;
+  requirementChecks?: RequirementCheckResult[];
+  // How lib/ was fitted into the LLM's context window
+  codeContext?: CodeContextReport;
+  // Every command run against the student's code, in order
+  commands?: CommandLog[];
+  sdk?: SdkReport;
+  // Stages that ran and failed; the rubric's gates cap the total for them
+  failedStages?: CheckSource[];
 }
 
 export class EvaluateResponseDto {
   totalScore: number;
   maxScore: number;
+  status?: EvaluationStatus;
+  reviewReasons?: string[];
   checks: CheckResult[];
   feedback?: string;
   summary?: string; // Main summary for frontend display
-  details?: {
-    cloneSuccessful: boolean;
-    filesValid: boolean;
-    pubGetSuccessful: boolean;
-    buildSuccessful: boolean;
-    testsPassed: boolean;
-    groqEvaluation?: GroqEvaluationSummary;
-  };
+  rubricId?: string;
+  rubricVersion?: number;
+  cache?: CacheReport;
+  details?: EvaluationDetails;
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'error' | 'skipped';
+
+export class TestCaseResult {
+  name: string;
+  file?: string;
+  status: TestCaseStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export class TestReport {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  tests: TestCaseResult[];
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export class AnalyzerDiagnostic {
+  severity: DiagnosticSeverity;
+  code: string;
+  file: string;
+  line: number;
+  column: number;
+  message: string;
 }
 
+// The Flutter SDK used and the pubspec's constraints on it
+export class SdkReport {
+  // Version selected by the assignment; absent for the SDK on the PATH
+  requested?: string;
+  flutterVersion?: string;
+  dartVersion?: string;
+  dartConstraint?: string;
+  flutterConstraint?: string;
+  // Unset when the versions or constraints could not be read
+  satisfied?: boolean;
+}
+
+export class CommandLog {
+  step: string;
+  command: string;
+  exitCode: number | null;
+  durationMs: number;
+  timedOut: boolean;
+  outputTruncated: boolean;
+  log?: string; // Trailing output lines; omitted for hidden tests
+}
+
+export class ContextFile {
+  path: string;
+  tokens: number; // Estimated
+}
+
+export class SkippedContextFile extends ContextFile {
+  reason: 'generated' | 'budget' | 'tooLarge' | 'summaryFailed';
+}
+
+export class CodeContextReport {
+  // `map-reduce` when some files were summarized before grading
+  mode: 'full' | 'map-reduce';
+  budgetTokens: number;
+  included: ContextFile[];
+  summarized: ContextFile[];
+  skipped: SkippedContextFile[];
+}
 
+export class FunctionMetric {
+  name: string; // `<anonymous>` for closures
+  file: string;
+  line: number;
+  lines: number;
+}
+
+export class CodeMetrics {
+  files: number;
+  linesOfCode: number; // Lines with code, not counting blanks and comments
+  widgets: number;
+  statefulWidgets: number;
+  setStateCalls: number;
+  stateManagement: string[]; // e.g. `provider`, `bloc`, `riverpod`
+  functions: number;
+  averageFunctionLength: number;
+  longestFunction?: FunctionMetric;
+  maxNestingDepth: number; // Deepest block nesting inside a function
+}
+
+export class PatternMatch {
+  pattern: string;
+  file?: string; // First file the pattern matched in, if any
+  line?: number;
+}
+
+export class RequirementCheckResult {
+  requirement: string;
+  passed: boolean;
+  matches: PatternMatch[];
+}
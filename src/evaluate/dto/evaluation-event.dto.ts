@@ -0,0 +1,29 @@
+import { CheckSource } from '../../rubrics/entities/rubric.entity';
+import { EvaluationJobStatus } from '../entities/evaluation-job.entity';
+import { CheckResult, EvaluateResponseDto } from './evaluate-response.dto';
+
+export type EvaluationStage =
+  | CheckSource
+  | 'sdk'
+  | 'hiddenTests'
+  | 'libCollection'
+  | 'staticAnalysis';
+
+export type EvaluationProgressEvent =
+  | { type: 'stage-started'; stage: EvaluationStage }
+  | {
+      type: 'stage-finished';
+      stage: EvaluationStage;
+      check?: CheckResult;
+      message?: string;
+    }
+  | { type: 'log'; stage: EvaluationStage; lines: string[] };
+
+export interface EvaluationStatusEvent {
+  type: 'status';
+  status: EvaluationJobStatus;
+  result?: EvaluateResponseDto;
+  error?: string;
+}
+
+export type EvaluationEvent = EvaluationProgressEvent | EvaluationStatusEvent;
@@ -0,0 +1,23 @@
+import { IsArray, IsNotEmpty, IsNumber, IsString, Min } from 'class-validator';
+
+// The JSON object the grading prompt asks the LLM to reply with
+export class LlmEvaluationReply {
+  @IsNumber({ allowNaN: false, allowInfinity: false })
+  @Min(0)
+  score: number;
+
+  @IsString()
+  @IsNotEmpty()
+  summary: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  strengths: string[];
+
+  @IsArray()
+  @IsString({ each: true })
+  weaknesses: string[];
+
+  @IsString()
+  recommendations: string;
+}
@@ -0,0 +1,22 @@
+import { EvaluateResponseDto } from '../dto/evaluate-response.dto';
+
+export class CachedEvaluation {
+  // `<assignmentId>:<repository>:<commitSha>:<rubricId>@<rubricVersion>`
+  id: string;
+  assignmentId: string;
+  // Normalized, so a commit is only served for the repository it was cloned from
+  repository: string;
+  commitSha: string;
+  rubricId: string;
+  rubricVersion: number;
+  // Assignment and hidden suite versions the result was graded against;
+  // changing either makes the entry stale
+  assignmentRevision: string;
+  result: EvaluateResponseDto;
+  createdAt: string;
+}
+
+export class ResolvedLockFile {
+  id: string; // SHA-256 of the pubspec.lock
+  resolvedAt: string;
+}
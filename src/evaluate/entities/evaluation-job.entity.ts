@@ -0,0 +1,29 @@
+import { EvaluateRequestDto } from '../dto/evaluate-request.dto';
+import { EvaluateResponseDto } from '../dto/evaluate-response.dto';
+
+export type EvaluationJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export class UploadedArchive {
+  fileName: string;
+  size: number;
+}
+
+export class EvaluationJob {
+  id: string;
+  status: EvaluationJobStatus;
+  request: EvaluateRequestDto;
+  // Set for uploaded projects; the archive is kept under DATA_DIR until the
+  // job finishes
+  archive?: UploadedArchive;
+  result?: EvaluateResponseDto;
+  submissionId?: string;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { EvaluateController } from './evaluate.controller';
-import { EvaluateService } from './evaluate.service';
+import { EvaluationQueueService } from './evaluation-queue.service';
+import { EvaluationEventsService } from './evaluation-events.service';
+import { RateLimitService } from '../auth/rate-limit.service';
 
 describe('EvaluateController', () => {
   let controller: EvaluateController;
@@ -8,7 +10,11 @@ describe('EvaluateController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [EvaluateController],
-      providers: [EvaluateService],
+      providers: [
+        { provide: EvaluationQueueService, useValue: {} },
+        EvaluationEventsService,
+        { provide: RateLimitService, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<EvaluateController>(EvaluateController);
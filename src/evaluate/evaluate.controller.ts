@@ -1,20 +1,143 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, Logger } from '@nestjs/common';
-import { EvaluateService } from './evaluate.service';
-import { EvaluateRequestDto } from './dto/evaluate-request.dto';
-import { EvaluateResponseDto } from './dto/evaluate-response.dto';
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  MessageEvent,
+  Sse,
+  ForbiddenException,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable, map, of } from 'rxjs';
+import {
+  EvaluationQueueService,
+  MAX_UPLOAD_BYTES,
+} from './evaluation-queue.service';
+import { EvaluationEventsService } from './evaluation-events.service';
+import {
+  EvaluateRequestDto,
+  UploadEvaluationDto,
+} from './dto/evaluate-request.dto';
+import { EvaluationJob } from './entities/evaluation-job.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentPrincipal } from '../auth/decorators/current-principal.decorator';
+import { SubmissionRateLimitGuard } from '../auth/submission-rate-limit.guard';
+import { assertOwnWork, isStaff } from '../auth/access';
+import { Principal } from '../auth/entities/principal.entity';
 
 @Controller('evaluate')
+@Roles('instructor', 'ta', 'student')
 export class EvaluateController {
   private readonly logger = new Logger(EvaluateController.name);
 
-  constructor(private readonly evaluateService: EvaluateService) {}
+  constructor(
+    private readonly evaluationQueueService: EvaluationQueueService,
+    private readonly evaluationEventsService: EvaluationEventsService,
+  ) {}
 
   @Post()
-  @HttpCode(HttpStatus.OK)
-  async evaluate(@Body() evaluateRequest: EvaluateRequestDto): Promise<EvaluateResponseDto> {
-    this.logger.log(`Received evaluation request for: ${evaluateRequest.repoUrl}`);
-    const result = await this.evaluateService.evaluate(evaluateRequest.repoUrl);
-    this.logger.log(`Evaluation completed. Score: ${result.totalScore}/${result.maxScore}`);
-    return result;
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(SubmissionRateLimitGuard)
+  async evaluate(
+    @Body() evaluateRequest: EvaluateRequestDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EvaluationJob> {
+    this.claimSubmission(principal, evaluateRequest);
+    this.logger.log(
+      `Received evaluation request for: ${evaluateRequest.repoUrl} (assignment ${evaluateRequest.assignmentId})`,
+    );
+    return this.evaluationQueueService.enqueue(evaluateRequest);
+  }
+
+  @Post('upload')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseGuards(SubmissionRateLimitGuard)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  async upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() uploadDto: UploadEvaluationDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EvaluationJob> {
+    this.claimSubmission(principal, uploadDto);
+    this.logger.log(
+      `Received upload ${file?.originalname ?? '(none)'} (assignment ${uploadDto.assignmentId})`,
+    );
+    return this.evaluationQueueService.enqueueUpload(uploadDto, file);
+  }
+
+  @Get(':jobId')
+  findJob(
+    @Param('jobId') jobId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EvaluationJob> {
+    return this.findOwnJob(principal, jobId);
+  }
+
+  @Sse(':jobId/events')
+  async events(
+    @Param('jobId') jobId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<Observable<MessageEvent>> {
+    await this.findOwnJob(principal, jobId);
+
+    // Finished jobs have no live stream; report their final status instead
+    let events = this.evaluationEventsService.stream(jobId);
+    if (!events) {
+      const job = await this.evaluationQueueService.findOne(jobId);
+      events = of({
+        type: 'status',
+        status: job.status,
+        result: job.result,
+        error: job.error,
+      });
+    }
+
+    return events.pipe(map((event) => ({ type: event.type, data: event })));
+  }
+
+  @Delete(':jobId')
+  async cancelJob(
+    @Param('jobId') jobId: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EvaluationJob> {
+    await this.findOwnJob(principal, jobId);
+    return this.evaluationQueueService.cancel(jobId);
+  }
+
+  /**
+   * Students submit as themselves: the studentId defaults to theirs and may
+   * not name anyone else. Only staff may bypass the result cache.
+   */
+  private claimSubmission(
+    principal: Principal,
+    request: EvaluateRequestDto | UploadEvaluationDto,
+  ): void {
+    if (isStaff(principal)) {
+      return;
+    }
+    assertOwnWork(principal, request.studentId ?? principal.studentId);
+    if ('force' in request && request.force) {
+      throw new ForbiddenException('Only staff can force a re-evaluation');
+    }
+    request.studentId = principal.studentId;
+  }
+
+  private async findOwnJob(
+    principal: Principal,
+    jobId: string,
+  ): Promise<EvaluationJob> {
+    const job = await this.evaluationQueueService.findOne(jobId);
+    assertOwnWork(principal, job.request.studentId);
+    return job;
   }
 }
@@ -1,9 +1,40 @@
 import { Module } from '@nestjs/common';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { RubricsModule } from '../rubrics/rubrics.module';
+import { StorageModule } from '../storage/storage.module';
+import { SubmissionsModule } from '../submissions/submissions.module';
+import { LlmModule } from '../llm/llm.module';
+import { SimilarityModule } from '../similarity/similarity.module';
+import { RunnerModule } from '../runner/runner.module';
+import { AuthModule } from '../auth/auth.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { MetricsModule } from '../metrics/metrics.module';
 import { EvaluateService } from './evaluate.service';
 import { EvaluateController } from './evaluate.controller';
+import { EvaluationQueueService } from './evaluation-queue.service';
+import { EvaluationEventsService } from './evaluation-events.service';
+import { EvaluationCacheService } from './evaluation-cache.service';
 
 @Module({
+  imports: [
+    AssignmentsModule,
+    RubricsModule,
+    StorageModule,
+    SubmissionsModule,
+    LlmModule,
+    SimilarityModule,
+    RunnerModule,
+    AuthModule,
+    WebhooksModule,
+    MetricsModule,
+  ],
   controllers: [EvaluateController],
-  providers: [EvaluateService],
+  providers: [
+    EvaluateService,
+    EvaluationQueueService,
+    EvaluationEventsService,
+    EvaluationCacheService,
+  ],
+  exports: [EvaluateService, EvaluationQueueService],
 })
 export class EvaluateModule {}
@@ -1,18 +1,424 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
 import { EvaluateService } from './evaluate.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { HiddenTestsService } from '../assignments/hidden-tests.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { ScoringService } from '../rubrics/scoring.service';
+import { LLM_PROVIDER } from '../llm/llm-provider.interface';
+import { MockLlmProvider } from '../llm/providers/mock.provider';
+import { CommandRunnerService } from '../runner/command-runner.service';
+import { FlutterSdkService } from '../runner/flutter-sdk.service';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { DEFAULT_RUBRIC } from '../rubrics/default-rubric';
+
+function buildZip(files: Record<string, string>): Promise<Buffer> {
+  const zip = new yazl.ZipFile();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addBuffer(Buffer.from(content), name);
+  }
+  zip.end();
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    zip.outputStream
+      .on('data', (chunk: Buffer) => chunks.push(chunk))
+      .on('end', () => resolve(Buffer.concat(chunks)))
+      .on('error', reject);
+  });
+}
+
+// `flutter test --machine` output for tests of one suite
+function testEvents(
+  ...tests: Array<[name: string, result: string, error?: string]>
+): string {
+  return [
+    { type: 'suite', suite: { id: 0, path: 'test/widget_test.dart' } },
+    ...tests.flatMap(([name, result, error], index) => [
+      { type: 'testStart', test: { id: index + 1, name, suiteID: 0 } },
+      ...(error ? [{ type: 'error', testID: index + 1, error }] : []),
+      {
+        type: 'testDone',
+        testID: index + 1,
+        result,
+        hidden: false,
+      },
+    ]),
+  ]
+    .map((event) => JSON.stringify(event))
+    .join('\n');
+}
 
 describe('EvaluateService', () => {
   let service: EvaluateService;
+  const assignmentsService = { findOne: jest.fn() };
+  const rubricsService = { resolve: jest.fn() };
+  const evaluationCache = { lookup: jest.fn(), store: jest.fn() };
+  const commandRunner = { run: jest.fn() };
+  const hiddenTestsService = { revision: jest.fn(), install: jest.fn() };
+  const sdk = { flutter: 'flutter', dart: 'dart', env: {} };
+  const flutterSdkService = { resolve: jest.fn(), versions: jest.fn() };
+  const llmProvider = new MockLlmProvider();
+  const assignment = {
+    title: 'Todo',
+    description: 'A todo app',
+    requirements: [],
+    evaluationCriteria: [],
+  };
+  const reply = (score: number) =>
+    JSON.stringify({
+      score,
+      summary: `Scored ${score}`,
+      strengths: [],
+      weaknesses: [],
+      recommendations: '',
+    });
+  const replyWith = (...contents: string[]) => {
+    const complete = jest.spyOn(llmProvider, 'complete');
+    for (const content of contents) {
+      complete.mockResolvedValueOnce({ content, model: 'mock' });
+    }
+    return complete;
+  };
+  const grade = (settings = {}) =>
+    service['evaluateWithLlm']('void main() {}', {
+      assignment: { ...assignment, llm: settings } as never,
+      maxAvailableScore: 10,
+      maxScore: 20,
+      evidence: '',
+    });
+
+  // Grades an uploaded project whose commands all succeed unless `run` says
+  // otherwise; the student's single test passes
+  const evaluateUpload = async (
+    run: (args: string[], cwd: string) => Promise<string | undefined> = () =>
+      Promise.resolve(undefined),
+    pubspec = 'name: todo\n',
+  ) => {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-'));
+    const archivePath = path.join(workDir, 'todo.zip');
+    await fs.writeFile(
+      archivePath,
+      await buildZip({
+        'todo/pubspec.yaml': pubspec,
+        'todo/lib/main.dart': 'void main() {}\n',
+        'todo/test/widget_test.dart': 'void main() {}\n',
+      }),
+    );
+    assignmentsService.findOne.mockResolvedValue({
+      ...assignment,
+      id: 'todo',
+      requiredFiles: ['pubspec.yaml', 'lib/main.dart'],
+    });
+    rubricsService.resolve.mockResolvedValue(DEFAULT_RUBRIC);
+    flutterSdkService.versions.mockResolvedValue({
+      flutter: '3.24.3',
+      dart: '3.5.3',
+    });
+    commandRunner.run.mockImplementation(
+      async (command: string, args: string[], { cwd }: { cwd: string }) => ({
+        command: [command, ...args].join(' '),
+        exitCode: 0,
+        signal: null,
+        durationMs: 10,
+        timedOut: false,
+        outputTruncated: false,
+        stdout:
+          (await run(args, cwd)) ??
+          (args[0] === 'test' ? testEvents(['adds a todo', 'success']) : ''),
+        stderr: '',
+      }),
+    );
+
+    try {
+      return await service.evaluate(
+        { repoUrl: 'todo.zip', assignmentId: 'todo' },
+        { archivePath },
+      );
+    } finally {
+      await fs.remove(workDir);
+    }
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [EvaluateService],
+      providers: [
+        EvaluateService,
+        ScoringService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            GIT_ALLOWED_HOSTS: 'github.com, git.school.edu',
+          }),
+        },
+        { provide: LLM_PROVIDER, useValue: llmProvider },
+        { provide: RubricsService, useValue: rubricsService },
+        { provide: AssignmentsService, useValue: assignmentsService },
+        { provide: HiddenTestsService, useValue: hiddenTestsService },
+        { provide: CommandRunnerService, useValue: commandRunner },
+        { provide: FlutterSdkService, useValue: flutterSdkService },
+        { provide: EvaluationCacheService, useValue: evaluationCache },
+        MetricsService,
+      ],
     }).compile();
 
     service = module.get<EvaluateService>(EvaluateService);
+    flutterSdkService.resolve.mockResolvedValue(sdk);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should reject an unknown assignment before cloning', async () => {
+    assignmentsService.findOne.mockRejectedValue(
+      new NotFoundException('Assignment missing not found'),
+    );
+
+    await expect(
+      service.evaluate({
+        repoUrl: 'https://github.com/user/repo',
+        assignmentId: 'missing',
+      }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+
+  it('should serve a graded commit from the cache without cloning', async () => {
+    const commit = '3f9c2e1d8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e';
+    assignmentsService.findOne.mockResolvedValue({ id: 'todo' });
+    rubricsService.resolve.mockResolvedValue({ id: 'default', version: 1 });
+    evaluationCache.lookup.mockResolvedValue({
+      result: { totalScore: 18, maxScore: 20, checks: [] },
+      createdAt: '2025-01-30T18:00:00.000Z',
+    });
+
+    await expect(
+      service.evaluate({
+        repoUrl: 'https://github.com/user/repo',
+        assignmentId: 'todo',
+        commit,
+      }),
+    ).resolves.toEqual({
+      totalScore: 18,
+      maxScore: 20,
+      checks: [],
+      cache: { result: 'hit', cachedAt: '2025-01-30T18:00:00.000Z' },
+    });
+    expect(evaluationCache.lookup).toHaveBeenCalledWith(
+      { id: 'todo' },
+      { id: 'default', version: 1 },
+      'https://github.com/user/repo',
+      commit,
+    );
+    expect(evaluationCache.store).not.toHaveBeenCalled();
+  });
+
+  it('should only accept repositories on allowed hosts', async () => {
+    assignmentsService.findOne.mockResolvedValue({ id: 'todo' });
+
+    await expect(
+      service.validateRequest({
+        repoUrl: 'https://git.school.edu/amira/todo.git',
+        assignmentId: 'todo',
+      }),
+    ).resolves.toEqual({ id: 'todo' });
+    await expect(
+      service.validateRequest({
+        repoUrl: 'https://gitlab.com/amira/todo',
+        assignmentId: 'todo',
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should explain a pubspec SDK constraint the SDK does not meet', async () => {
+    const repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'sdk-check-'));
+    flutterSdkService.versions.mockResolvedValue({
+      flutter: '3.19.6',
+      dart: '3.3.4',
+    });
+    const checkSdk = (pubspec: string) =>
+      fs
+        .writeFile(path.join(repoPath, 'pubspec.yaml'), pubspec)
+        .then(() => service['checkSdk'](repoPath, sdk));
+
+    try {
+      await expect(
+        checkSdk("name: todo\nenvironment:\n  sdk: '>=3.0.0 <4.0.0'\n"),
+      ).resolves.toMatchObject({ passed: true, mismatch: false });
+      await expect(
+        checkSdk('name: todo\nenvironment:\n  sdk: ^3.5.0\n'),
+      ).resolves.toEqual({
+        passed: false,
+        mismatch: true,
+        message:
+          'pubspec.yaml requires Dart SDK ^3.5.0, but the Flutter 3.19.6 SDK ships Dart 3.3.4',
+        report: {
+          flutterVersion: '3.19.6',
+          dartVersion: '3.3.4',
+          dartConstraint: '^3.5.0',
+          satisfied: false,
+        },
+      });
+      await expect(checkSdk('name: [todo\n')).resolves.toMatchObject({
+        passed: false,
+        mismatch: false,
+      });
+    } finally {
+      await fs.remove(repoPath);
+    }
+  });
+
+  it('should leave the LLM criterion for review when the provider is down', async () => {
+    jest
+      .spyOn(llmProvider, 'complete')
+      .mockRejectedValue(new Error('Request failed with status code 503'));
+
+    const result = await evaluateUpload();
+
+    expect(result).toMatchObject({
+      status: 'pendingReview',
+      reviewReasons: [
+        'LLM evaluation unavailable: Request failed with status code 503',
+      ],
+      // Structure and tests only; the LLM's 10 points are not awarded as 0
+      totalScore: 10,
+      maxScore: 20,
+    });
+    expect(
+      result.checks.find((check) => check.name === 'Flutter Test'),
+    ).toMatchObject({ passed: true, criterionId: 'tests', score: 5 });
+    expect(
+      result.checks.find((check) => check.name === 'LLM Code Evaluation'),
+    ).toMatchObject({ passed: false, criterionId: undefined, score: 0 });
+    expect(result.details?.groqEvaluation).toBeUndefined();
+  });
+
+  it('should grade with the hidden suite and keep its failures private', async () => {
+    replyWith(reply(8));
+    hiddenTestsService.revision.mockResolvedValue('2025-01-30T18:00:00.000Z');
+    hiddenTestsService.install.mockImplementation(
+      (assignmentId: string, targetDir: string) =>
+        fs
+          .outputFile(
+            path.join(targetDir, 'secret_test.dart'),
+            'void main() {}',
+          )
+          .then(() => true),
+    );
+    let repoPath = '';
+    const hiddenTestFile = () =>
+      fs.pathExists(path.join(repoPath, 'hidden_test', 'secret_test.dart'));
+    const installedDuring: Record<string, boolean> = {};
+
+    const result = await evaluateUpload(async (args, cwd) => {
+      if (args[0] !== 'test') {
+        return undefined;
+      }
+      repoPath = cwd;
+      const hidden = args.includes('hidden_test');
+      installedDuring[hidden ? 'hidden' : 'student'] = await hiddenTestFile();
+      if (!hidden) {
+        return undefined;
+      }
+      return testEvents(
+        ['keeps todos', 'success'],
+        ['counts todos', 'failure', 'Expected: <3> from the secret fixture'],
+      );
+    });
+
+    // The suite is copied in only after the student's tests ran
+    expect(installedDuring).toEqual({ student: false, hidden: true });
+    expect(hiddenTestsService.install).toHaveBeenCalledWith(
+      'todo',
+      path.join(repoPath, 'hidden_test'),
+    );
+    expect(await hiddenTestFile()).toBe(false);
+    expect(await fs.pathExists(repoPath)).toBe(false);
+
+    // Only the hidden suite is scored: 1 of 2 tests passed
+    expect(result.checks).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          name: 'Flutter Test',
+          passed: true,
+          criterionId: undefined,
+        }),
+        expect.objectContaining({
+          name: 'Hidden Tests',
+          passed: false,
+          criterionId: 'tests',
+          score: 2.5,
+          message: '1/2 tests passed',
+        }),
+      ]),
+    );
+    expect(result.details?.hiddenTestResults?.tests).toEqual([
+      { name: 'keeps todos', status: 'passed', durationMs: 0 },
+      { name: 'counts todos', status: 'failed', durationMs: 0 },
+    ]);
+    expect(JSON.stringify(result)).not.toContain('secret fixture');
+  });
+
+  it('should hold a project back when the selected SDK cannot satisfy it', async () => {
+    const complete = jest.spyOn(llmProvider, 'complete');
+
+    const result = await evaluateUpload(
+      undefined,
+      'name: todo\nenvironment:\n  sdk: ^3.7.0\n',
+    );
+
+    expect(result).toMatchObject({
+      status: 'pendingReview',
+      reviewReasons: [
+        'pubspec.yaml requires Dart SDK ^3.7.0, but the Flutter 3.24.3 SDK ships Dart 3.5.3',
+      ],
+      details: { pubGetSuccessful: false, sdk: { satisfied: false } },
+    });
+    expect(flutterSdkService.resolve).toHaveBeenCalledTimes(1);
+    expect(commandRunner.run).not.toHaveBeenCalled();
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('should ask for a corrected reply when the schema is broken', async () => {
+    const complete = replyWith('{"score": "eight"}', reply(8));
+
+    await expect(grade()).resolves.toMatchObject({
+      score: 8,
+      summary: 'Scored 8',
+    });
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0].prompt).toContain(
+      'score must be a number',
+    );
+  });
+
+  it('should fail instead of scoring 0 when no valid reply arrives', async () => {
+    replyWith('not json', 'still not json', '{}');
+
+    await expect(grade()).rejects.toThrow(
+      /Reply did not match the expected format/,
+    );
+  });
+
+  it('should take the median of several samples and flag a wide spread', async () => {
+    replyWith(reply(4), reply(9), reply(6));
+
+    await expect(grade({ samples: 3 })).resolves.toMatchObject({
+      score: 6,
+      summary: 'Scored 6',
+      sampleScores: [4, 9, 6],
+      highVariance: true,
+    });
+  });
 });
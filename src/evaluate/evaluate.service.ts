@@ -1,396 +1,1312 @@
-import { Injectable, Logger, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  InternalServerErrorException,
+  HttpException,
+  Inject,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import simpleGit from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
+import axios from 'axios';
+import fg from 'fast-glob';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { promisify } from 'util';
-import { exec } from 'child_process';
-import axios from 'axios';
+import { randomUUID } from 'crypto';
 import { EvaluateRequestDto } from './dto/evaluate-request.dto';
-import { EvaluateResponseDto, CheckResult } from './dto/evaluate-response.dto';
+import {
+  EvaluateResponseDto,
+  CheckResult,
+  EvaluationDetails,
+  GroqEvaluationSummary,
+  TestReport,
+  AnalyzerDiagnostic,
+  CodeMetrics,
+  RequirementCheckResult,
+  CommandLog,
+  CacheReport,
+  CodeContextReport,
+  ContextFile,
+  SkippedContextFile,
+  SdkReport,
+} from './dto/evaluate-response.dto';
+import { parseDartAnalyzerMachineOutput } from './parsers/dart-analyzer.parser';
+import { parseFlutterTestMachineOutput } from './parsers/flutter-test.parser';
+import { parseLlmEvaluationReply } from './parsers/llm-reply.parser';
+import { checkRequirements, computeDartMetrics } from './dart-metrics';
+import { checkSdkConstraints, readSdkConstraints } from './sdk-constraints';
+import { LlmEvaluationReply } from './dto/llm-evaluation-reply.dto';
+import {
+  buildCodeContext,
+  CHARS_PER_TOKEN,
+  CodeFile,
+  estimateTokens,
+  RankedFile,
+  relevanceKeywords,
+  SUMMARY_TOKENS,
+} from './code-context';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { extractZip, ZipArchiveError } from '../common/zip';
+import {
+  CommandRun,
+  CommandRunnerService,
+  describeFailure,
+} from '../runner/command-runner.service';
+import { FlutterSdk, FlutterSdkService } from '../runner/flutter-sdk.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { HiddenTestsService } from '../assignments/hidden-tests.service';
+import {
+  Assignment,
+  LlmSettings,
+} from '../assignments/entities/assignment.entity';
+import { RubricsService } from '../rubrics/rubrics.service';
+import {
+  ScoringService,
+  CheckOutcome,
+  CheckOutcomes,
+} from '../rubrics/scoring.service';
+import { CheckSource, Rubric } from '../rubrics/entities/rubric.entity';
+import { LLM_PROVIDER } from '../llm/llm-provider.interface';
+import type { LlmProvider } from '../llm/llm-provider.interface';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  EvaluationProgressEvent,
+  EvaluationStage,
+} from './dto/evaluation-event.dto';
+
+// Where repositories are cloned and archives unpacked while they are graded
+export const TEMP_REPOS_DIR = path.join(process.cwd(), 'temp-repos');
 
-const execAsync = promisify(exec);
+const DEFAULT_LLM_TEMPERATURE = 0.3;
+const DEFAULT_LLM_MAX_TOKENS = 800;
+const DEFAULT_LLM_CONTEXT_TOKENS = 32000;
+const DEFAULT_MAX_SCORE_SPREAD = 0.2;
+// Corrected replies requested when the LLM's reply breaks the schema
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Number of trailing output lines forwarded as a log excerpt
+const LOG_EXCERPT_LINES = 20;
+// Upper bound on the log excerpt kept for each command in the details
+const COMMAND_LOG_CHARS = 4000;
+// Where an instructor's hidden suite is installed inside the cloned repo,
+// outside `test/` so the student's own tests run on their own
+export const HIDDEN_TEST_DIR = 'hidden_test';
+const DEFAULT_GIT_ALLOWED_HOSTS = ['github.com', 'gitlab.com', 'bitbucket.org'];
+
+export interface EvaluateOptions {
+  // Aborting stops the pipeline between stages and kills the running command
+  signal?: AbortSignal;
+  onProgress?: (event: EvaluationProgressEvent) => void;
+  // Receives the collected lib/ sources, e.g. for similarity detection
+  onSources?: (files: Array<{ path: string; content: string }>) => void;
+  // Grade an uploaded zip archive instead of cloning `repoUrl`
+  archivePath?: string;
+}
+
+interface CommandResult {
+  success: boolean;
+  message?: string;
+  output?: string;
+  run: CommandRun;
+}
+
+interface PubGetResult extends CommandResult {
+  dependencies: 'hit' | 'miss';
+}
+
+interface AnalysisResult extends CommandResult {
+  diagnostics: AnalyzerDiagnostic[];
+}
+
+interface CheckoutOptions {
+  ref?: string;
+  commit?: string;
+  // Only commits made before this date may be graded
+  deadline?: string;
+}
+
+interface WorkspaceResult {
+  // Directory to remove afterwards; the project may sit in a subfolder of it
+  workspace?: string;
+  repoPath?: string;
+  error?: string;
+}
+
+interface RecordOptions {
+  // Stage reported in the progress event, when it differs from the source
+  stage?: EvaluationStage;
+  // Unscored checks are reported without a rubric criterion
+  scored?: boolean;
+}
+
+interface SdkCheckResult {
+  passed: boolean;
+  // The pubspec's constraints rule the SDK out, so `pub get` cannot succeed
+  mismatch: boolean;
+  message: string;
+  report: SdkReport;
+}
+
+interface TestRunResult extends CommandResult {
+  report: TestReport;
+}
+
+interface GradingContext {
+  assignment: Assignment;
+  // Points of the LLM criterion, out of the rubric's maxScore
+  maxAvailableScore: number;
+  maxScore: number;
+  // Static analysis results handed to the LLM
+  evidence: string;
+}
+
+interface GradingReply {
+  reply: LlmEvaluationReply;
+  model: string;
+}
+
+interface PackedCode {
+  codeContent: string;
+  report: CodeContextReport;
+}
 
 @Injectable()
 export class EvaluateService {
   private readonly logger = new Logger(EvaluateService.name);
-  private readonly tempDir = path.join(process.cwd(), 'temp-repos');
-  private readonly groqApiUrl = 'https://api.groq.com/openai/v1/chat/completions';
-  private readonly assignmentDescription = `Create a Todo app with:
-- Add todo
-- Delete todo
-- Mark todo as complete`;
-
-  constructor(private readonly configService: ConfigService) {
+  private readonly tempDir = TEMP_REPOS_DIR;
+  private readonly allowedHosts: string[];
+  private readonly contextTokens: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly assignmentsService: AssignmentsService,
+    private readonly hiddenTestsService: HiddenTestsService,
+    private readonly rubricsService: RubricsService,
+    private readonly scoringService: ScoringService,
+    private readonly commandRunner: CommandRunnerService,
+    private readonly flutterSdkService: FlutterSdkService,
+    private readonly evaluationCache: EvaluationCacheService,
+    private readonly metricsService: MetricsService,
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LlmProvider,
+  ) {
     // Ensure temp directory exists
     fs.ensureDirSync(this.tempDir);
+
+    const hosts = this.configService.get<string>('GIT_ALLOWED_HOSTS');
+    this.allowedHosts = hosts
+      ? hosts
+          .split(',')
+          .map((host) => host.trim().toLowerCase())
+          .filter(Boolean)
+      : DEFAULT_GIT_ALLOWED_HOSTS;
+    this.contextTokens =
+      Number(this.configService.get<string>('LLM_CONTEXT_TOKENS')) ||
+      DEFAULT_LLM_CONTEXT_TOKENS;
+  }
+
+  /**
+   * Rejects requests that can never succeed, so callers can fail fast before
+   * queueing an evaluation.
+   */
+  async validateRequest(
+    request: EvaluateRequestDto,
+    fromArchive = false,
+  ): Promise<Assignment> {
+    return (await this.prepare(request, fromArchive)).assignment;
+  }
+
+  /**
+   * Grades a submission, serving the cached result when the same commit was
+   * already graded against the same assignment and rubric version, unless
+   * `request.force` is set.
+   */
+  async evaluate(
+    request: EvaluateRequestDto,
+    options: EvaluateOptions = {},
+  ): Promise<EvaluateResponseDto> {
+    // The SDK is resolved once, so the checks and the pipeline agree on it
+    const { assignment, sdk } = await this.prepare(
+      request,
+      !!options.archivePath,
+    );
+    const rubric = await this.rubricsService.resolve(assignment.rubricId);
+    const cache: CacheReport = { result: request.force ? 'bypassed' : 'miss' };
+
+    const result = await this.runPipeline(
+      request,
+      assignment,
+      rubric,
+      sdk,
+      cache,
+      options,
+    );
+    if (result.cache?.result === 'hit') {
+      return result;
+    }
+
+    result.cache = cache;
+    // A broken cache must never fail an otherwise completed evaluation
+    try {
+      await this.evaluationCache.store(
+        assignment,
+        rubric,
+        request.repoUrl,
+        result,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cache the evaluation: ${(error as Error).message}`,
+      );
+    }
+    return result;
+  }
+
+  private async prepare(
+    request: EvaluateRequestDto,
+    fromArchive: boolean,
+  ): Promise<{ assignment: Assignment; sdk: FlutterSdk }> {
+    if (!fromArchive && !this.isAllowedRepoUrl(request.repoUrl)) {
+      throw new BadRequestException(
+        `Repository host is not allowed; use one of: ${this.allowedHosts.join(', ')}`,
+      );
+    }
+    const assignment = await this.assignmentsService.findOne(
+      request.assignmentId,
+    );
+    const sdk = await this.flutterSdkService.resolve(assignment.flutterVersion);
+    return { assignment, sdk };
   }
 
-  async evaluate(repoUrl: string): Promise<EvaluateResponseDto> {
+  private async runPipeline(
+    request: EvaluateRequestDto,
+    assignment: Assignment,
+    rubric: Rubric,
+    sdk: FlutterSdk,
+    cache: CacheReport,
+    options: EvaluateOptions,
+  ): Promise<EvaluateResponseDto> {
+    const { repoUrl } = request;
+    const { signal, archivePath } = options;
+    const progress = options.onProgress ?? (() => undefined);
     const checks: CheckResult[] = [];
-    let totalScore = 0;
-    const maxScore = 20;
-    let repoPath: string | null = null;
+    const outcomes: CheckOutcomes = {};
+    const details: EvaluationDetails = {
+      cloneSuccessful: false,
+      filesValid: false,
+      pubGetSuccessful: false,
+      buildSuccessful: false,
+      testsPassed: false,
+      commands: [],
+    };
+    let workspace: string | null = null;
 
     try {
-      // Validate repo URL
-      if (!this.isValidGitHubUrl(repoUrl)) {
-        throw new BadRequestException('Invalid GitHub repository URL');
+      const record = (
+        source: CheckSource,
+        check: Omit<CheckResult, 'criterionId' | 'score'>,
+        { stage = source, scored = true }: RecordOptions = {},
+      ) => {
+        const result = this.createCheck(rubric, source, check);
+        if (!scored) {
+          result.criterionId = undefined;
+        }
+        checks.push(result);
+        progress({ type: 'stage-finished', stage, check: result });
+      };
+      const log = (stage: EvaluationStage, output?: string) => {
+        const lines = this.excerpt(output);
+        if (lines.length > 0) {
+          progress({ type: 'log', stage, lines });
+        }
+      };
+      const track = (
+        step: EvaluationStage,
+        run: CommandRun,
+        withLog = true,
+      ) => {
+        details.commands?.push(this.commandLog(step, run, withLog));
+      };
+
+      const checkout: CheckoutOptions = {
+        ref: request.ref,
+        commit: request.commit,
+        deadline: assignment.gradeAtDeadline ? assignment.deadline : undefined,
+      };
+      const useCache = !archivePath && !request.force;
+      // Look the commit up without cloning when the remote can tell which it is
+      const remoteSha = useCache
+        ? await this.resolveRemoteCommit(repoUrl, checkout, signal)
+        : undefined;
+      const remoteHit =
+        remoteSha &&
+        (await this.cachedResult(assignment, rubric, repoUrl, remoteSha));
+      if (remoteHit) {
+        return remoteHit;
       }
 
-      // Step 1: Clone repository
-      this.logger.log(`Cloning repository: ${repoUrl}`);
-      repoPath = await this.cloneRepository(repoUrl);
-      
+      // Step 1: Clone repository, or unpack the uploaded archive
+      this.logger.log(
+        archivePath
+          ? `Extracting uploaded archive: ${repoUrl}`
+          : `Cloning repository: ${repoUrl}`,
+      );
+      progress({ type: 'stage-started', stage: 'clone' });
+      const source = archivePath
+        ? await this.extractArchive(archivePath)
+        : await this.cloneRepository(repoUrl, checkout, signal);
+      workspace = source.workspace ?? null;
+      signal?.throwIfAborted();
+      const repoPath = source.repoPath;
+      const sourceCheck = archivePath ? 'Extract Archive' : 'Clone Repository';
+      outcomes.clone = { passed: !!repoPath };
+
       if (!repoPath) {
-        checks.push({
-          name: 'Clone Repository',
+        record('clone', {
+          name: sourceCheck,
           passed: false,
-          message: 'Failed to clone repository',
-          score: 0,
+          message: source.error,
         });
-        return this.buildResponse(0, maxScore, checks, {
-          cloneSuccessful: false,
-          filesValid: false,
-          pubGetSuccessful: false,
-          buildSuccessful: false,
-          testsPassed: false,
-        }, 'Repository cloning failed. Score: 0/20');
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          archivePath
+            ? 'Archive extraction failed'
+            : 'Repository cloning failed',
+        );
       }
 
-      checks.push({
-        name: 'Clone Repository',
+      details.cloneSuccessful = true;
+      if (!archivePath) {
+        Object.assign(details, await this.resolveCommit(repoPath));
+      }
+      const clonedHit =
+        useCache &&
+        details.commitSha &&
+        details.commitSha !== remoteSha &&
+        (await this.cachedResult(
+          assignment,
+          rubric,
+          repoUrl,
+          details.commitSha,
+        ));
+      if (clonedHit) {
+        return clonedHit;
+      }
+      record('clone', {
+        name: sourceCheck,
         passed: true,
-        message: 'Repository cloned successfully',
-        score: 0,
+        message: archivePath
+          ? 'Archive extracted successfully'
+          : details.commitSha
+            ? `Repository cloned successfully at ${details.commitSha.slice(0, 7)}`
+            : 'Repository cloned successfully',
       });
 
       // Step 2: Check required files
       this.logger.log('Checking required files');
-      const filesValid = await this.checkRequiredFiles(repoPath);
-      
+      progress({ type: 'stage-started', stage: 'requiredFiles' });
+      const filesValid = await this.checkRequiredFiles(
+        repoPath,
+        assignment.requiredFiles,
+      );
+      outcomes.requiredFiles = { passed: filesValid.valid };
+
       if (!filesValid.valid) {
-        checks.push({
+        record('requiredFiles', {
           name: 'Required Files Check',
           passed: false,
           message: filesValid.message,
-          score: 0,
         });
-        return this.buildResponse(0, maxScore, checks, {
-          cloneSuccessful: true,
-          filesValid: false,
-          pubGetSuccessful: false,
-          buildSuccessful: false,
-          testsPassed: false,
-        }, filesValid.message || 'Required files missing. Score: 0/20');
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          filesValid.message || 'Required files missing',
+        );
       }
 
-      checks.push({
+      details.filesValid = true;
+      record('requiredFiles', {
         name: 'Required Files Check',
         passed: true,
-        message: 'pubspec.yaml and lib/main.dart exist',
-        score: 0,
+        message: `${assignment.requiredFiles.join(' and ')} exist`,
       });
 
+      // Step 2b: Check the pubspec's SDK constraints. A mismatch would fail
+      // `pub get`, though the SDK is the assignment's choice
+      progress({ type: 'stage-started', stage: 'sdk' });
+      const sdkCheck = await this.checkSdk(repoPath, sdk, signal);
+      signal?.throwIfAborted();
+      details.sdk = sdkCheck.report;
+      record(
+        'pubGet',
+        {
+          name: 'SDK Constraint',
+          passed: sdkCheck.passed,
+          message: sdkCheck.message,
+        },
+        { stage: 'sdk', scored: false },
+      );
+
+      if (sdkCheck.mismatch) {
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'SDK constraint not satisfied',
+          undefined,
+          [sdkCheck.message],
+        );
+      }
+
       // Step 3: Run flutter pub get
       this.logger.log('Running flutter pub get');
-      const pubGetResult = await this.runFlutterPubGet(repoPath);
-      
+      progress({ type: 'stage-started', stage: 'pubGet' });
+      const pubGetResult = await this.runFlutterPubGet(repoPath, sdk, signal);
+      signal?.throwIfAborted();
+      cache.dependencies = pubGetResult.dependencies;
+      track('pubGet', pubGetResult.run);
+      log('pubGet', pubGetResult.output);
+      outcomes.pubGet = { passed: pubGetResult.success };
+
       if (!pubGetResult.success) {
-        checks.push({
+        record('pubGet', {
           name: 'Flutter Pub Get',
           passed: false,
           message: pubGetResult.message,
-          score: 0,
         });
-        return this.buildResponse(5, maxScore, checks, {
-          cloneSuccessful: true,
-          filesValid: true,
-          pubGetSuccessful: false,
-          buildSuccessful: false,
-          testsPassed: false,
-        }, 'Dependencies installation failed. Maximum score: 5/20');
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'Dependencies installation failed',
+        );
       }
 
-      checks.push({
+      details.pubGetSuccessful = true;
+      record('pubGet', {
         name: 'Flutter Pub Get',
         passed: true,
         message: 'Dependencies installed successfully',
-        score: 0,
       });
 
-      // Step 4: Check if app compiles (flutter analyze)
+      // Step 4: Check if app compiles (dart analyze)
       this.logger.log('Checking if app compiles');
-      const buildResult = await this.checkBuild(repoPath);
-      
+      progress({ type: 'stage-started', stage: 'build' });
+      const buildResult = await this.analyzeCode(repoPath, sdk, signal);
+      signal?.throwIfAborted();
+      track('build', buildResult.run);
+      log('build', buildResult.output);
+      outcomes.build = { passed: buildResult.success };
+      details.diagnostics = buildResult.diagnostics;
+
       if (!buildResult.success) {
-        checks.push({
+        record('build', {
           name: 'Build Check',
           passed: false,
           message: buildResult.message,
-          score: 0,
         });
-        return this.buildResponse(5, maxScore, checks, {
-          cloneSuccessful: true,
-          filesValid: true,
-          pubGetSuccessful: true,
-          buildSuccessful: false,
-          testsPassed: false,
-        }, 'App does not compile. Maximum score: 5/20');
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'App does not compile',
+        );
       }
 
-      checks.push({
+      details.buildSuccessful = true;
+      record('build', {
         name: 'Build Check',
         passed: true,
         message: 'App compiles successfully',
-        score: 0,
+      });
+
+      // Step 4b: Score the remaining warnings and infos as code hygiene
+      progress({ type: 'stage-started', stage: 'hygiene' });
+      const counts = {
+        warnings: this.countSeverity(buildResult.diagnostics, 'warning'),
+        infos: this.countSeverity(buildResult.diagnostics, 'info'),
+      };
+      outcomes.hygiene = this.scoringService.hygieneOutcome(rubric, counts);
+      record('hygiene', {
+        name: 'Code Hygiene',
+        passed: outcomes.hygiene.passed,
+        message: `${counts.warnings} warning(s), ${counts.infos} info(s) reported by the analyzer`,
       });
 
       // Step 5: Run flutter test
       this.logger.log('Running flutter test');
-      const testResult = await this.runFlutterTest(repoPath);
-      let testScore = 0;
-      
-      if (testResult.success) {
-        testScore = 5;
-        totalScore += testScore;
-        checks.push({
-          name: 'Flutter Test',
-          passed: true,
-          message: testResult.message || 'Tests passed',
-          score: testScore,
-        });
-      } else {
-        checks.push({
+      progress({ type: 'stage-started', stage: 'tests' });
+      // Decides whether the student's tests count; the suite itself is only
+      // installed once they have finished, so student code cannot read it
+      const hasHiddenTests =
+        (await this.hiddenTestsService.revision(assignment.id)) !== undefined;
+      const testResult = await this.runFlutterTest(repoPath, sdk, signal);
+      signal?.throwIfAborted();
+      track('tests', testResult.run);
+      log('tests', testResult.output);
+      details.testsPassed = testResult.success;
+      details.testResults = testResult.report;
+      if (!hasHiddenTests) {
+        outcomes.tests = this.testOutcome(testResult);
+      }
+
+      // The student's own tests only count when there is no hidden suite
+      record(
+        'tests',
+        {
           name: 'Flutter Test',
-          passed: false,
-          message: testResult.message || 'Tests failed or no tests found',
-          score: 0,
-        });
+          passed: testResult.success,
+          message: testResult.message,
+        },
+        { scored: !hasHiddenTests },
+      );
+
+      // Step 5b: Run the instructor's hidden suite. Its output is never
+      // logged, and only test names and statuses are reported
+      if (hasHiddenTests) {
+        this.logger.log('Running hidden tests');
+        progress({ type: 'stage-started', stage: 'hiddenTests' });
+        await this.hiddenTestsService.install(
+          assignment.id,
+          path.join(repoPath, HIDDEN_TEST_DIR),
+        );
+        const hiddenResult = await this.runFlutterTest(
+          repoPath,
+          sdk,
+          signal,
+          HIDDEN_TEST_DIR,
+        );
+        signal?.throwIfAborted();
+        track('hiddenTests', hiddenResult.run, false);
+        outcomes.tests = this.testOutcome(hiddenResult);
+        details.hiddenTestResults = {
+          ...hiddenResult.report,
+          tests: hiddenResult.report.tests.map(
+            ({ name, status, durationMs }) => ({ name, status, durationMs }),
+          ),
+        };
+
+        record(
+          'tests',
+          {
+            name: 'Hidden Tests',
+            passed: hiddenResult.success,
+            message: hiddenResult.message,
+          },
+          { stage: 'hiddenTests' },
+        );
       }
 
       // Step 6: Get lib/ files and send to Groq
-      this.logger.log('Collecting lib/ files for Groq evaluation');
+      this.logger.log('Collecting lib/ files');
+      progress({ type: 'stage-started', stage: 'libCollection' });
       const libFiles = await this.collectLibFiles(repoPath);
-      
+      options.onSources?.(libFiles);
+      progress({
+        type: 'stage-finished',
+        stage: 'libCollection',
+        message: `Collected ${libFiles.length} Dart file(s) from lib/`,
+      });
+
+      // Step 6b: Measure the code and look for the required patterns
+      progress({ type: 'stage-started', stage: 'staticAnalysis' });
+      const sources = libFiles.map((file) => ({
+        path: `lib/${file.path}`,
+        content: file.content,
+      }));
+      details.metrics = computeDartMetrics(sources);
+      record(
+        'requirements',
+        {
+          name: 'Code Metrics',
+          passed: true,
+          message: this.describeMetrics(details.metrics),
+        },
+        { stage: 'staticAnalysis', scored: false },
+      );
+
+      const requirementChecks = assignment.requirementChecks ?? [];
+      if (requirementChecks.length > 0) {
+        details.requirementChecks = checkRequirements(
+          sources,
+          requirementChecks,
+        );
+        for (const result of details.requirementChecks) {
+          record(
+            'requirements',
+            {
+              name: `Requirement: ${result.requirement}`,
+              passed: result.passed,
+              message: this.describeMatches(result),
+            },
+            { stage: 'staticAnalysis', scored: false },
+          );
+        }
+
+        const met = details.requirementChecks.filter((r) => r.passed).length;
+        outcomes.requirements = {
+          passed: met === requirementChecks.length,
+          ratio: met / requirementChecks.length,
+        };
+        record(
+          'requirements',
+          {
+            name: 'Requirement Checks',
+            passed: outcomes.requirements.passed,
+            message: `${met}/${requirementChecks.length} requirement(s) detected in the code`,
+          },
+          { stage: 'staticAnalysis' },
+        );
+      }
+
+      const llmCriterion = this.scoringService.criterionFor(rubric, 'llm');
+      if (!llmCriterion || llmCriterion.weight === 0) {
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'Evaluation completed',
+        );
+      }
+
       if (libFiles.length === 0) {
         this.logger.warn('No files found in lib/ directory');
-        return this.buildResponse(totalScore, maxScore, checks, {
-          cloneSuccessful: true,
-          filesValid: true,
-          pubGetSuccessful: true,
-          buildSuccessful: true,
-          testsPassed: testResult.success,
-        }, `Evaluation completed. Score: ${totalScore}/20`);
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'Evaluation completed',
+        );
       }
 
-      // Step 7: Send to Groq for evaluation
-      this.logger.log('Sending code to Groq for evaluation');
-      const remainingScore = maxScore - totalScore;
-      const groqResult = await this.evaluateWithGroq(libFiles, remainingScore);
-      
-      const groqScore = Math.min(groqResult.score, remainingScore);
-      totalScore += groqScore;
+      // Step 7: Send to the LLM for evaluation
+      this.logger.log(
+        `Sending code to ${this.llmProvider.name} for evaluation`,
+      );
+      progress({ type: 'stage-started', stage: 'llm' });
+      this.assertLlmConfigured();
+      const grading: GradingContext = {
+        assignment,
+        maxAvailableScore: llmCriterion.weight,
+        maxScore: this.scoringService.maxScore(rubric),
+        evidence: this.staticEvidence(details),
+      };
+      const packed = await this.packCode(libFiles, grading, signal);
+      signal?.throwIfAborted();
+      details.codeContext = packed.report;
+      let llmResult: GroqEvaluationSummary;
+      try {
+        llmResult = await this.evaluateWithLlm(
+          packed.codeContent,
+          grading,
+          signal,
+        );
+      } catch (error) {
+        signal?.throwIfAborted();
+        // Not the student's fault: leave the criterion to a human
+        const reason = `LLM evaluation unavailable: ${(error as Error).message}`;
+        record(
+          'llm',
+          { name: 'LLM Code Evaluation', passed: false, message: reason },
+          { scored: false },
+        );
+        return this.finish(
+          rubric,
+          checks,
+          outcomes,
+          details,
+          'Code quality evaluation is pending review',
+          undefined,
+          [reason],
+        );
+      }
+      signal?.throwIfAborted();
+      outcomes.llm = {
+        passed: true,
+        ratio: llmResult.score / llmCriterion.weight,
+      };
 
-      checks.push({
-        name: 'Groq Code Evaluation',
+      record('llm', {
+        name: 'LLM Code Evaluation',
         passed: true,
-        message: 'Code evaluated by Groq',
-        score: groqScore,
+        message:
+          packed.report.mode === 'map-reduce'
+            ? `Code evaluated by ${this.llmProvider.name} (${packed.report.summarized.length} file(s) summarized)`
+            : `Code evaluated by ${this.llmProvider.name}`,
       });
+      details.groqEvaluation = llmResult;
 
-      return this.buildResponse(
-        totalScore,
-        maxScore,
+      const scores = llmResult.sampleScores ?? [];
+      return this.finish(
+        rubric,
         checks,
-        {
-          cloneSuccessful: true,
-          filesValid: true,
-          pubGetSuccessful: true,
-          buildSuccessful: true,
-          testsPassed: testResult.success,
-          groqEvaluation: {
-            score: groqScore,
-            summary: groqResult.summary,
-            strengths: groqResult.strengths,
-            weaknesses: groqResult.weaknesses,
-            recommendations: groqResult.recommendations,
-          },
-        },
-        groqResult.summary,
-        groqResult.summary,
+        outcomes,
+        details,
+        llmResult.summary,
+        llmResult.summary,
+        llmResult.highVariance
+          ? [
+              `LLM scores varied from ${Math.min(...scores)} to ${Math.max(...scores)} across ${scores.length} samples`,
+            ]
+          : [],
       );
     } catch (error) {
       this.logger.error(`Evaluation error: ${error.message}`, error.stack);
-      
+
       // Re-throw known exceptions as-is
-      if (error instanceof BadRequestException || error instanceof InternalServerErrorException) {
+      if (error instanceof HttpException) {
         throw error;
       }
-      
+
       // Wrap unknown errors
       throw new InternalServerErrorException(
         `Evaluation failed: ${error.message || 'Unknown error'}`,
       );
     } finally {
       // Cleanup: Remove cloned repository
-      if (repoPath) {
+      if (workspace) {
         try {
-          await fs.remove(repoPath);
-          this.logger.log(`Cleaned up repository: ${repoPath}`);
+          await fs.remove(workspace);
+          this.logger.log(`Cleaned up repository: ${workspace}`);
         } catch (error) {
+          this.metricsService.recordCleanupFailure();
           this.logger.warn(`Failed to cleanup repository: ${error.message}`);
         }
       }
     }
   }
 
-  private isValidGitHubUrl(url: string): boolean {
+  private isAllowedRepoUrl(url: string): boolean {
     try {
-      const urlObj = new URL(url);
-      return urlObj.hostname === 'github.com' || urlObj.hostname === 'www.github.com';
+      const { protocol, hostname } = new URL(url);
+      const host = hostname.toLowerCase().replace(/^www\./, '');
+      return (
+        (protocol === 'https:' || protocol === 'http:') &&
+        this.allowedHosts.includes(host)
+      );
     } catch {
       return false;
     }
   }
 
-  private async cloneRepository(repoUrl: string): Promise<string | null> {
-    try {
-      const repoName = this.extractRepoName(repoUrl);
-      const repoPath = path.join(this.tempDir, `${repoName}-${Date.now()}`);
+  private async cloneRepository(
+    repoUrl: string,
+    checkout: CheckoutOptions,
+    signal?: AbortSignal,
+  ): Promise<WorkspaceResult> {
+    const repoName = this.extractRepoName(repoUrl);
+    const repoPath = path.join(this.tempDir, `${repoName}-${Date.now()}`);
 
+    // Pinning a commit or a deadline needs history; otherwise the tip is enough
+    const needsHistory = !!checkout.commit || !!checkout.deadline;
+    const args = needsHistory ? [] : ['--depth', '1'];
+    if (checkout.ref) {
+      args.push('--branch', checkout.ref);
+    }
+
+    try {
       // Remove directory if it exists
       if (await fs.pathExists(repoPath)) {
         await fs.remove(repoPath);
       }
 
-      const git = simpleGit();
-      await git.clone(repoUrl, repoPath, ['--depth', '1']);
-
-      return repoPath;
+      await simpleGit({ abort: signal }).clone(repoUrl, repoPath, args);
     } catch (error) {
-      this.logger.error(`Clone failed: ${error.message}`);
-      return null;
+      this.logger.error(`Clone failed: ${(error as Error).message}`);
+      await fs.remove(repoPath);
+      return {
+        error: checkout.ref
+          ? `Failed to clone repository at ${checkout.ref}`
+          : 'Failed to clone repository',
+      };
     }
-  }
 
-  private extractRepoName(url: string): string {
     try {
-      const match = url.match(/github\.com[/:]([^/]+)\/([^/]+)(?:\.git)?$/);
-      if (match) {
-        return `${match[1]}-${match[2]}`;
+      const git = simpleGit({ baseDir: repoPath, abort: signal });
+      const target = await this.resolveCheckoutTarget(git, checkout);
+      if (target) {
+        await git.checkout(['--detach', target]);
       }
-      return 'repo';
-    } catch {
-      return 'repo';
+      return { workspace: repoPath, repoPath };
+    } catch (error) {
+      this.logger.warn(`Checkout failed: ${(error as Error).message}`);
+      await fs.remove(repoPath);
+      return { error: (error as Error).message };
     }
   }
 
-  private async checkRequiredFiles(repoPath: string): Promise<{ valid: boolean; message?: string }> {
-    const pubspecPath = path.join(repoPath, 'pubspec.yaml');
-    const mainDartPath = path.join(repoPath, 'lib', 'main.dart');
+  /**
+   * Asks the remote which commit the checkout would grade, without cloning.
+   * Undefined when that takes the history (a deadline or an abbreviated
+   * commit) or the remote cannot be reached.
+   */
+  private async resolveRemoteCommit(
+    repoUrl: string,
+    { ref, commit, deadline }: CheckoutOptions,
+    signal?: AbortSignal,
+  ): Promise<string | undefined> {
+    if (deadline) {
+      return undefined;
+    }
+    if (commit) {
+      return /^[0-9a-f]{40}$/i.test(commit) ? commit.toLowerCase() : undefined;
+    }
+
+    // `clone --branch` prefers a branch over a tag of the same name; the
+    // peeled `^{}` entry of an annotated tag is the commit it points to
+    const names = ref
+      ? [`refs/heads/${ref}`, `refs/tags/${ref}^{}`, `refs/tags/${ref}`]
+      : ['HEAD'];
+    try {
+      const output = await simpleGit({ abort: signal }).listRemote([
+        repoUrl,
+        ...names,
+      ]);
+      const refs = new Map(
+        output
+          .split('\n')
+          .map((line) => line.split('\t'))
+          .map(([sha, name]) => [name?.trim(), sha.trim()]),
+      );
+      return names.map((name) => refs.get(name)).find(Boolean);
+    } catch (error) {
+      this.logger.warn(`ls-remote failed: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
 
-    const pubspecExists = await fs.pathExists(pubspecPath);
-    const mainDartExists = await fs.pathExists(mainDartPath);
+  private async cachedResult(
+    assignment: Assignment,
+    rubric: Rubric,
+    repoUrl: string,
+    commitSha: string,
+  ): Promise<EvaluateResponseDto | undefined> {
+    const entry = await this.evaluationCache.lookup(
+      assignment,
+      rubric,
+      repoUrl,
+      commitSha,
+    );
+    if (!entry) {
+      return undefined;
+    }
+    this.logger.log(
+      `Serving cached evaluation of ${commitSha.slice(0, 7)} from ${entry.createdAt}`,
+    );
+    return {
+      ...entry.result,
+      cache: { result: 'hit', cachedAt: entry.createdAt },
+    };
+  }
 
-    if (!pubspecExists && !mainDartExists) {
-      return { valid: false, message: 'pubspec.yaml and lib/main.dart are missing' };
+  private async extractArchive(archivePath: string): Promise<WorkspaceResult> {
+    const workspace = path.join(this.tempDir, `upload-${randomUUID()}`);
+    try {
+      const repoPath = await extractZip(archivePath, workspace);
+      return { workspace, repoPath };
+    } catch (error) {
+      this.logger.error(`Extraction failed: ${(error as Error).message}`);
+      await fs.remove(workspace);
+      return {
+        error:
+          error instanceof ZipArchiveError
+            ? error.message
+            : 'Failed to extract archive',
+      };
     }
-    if (!pubspecExists) {
-      return { valid: false, message: 'pubspec.yaml is missing' };
+  }
+
+  /**
+   * Picks the commit to grade: the pinned commit (which must predate the
+   * deadline, if any), else the last commit before the deadline, else the
+   * cloned tip (undefined).
+   */
+  private async resolveCheckoutTarget(
+    git: SimpleGit,
+    { commit, deadline }: CheckoutOptions,
+  ): Promise<string | undefined> {
+    if (commit) {
+      let sha: string;
+      try {
+        sha = (await git.revparse([`${commit}^{commit}`])).trim();
+      } catch {
+        throw new Error(`Commit ${commit} was not found in the repository`);
+      }
+      if (deadline) {
+        const date = (await git.show(['-s', '--format=%cI', sha])).trim();
+        if (new Date(date) > new Date(deadline)) {
+          throw new Error(
+            `Commit ${sha.slice(0, 7)} was made after the deadline (${deadline})`,
+          );
+        }
+      }
+      return sha;
     }
-    if (!mainDartExists) {
-      return { valid: false, message: 'lib/main.dart is missing' };
+
+    if (deadline) {
+      const sha = (
+        await git.raw(['rev-list', '-1', `--before=${deadline}`, 'HEAD'])
+      ).trim();
+      if (!sha) {
+        throw new Error(`No commit was made before the deadline (${deadline})`);
+      }
+      return sha;
     }
 
-    return { valid: true };
+    return undefined;
+  }
+
+  private async resolveCommit(
+    repoPath: string,
+  ): Promise<Pick<EvaluationDetails, 'commitSha' | 'commitDate'>> {
+    try {
+      const [commitSha, commitDate] = (
+        await simpleGit(repoPath).show(['-s', '--format=%H%n%cI', 'HEAD'])
+      )
+        .trim()
+        .split('\n');
+      return { commitSha, commitDate };
+    } catch (error) {
+      this.logger.warn(
+        `Failed to resolve commit SHA: ${(error as Error).message}`,
+      );
+      return {};
+    }
   }
 
-  private async runFlutterPubGet(repoPath: string): Promise<{ success: boolean; message?: string }> {
+  private extractRepoName(url: string): string {
     try {
-      const { stdout, stderr } = await execAsync('flutter pub get', {
+      const segments = new URL(url).pathname
+        .replace(/\.git$/, '')
+        .split('/')
+        .filter(Boolean);
+      const name = segments
+        .slice(-2)
+        .join('-')
+        .replace(/[^\w.-]/g, '_');
+      return name || 'repo';
+    } catch {
+      return 'repo';
+    }
+  }
+
+  private async checkRequiredFiles(
+    repoPath: string,
+    requiredFiles: string[],
+  ): Promise<{ valid: boolean; message?: string }> {
+    const missing: string[] = [];
+
+    // Each entry is a glob that must match at least one file in the repository
+    for (const pattern of requiredFiles) {
+      const matches = await fg(pattern, {
         cwd: repoPath,
-        timeout: 60000, // 60 seconds timeout
+        ignore: ['.git/**'],
+        dot: true,
       });
+      if (matches.length === 0) {
+        missing.push(pattern);
+      }
+    }
+
+    if (missing.length > 0) {
+      const verb = missing.length === 1 ? 'is' : 'are';
+      return {
+        valid: false,
+        message: `${missing.join(' and ')} ${verb} missing`,
+      };
+    }
+
+    return { valid: true };
+  }
 
-      if (stderr && !stderr.includes('Warning')) {
-        // Some warnings are acceptable
-        return { success: false, message: stderr };
+  /**
+   * Installs the dependencies into the shared pub cache. A pubspec.lock that
+   * was resolved before is installed offline from that cache; should that
+   * fail, e.g. because the cache was cleared, it is resolved again online.
+   */
+  private async runFlutterPubGet(
+    repoPath: string,
+    sdk: FlutterSdk,
+    signal?: AbortSignal,
+  ): Promise<PubGetResult> {
+    const lockPath = path.join(repoPath, 'pubspec.lock');
+    const lockFile = (await fs.pathExists(lockPath))
+      ? await fs.readFile(lockPath, 'utf8')
+      : undefined;
+
+    if (lockFile && (await this.evaluationCache.isLockFileResolved(lockFile))) {
+      const offline = await this.pubGet(repoPath, sdk, ['--offline'], signal);
+      if (offline.success) {
+        return { ...offline, dependencies: 'hit' };
       }
+      signal?.throwIfAborted();
+      this.logger.warn('Offline flutter pub get failed, resolving online');
+    }
 
-      return { success: true, message: 'Dependencies installed successfully' };
-    } catch (error: any) {
-      this.logger.error(`flutter pub get failed: ${error.message}`);
-      return { success: false, message: error.message || 'flutter pub get failed' };
+    const result = await this.pubGet(repoPath, sdk, [], signal);
+    if (result.success && lockFile) {
+      await this.evaluationCache.markLockFileResolved(lockFile);
     }
+    return { ...result, dependencies: 'miss' };
   }
 
-  private async checkBuild(repoPath: string): Promise<{ success: boolean; message?: string }> {
-    try {
-      // Use flutter analyze to check if the code compiles
-      const { stdout, stderr } = await execAsync('flutter analyze', {
+  private async pubGet(
+    repoPath: string,
+    sdk: FlutterSdk,
+    args: string[],
+    signal?: AbortSignal,
+  ): Promise<CommandResult> {
+    const command = ['pub', 'get', ...args];
+    const run = await this.commandRunner.run(sdk.flutter, command, {
+      cwd: repoPath,
+      timeoutMs: 60000, // 60 seconds timeout
+      signal,
+      env: this.flutterEnv(sdk),
+    });
+    const output = `${run.stdout}${run.stderr}`;
+
+    if (run.exitCode !== 0) {
+      const failure = `flutter ${command.join(' ')} ${describeFailure(run)}`;
+      this.logger.error(failure);
+      return {
+        success: false,
+        message: [failure, run.stderr.trim()].filter(Boolean).join('\n'),
+        output,
+        run,
+      };
+    }
+
+    if (run.stderr && !run.stderr.includes('Warning')) {
+      // Some warnings are acceptable
+      return { success: false, message: run.stderr, output, run };
+    }
+
+    return {
+      success: true,
+      message: 'Dependencies installed successfully',
+      output,
+      run,
+    };
+  }
+
+  private async analyzeCode(
+    repoPath: string,
+    sdk: FlutterSdk,
+    signal?: AbortSignal,
+  ): Promise<AnalysisResult> {
+    // Warnings must not fail the command; only errors decide compilation
+    const run = await this.commandRunner.run(
+      sdk.dart,
+      ['analyze', '--format=machine', '--no-fatal-warnings'],
+      {
         cwd: repoPath,
-        timeout: 120000, // 2 minutes timeout
-      });
+        timeoutMs: 120000, // 2 minutes timeout
+        signal,
+        env: this.flutterEnv(sdk),
+      },
+    );
+    const output = `${run.stdout}${run.stderr}`;
+    const failure = run.exitCode !== 0 ? describeFailure(run) : undefined;
 
-      // Check if there are errors (not just warnings)
-      const hasErrors = stderr.includes('error') || stdout.includes('error •');
-      
-      if (hasErrors && !stderr.includes('info') && !stdout.includes('info •')) {
-        return { success: false, message: 'Code contains errors and does not compile' };
-      }
+    const diagnostics = parseDartAnalyzerMachineOutput(output, repoPath);
+    const errors = diagnostics.filter((d) => d.severity === 'error');
 
-      return { success: true, message: 'Code compiles successfully' };
-    } catch (error: any) {
-      // If analyze fails, try to build
-      try {
-        await execAsync('flutter build', {
-          cwd: repoPath,
-          timeout: 180000, // 3 minutes timeout
-        });
-        return { success: true, message: 'Code compiles successfully' };
-      } catch (buildError: any) {
-        this.logger.error(`Build check failed: ${buildError.message}`);
-        return { success: false, message: buildError.message || 'Build failed' };
-      }
+    if (errors.length > 0) {
+      return {
+        success: false,
+        message: `Code contains ${errors.length} error(s) and does not compile`,
+        output: errors
+          .map((d) => `${d.file}:${d.line}:${d.column} ${d.message}`)
+          .join('\n'),
+        diagnostics,
+        run,
+      };
+    }
+
+    // The analyzer exited abnormally without reporting an error diagnostic
+    if (failure) {
+      this.logger.error(`dart analyze failed: ${failure}`);
+      return {
+        success: false,
+        message: 'Static analysis could not be completed',
+        output,
+        diagnostics,
+        run,
+      };
     }
+
+    return {
+      success: true,
+      message: 'Code compiles successfully',
+      diagnostics,
+      run,
+    };
+  }
+
+  // Every Flutter command shares the pub cache `pub get` installed into
+  private flutterEnv(sdk: FlutterSdk): Record<string, string> {
+    return { ...sdk.env, PUB_CACHE: this.evaluationCache.pubCacheDir };
   }
 
-  private async runFlutterTest(repoPath: string): Promise<{ success: boolean; message?: string }> {
+  /**
+   * Compares the pubspec's Dart and Flutter SDK constraints with the versions
+   * of the SDK. Only a definite mismatch stops the evaluation; a pubspec or
+   * SDK that cannot be read is left for `pub get` to report.
+   */
+  private async checkSdk(
+    repoPath: string,
+    sdk: FlutterSdk,
+    signal?: AbortSignal,
+  ): Promise<SdkCheckResult> {
+    const report: SdkReport = { requested: sdk.version };
+    const unchecked = (message: string): SdkCheckResult => ({
+      passed: false,
+      mismatch: false,
+      message,
+      report,
+    });
+
+    let pubspec: string;
     try {
-      const { stdout, stderr } = await execAsync('flutter test', {
-        cwd: repoPath,
-        timeout: 120000, // 2 minutes timeout
-      });
+      pubspec = await fs.readFile(path.join(repoPath, 'pubspec.yaml'), 'utf8');
+    } catch {
+      return unchecked('pubspec.yaml is missing');
+    }
+    try {
+      const constraints = readSdkConstraints(pubspec);
+      report.dartConstraint = constraints.sdk;
+      report.flutterConstraint = constraints.flutter;
+    } catch (error) {
+      return unchecked(
+        `pubspec.yaml could not be parsed: ${(error as Error).message}`,
+      );
+    }
+
+    const versions = await this.flutterSdkService.versions(
+      sdk,
+      repoPath,
+      signal,
+    );
+    if (!versions) {
+      return unchecked(
+        `Could not determine the version of ${sdk.version ? `Flutter SDK ${sdk.version}` : 'the Flutter SDK'}`,
+      );
+    }
+    report.flutterVersion = versions.flutter;
+    report.dartVersion = versions.dart;
 
-      // Check if tests passed
-      const allTestsPassed = stdout.includes('All tests passed!') || 
-                            (stdout.includes('+') && !stdout.includes('Some tests failed'));
+    const result = checkSdkConstraints(
+      { sdk: report.dartConstraint, flutter: report.flutterConstraint },
+      versions,
+    );
+    report.satisfied = result.satisfied;
+    if (!result.satisfied) {
+      return {
+        passed: false,
+        mismatch: true,
+        message: result.problems.join('; '),
+        report,
+      };
+    }
+    return {
+      passed: true,
+      mismatch: false,
+      message:
+        report.dartConstraint || report.flutterConstraint
+          ? `Flutter ${versions.flutter} (Dart ${versions.dart}) satisfies the SDK constraints of pubspec.yaml`
+          : `pubspec.yaml sets no SDK constraint; using Flutter ${versions.flutter} (Dart ${versions.dart})`,
+      report,
+    };
+  }
 
-      if (allTestsPassed) {
-        return { success: true, message: 'All tests passed' };
-      }
+  private countSeverity(
+    diagnostics: AnalyzerDiagnostic[],
+    severity: AnalyzerDiagnostic['severity'],
+  ): number {
+    return diagnostics.filter((d) => d.severity === severity).length;
+  }
 
-      return { success: false, message: 'Tests failed or no tests found' };
-    } catch (error: any) {
-      // If no tests directory exists, that's acceptable
-      if (error.message.includes('No tests found') || error.message.includes('No test file')) {
-        return { success: false, message: 'No tests found' };
+  private async runFlutterTest(
+    repoPath: string,
+    sdk: FlutterSdk,
+    signal?: AbortSignal,
+    testDir?: string,
+  ): Promise<TestRunResult> {
+    const run = await this.commandRunner.run(
+      sdk.flutter,
+      ['test', '--machine', ...(testDir ? [testDir] : [])],
+      {
+        cwd: repoPath,
+        timeoutMs: 120000, // 2 minutes timeout
+        signal,
+        env: this.flutterEnv(sdk),
+      },
+    );
+    // A non-zero exit is expected when tests fail; the events still tell
+    // which ones did
+    const failure = run.exitCode !== 0 ? describeFailure(run) : undefined;
+    const output = `${run.stdout}${run.stderr}`;
+
+    const report = parseFlutterTestMachineOutput(run.stdout, repoPath);
+    if (report.total === 0) {
+      if (failure) {
+        this.logger.error(`flutter test failed: ${failure}`);
       }
-      this.logger.error(`flutter test failed: ${error.message}`);
-      return { success: false, message: error.message || 'Tests failed' };
+      return {
+        success: false,
+        message: 'No tests found',
+        output: failure ? output : undefined,
+        report,
+        run,
+      };
     }
+
+    const runnable = report.total - report.skipped;
+    const skipped = report.skipped ? ` (${report.skipped} skipped)` : '';
+    return {
+      success: report.failed === 0 && runnable > 0,
+      message: `${report.passed}/${runnable} tests passed${skipped}`,
+      output: report.failed ? this.failedTestOutput(report) : undefined,
+      report,
+      run,
+    };
+  }
+
+  private testOutcome({ success, report }: TestRunResult): CheckOutcome {
+    const runnable = report.total - report.skipped;
+    return {
+      passed: success,
+      ratio: runnable > 0 ? report.passed / runnable : 0,
+    };
+  }
+
+  private failedTestOutput(report: TestReport): string {
+    return report.tests
+      .filter((test) => test.status === 'failed' || test.status === 'error')
+      .map((test) => `${test.name}: ${test.error ?? test.status}`)
+      .join('\n');
   }
 
-  private async collectLibFiles(repoPath: string): Promise<Array<{ path: string; content: string }>> {
+  private async collectLibFiles(
+    repoPath: string,
+  ): Promise<Array<{ path: string; content: string }>> {
     const libPath = path.join(repoPath, 'lib');
-    
+
     if (!(await fs.pathExists(libPath))) {
       return [];
     }
 
     const files: Array<{ path: string; content: string }> = [];
-    
+
     try {
       await this.collectFilesRecursively(libPath, libPath, files);
     } catch (error) {
@@ -418,50 +1334,131 @@ export class EvaluateService {
           const content = await fs.readFile(fullPath, 'utf-8');
           files.push({ path: relativePath, content });
         } catch (error) {
-          this.logger.warn(`Failed to read file ${relativePath}: ${error.message}`);
+          this.logger.warn(
+            `Failed to read file ${relativePath}: ${error.message}`,
+          );
         }
       }
     }
   }
 
-  private async evaluateWithGroq(
-    files: Array<{ path: string; content: string }>,
-    maxAvailableScore: number,
-  ): Promise<{
-    score: number;
-    summary: string;
-    strengths?: string[];
-    weaknesses?: string[];
-    recommendations?: string;
-  }> {
-    const groqApiKey = this.configService.get<string>('GROQ_API_KEY');
+  private assertLlmConfigured(): void {
+    if (!this.llmProvider.isConfigured()) {
+      this.logger.error(`LLM provider ${this.llmProvider.name} not configured`);
+      throw new InternalServerErrorException(
+        `LLM provider "${this.llmProvider.name}" is not configured. Check the LLM_* / GROQ_API_KEY environment variables.`,
+      );
+    }
+  }
+
+  /**
+   * Fits the lib/ files into the assignment's context window: generated files
+   * are dropped, the most relevant files are sent in full and, for projects
+   * that do not fit, the rest are summarized one by one first.
+   */
+  private async packCode(
+    files: CodeFile[],
+    grading: GradingContext,
+    signal?: AbortSignal,
+  ): Promise<PackedCode> {
+    const { assignment } = grading;
+    const settings = assignment.llm ?? {};
+    const overhead = estimateTokens(this.gradingPrompt(grading, ''));
+    const budgetTokens = Math.max(
+      (settings.contextTokens ?? this.contextTokens) -
+        overhead -
+        (settings.maxTokens ?? DEFAULT_LLM_MAX_TOKENS),
+      0,
+    );
+    const plan = buildCodeContext(
+      files,
+      budgetTokens,
+      relevanceKeywords([
+        assignment.title,
+        assignment.description,
+        ...assignment.requirements,
+      ]),
+    );
+
+    // Reported relative to the repository, like analyzer diagnostics
+    const toReport = (file: RankedFile): ContextFile => ({
+      path: `lib/${file.path}`,
+      tokens: file.tokens,
+    });
+    const sections = plan.included.map(
+      (file) => `// File: ${file.path}\n${file.content}`,
+    );
+    const summarized: ContextFile[] = [];
+    const skipped: SkippedContextFile[] = plan.skipped.map((file) => ({
+      ...toReport(file),
+      reason: file.reason,
+    }));
 
-    if (!groqApiKey) {
-      this.logger.error('GROQ_API_KEY not configured');
-      throw new InternalServerErrorException('Groq API key not configured. Please set GROQ_API_KEY environment variable.');
+    for (const file of plan.summarized) {
+      signal?.throwIfAborted();
+      try {
+        const summary = await this.summarizeFile(file, assignment, signal);
+        sections.push(
+          `// Summary of ${file.path} (too large to include in full)\n${summary}`,
+        );
+        summarized.push(toReport(file));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to summarize ${file.path}: ${(error as Error).message}`,
+        );
+        skipped.push({ ...toReport(file), reason: 'summaryFailed' });
+      }
     }
 
-    // Prepare code content
-    const codeContent = files
-      .map((file) => `// File: ${file.path}\n${file.content}`)
-      .join('\n\n');
+    return {
+      codeContent: sections.join('\n\n'),
+      report: {
+        mode: summarized.length > 0 ? 'map-reduce' : 'full',
+        budgetTokens,
+        included: plan.included.map(toReport),
+        summarized,
+        skipped,
+      },
+    };
+  }
+
+  private async summarizeFile(
+    file: CodeFile,
+    assignment: Assignment,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const settings = assignment.llm ?? {};
+    const prompt = `Summarize the following Dart file from a Flutter project submitted for the assignment "${assignment.title}".
+The summary replaces the source when the project is graded, so describe in at most 150 words what the file implements, its main classes and widgets, which requirements it addresses and any notable quality issues.
+${this.formatList('Requirements', assignment.requirements)}
+// File: ${file.path}
+${file.content}`;
+
+    const completion = await this.llmProvider.complete({
+      prompt,
+      model: settings.model,
+      temperature: settings.temperature ?? DEFAULT_LLM_TEMPERATURE,
+      maxTokens: SUMMARY_TOKENS,
+      signal,
+    });
+    return completion.content.trim().slice(0, SUMMARY_TOKENS * CHARS_PER_TOKEN);
+  }
 
-    const prompt = `Evaluate the following Flutter code for the assignment:
+  private gradingPrompt(grading: GradingContext, codeContent: string): string {
+    const { assignment, maxAvailableScore, maxScore, evidence } = grading;
+    return `Evaluate the following Flutter code for the assignment "${assignment.title}":
 
-${this.assignmentDescription}
+${assignment.description}
+${this.formatList('Requirements', assignment.requirements)}
+The evaluation should be out of ${maxAvailableScore} points (this represents the code quality portion of the total ${maxScore}-point assignment).
 
-The evaluation should be out of ${maxAvailableScore} points (this represents the code quality portion of the total 20-point assignment).
+Static analysis of the code (measured by a tool; treat these as facts):
+${evidence}
 
 Here is the code:
 
 ${codeContent}
-
-Evaluate based on:
-- Code quality and structure
-- Implementation of requirements (Add todo, Delete todo, Mark todo as complete)
-- Best practices and Flutter conventions
-- Error handling
-- Code organization
+${this.formatList('Evaluate based on', assignment.evaluationCriteria)}
 
 Provide a CONCISE evaluation. Keep responses brief and to the point.
 
@@ -473,107 +1470,258 @@ Respond in the following JSON format (keep text fields short - max 200 character
   "weaknesses": ["<brief point 1>", "<brief point 2>"],
   "recommendations": "<brief recommendation in 1-2 sentences>"
 }`;
+  }
 
-    try {
-      const response = await axios.post(
-        this.groqApiUrl,
-        {
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          model: 'openai/gpt-oss-120b',
-          temperature: 0.3,
-          max_completion_tokens: 800,
-          top_p: 1,
-          stream: false,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${groqApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 60000, // 60 seconds timeout
-        },
-      );
-
-      const result = response.data.choices?.[0]?.message?.content;
-      if (!result) {
-        this.logger.error('No response content from Groq API', response.data);
-        throw new Error('No response from Groq API');
-      }
+  /**
+   * Grades the code with the LLM, once or `samples` times taking the median
+   * score. Throws when not a single valid reply could be obtained.
+   */
+  private async evaluateWithLlm(
+    codeContent: string,
+    grading: GradingContext,
+    signal?: AbortSignal,
+  ): Promise<GroqEvaluationSummary> {
+    const { maxAvailableScore } = grading;
+    const prompt = this.gradingPrompt(grading, codeContent);
+    const settings = grading.assignment.llm ?? {};
 
-      // Try to parse JSON from the response
-      let parsed;
+    const replies: GradingReply[] = [];
+    let failure: Error | undefined;
+    for (let sample = 0; sample < (settings.samples ?? 1); sample++) {
+      signal?.throwIfAborted();
       try {
-        // Sometimes the response might be wrapped in markdown code blocks
-        const cleanedResult = result.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-        parsed = JSON.parse(cleanedResult);
-      } catch (parseError) {
-        this.logger.error(`Failed to parse Groq response as JSON: ${result}`);
-        // Try to extract score from text if JSON parsing fails
-        const scoreMatch = result.match(/"score":\s*(\d+)/i) || result.match(/score[:\s]+(\d+)/i);
-        const extractedScore = scoreMatch ? parseInt(scoreMatch[1]) : 0;
-        return {
-          score: Math.min(Math.max(extractedScore, 0), maxAvailableScore),
-          summary: result.substring(0, 200) || 'Evaluation completed',
-          strengths: [],
-          weaknesses: [],
-          recommendations: '',
-        };
+        replies.push(
+          await this.requestGrading(
+            prompt,
+            settings,
+            maxAvailableScore,
+            signal,
+          ),
+        );
+      } catch (error) {
+        failure = new Error(this.llmErrorMessage(error));
+        this.logger.error(
+          `${this.llmProvider.name} evaluation failed: ${failure.message}`,
+        );
       }
+    }
+    if (replies.length === 0) {
+      throw failure ?? new Error('No evaluation was returned');
+    }
 
-      const score = Math.min(Math.max(parseInt(parsed.score) || 0, 0), maxAvailableScore);
-      const summary = (parsed.summary || parsed.feedback || 'No summary provided').substring(0, 300);
-      const strengths = Array.isArray(parsed.strengths) 
-        ? parsed.strengths.map((s: string) => String(s).substring(0, 150)).slice(0, 5)
-        : [];
-      const weaknesses = Array.isArray(parsed.weaknesses)
-        ? parsed.weaknesses.map((w: string) => String(w).substring(0, 150)).slice(0, 5)
-        : [];
-      const recommendations = (parsed.recommendations || '').substring(0, 200);
+    const scores = replies.map(({ reply }) => reply.score);
+    const score = this.median(scores);
+    // Report the feedback of the sample closest to the median
+    const { reply, model } = replies.reduce((best, candidate) =>
+      Math.abs(candidate.reply.score - score) <
+      Math.abs(best.reply.score - score)
+        ? candidate
+        : best,
+    );
+    const spread = Math.max(...scores) - Math.min(...scores);
 
-      return {
-        score,
-        summary,
-        strengths,
-        weaknesses,
-        recommendations,
-      };
-    } catch (error: any) {
-      this.logger.error(`Groq evaluation failed: ${error.message}`, {
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
+    return {
+      score,
+      summary: reply.summary.substring(0, 300),
+      strengths: reply.strengths.map((s) => s.substring(0, 150)).slice(0, 5),
+      weaknesses: reply.weaknesses.map((w) => w.substring(0, 150)).slice(0, 5),
+      recommendations: reply.recommendations.substring(0, 200),
+      model,
+      sampleScores: replies.length > 1 ? scores : undefined,
+      highVariance:
+        spread >
+        (settings.maxScoreSpread ?? DEFAULT_MAX_SCORE_SPREAD) *
+          maxAvailableScore,
+    };
+  }
+
+  /**
+   * Requests one grading, asking the model to repair replies that do not
+   * match the schema. Transient HTTP errors are retried by the provider.
+   */
+  private async requestGrading(
+    prompt: string,
+    settings: LlmSettings,
+    maxAvailableScore: number,
+    signal?: AbortSignal,
+  ): Promise<GradingReply> {
+    let request = prompt;
+    for (let attempt = 0; ; attempt++) {
+      const completion = await this.llmProvider.complete({
+        prompt: request,
+        model: settings.model,
+        temperature: settings.temperature ?? DEFAULT_LLM_TEMPERATURE,
+        maxTokens: settings.maxTokens ?? DEFAULT_LLM_MAX_TOKENS,
+        signal,
       });
-      
-      // Return default score if Groq fails
-      return {
-        score: 0,
-        summary: `Evaluation failed: ${error.response?.data?.error?.message || error.message}`,
-        strengths: [],
-        weaknesses: [],
-        recommendations: '',
-      };
+      const parsed = parseLlmEvaluationReply(
+        completion.content,
+        maxAvailableScore,
+      );
+      if (parsed.reply) {
+        return { reply: parsed.reply, model: completion.model };
+      }
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(
+          `Reply did not match the expected format: ${parsed.errors.join('; ')}`,
+        );
+      }
+
+      this.logger.warn(
+        `Invalid ${this.llmProvider.name} reply (${parsed.errors.join('; ')}), asking for a corrected one`,
+      );
+      request = `${prompt}
+
+Your previous reply was:
+${completion.content}
+
+It was rejected because:
+${parsed.errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with only the JSON object in the format above and nothing else.`;
+    }
+  }
+
+  private llmErrorMessage(error: unknown): string {
+    if (axios.isAxiosError<{ error?: { message?: string } }>(error)) {
+      return error.response?.data?.error?.message ?? error.message;
+    }
+    return (error as Error).message;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2
+      ? sorted[middle]
+      : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private describeMetrics(metrics: CodeMetrics): string {
+    const parts = [
+      `${metrics.linesOfCode} lines of code in ${metrics.files} file(s)`,
+      `${metrics.widgets} widget(s) (${metrics.statefulWidgets} stateful)`,
+      `state management: ${metrics.stateManagement.join(', ') || 'setState only'}`,
+      `max nesting depth ${metrics.maxNestingDepth}`,
+    ];
+    if (metrics.longestFunction) {
+      const { name, file, lines } = metrics.longestFunction;
+      parts.push(`longest function ${name} in ${file} (${lines} lines)`);
+    }
+    return parts.join(', ');
+  }
+
+  private describeMatches(result: RequirementCheckResult): string {
+    return result.matches
+      .map((match) =>
+        match.file
+          ? `${match.pattern} found in ${match.file}:${match.line}`
+          : `${match.pattern} not found`,
+      )
+      .join('; ');
+  }
+
+  private staticEvidence(details: EvaluationDetails): string {
+    const lines: string[] = [];
+    const metrics = details.metrics;
+    if (metrics) {
+      lines.push(
+        `- ${this.describeMetrics(metrics)}`,
+        `- ${metrics.functions} function(s), ${metrics.averageFunctionLength} lines long on average; ${metrics.setStateCalls} setState call(s)`,
+      );
+    }
+    for (const result of details.requirementChecks ?? []) {
+      lines.push(
+        `- Requirement "${result.requirement}": ${result.passed ? 'detected' : 'NOT detected'} (${this.describeMatches(result)})`,
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private commandLog(
+    step: string,
+    run: CommandRun,
+    withLog: boolean,
+  ): CommandLog {
+    return {
+      step,
+      command: run.command,
+      exitCode: run.exitCode,
+      durationMs: run.durationMs,
+      timedOut: run.timedOut,
+      outputTruncated: run.outputTruncated,
+      log: withLog
+        ? this.excerpt(`${run.stdout}${run.stderr}`)
+            .join('\n')
+            .slice(-COMMAND_LOG_CHARS)
+        : undefined,
+    };
+  }
+
+  private excerpt(output?: string): string[] {
+    if (!output) {
+      return [];
+    }
+    return output.trimEnd().split('\n').slice(-LOG_EXCERPT_LINES);
+  }
+
+  private formatList(heading: string, items: string[]): string {
+    if (items.length === 0) {
+      return '';
     }
+    return `\n${heading}:\n${items.map((item) => `- ${item}`).join('\n')}\n`;
   }
 
-  private buildResponse(
-    totalScore: number,
-    maxScore: number,
+  private createCheck(
+    rubric: Rubric,
+    source: CheckSource,
+    check: Omit<CheckResult, 'criterionId' | 'score'>,
+  ): CheckResult {
+    return {
+      ...check,
+      criterionId: this.scoringService.criterionFor(rubric, source)?.id,
+      score: 0,
+    };
+  }
+
+  private finish(
+    rubric: Rubric,
     checks: CheckResult[],
-    details: any,
-    feedback?: string,
+    outcomes: CheckOutcomes,
+    details: EvaluationDetails,
+    feedback: string,
     summary?: string,
+    reviewReasons: string[] = [],
   ): EvaluateResponseDto {
+    const breakdown = this.scoringService.score(rubric, outcomes);
+    details.failedStages = this.scoringService.failedStages(outcomes);
+
+    for (const check of checks) {
+      check.score =
+        breakdown.criteria.find((c) => c.criterionId === check.criterionId)
+          ?.score ?? 0;
+    }
+
+    if (details.groqEvaluation) {
+      details.groqEvaluation.score =
+        breakdown.criteria.find((c) => c.source === 'llm')?.score ?? 0;
+    }
+
+    // Pipeline messages carry the resulting score; the Groq summary stands alone
+    const message =
+      summary ??
+      `${feedback}. Score: ${breakdown.totalScore}/${breakdown.maxScore}`;
+
     return {
-      totalScore,
-      maxScore,
+      totalScore: breakdown.totalScore,
+      maxScore: breakdown.maxScore,
+      status: reviewReasons.length > 0 ? 'pendingReview' : 'graded',
+      reviewReasons: reviewReasons.length > 0 ? reviewReasons : undefined,
       checks,
-      feedback,
-      summary: summary || feedback,
+      feedback: message,
+      summary: message,
+      rubricId: rubric.id,
+      rubricVersion: rubric.version,
       details,
     };
   }
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { EvaluationCacheService } from './evaluation-cache.service';
+import { StorageService } from '../storage/storage.service';
+import { HiddenTestsService } from '../assignments/hidden-tests.service';
+import { Assignment } from '../assignments/entities/assignment.entity';
+import { Rubric } from '../rubrics/entities/rubric.entity';
+import { EvaluateResponseDto } from './dto/evaluate-response.dto';
+
+describe('EvaluationCacheService', () => {
+  let service: EvaluationCacheService;
+  let dataDir: string;
+  const hiddenTestsService = { revision: jest.fn() };
+  const sha = '3f9c2e1d8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e';
+  const repoUrl = 'https://github.com/amira/todo';
+  const assignment = {
+    id: 'todo',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  } as Assignment;
+  const rubric = { id: 'default', version: 1 } as Rubric;
+  const result = (
+    changes: Partial<EvaluateResponseDto> = {},
+  ): EvaluateResponseDto => ({
+    totalScore: 18,
+    maxScore: 20,
+    status: 'graded',
+    checks: [],
+    cache: { result: 'miss', dependencies: 'hit' },
+    details: {
+      cloneSuccessful: true,
+      commitSha: sha,
+      filesValid: true,
+      pubGetSuccessful: true,
+      buildSuccessful: true,
+      testsPassed: true,
+    },
+    ...changes,
+  });
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'evaluation-cache-'));
+    hiddenTestsService.revision.mockResolvedValue(undefined);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvaluationCacheService,
+        StorageService,
+        { provide: HiddenTestsService, useValue: hiddenTestsService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<EvaluationCacheService>(EvaluationCacheService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should serve a graded result for the same commit and rubric version', async () => {
+    await expect(
+      service.store(assignment, rubric, repoUrl, result()),
+    ).resolves.toBe(true);
+
+    const entry = await service.lookup(assignment, rubric, repoUrl, sha);
+    expect(entry?.result.totalScore).toBe(18);
+    expect(entry?.result.cache).toBeUndefined();
+    await expect(
+      service.lookup(assignment, { ...rubric, version: 2 }, repoUrl, sha),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.lookup(assignment, rubric, repoUrl, 'a'.repeat(40)),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should only serve a commit for the repository it was graded from', async () => {
+    await service.store(assignment, rubric, repoUrl, result());
+
+    await expect(
+      service.lookup(assignment, rubric, 'https://github.com/omar/todo', sha),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.lookup(
+        assignment,
+        rubric,
+        'https://GitHub.com/Amira/todo.git',
+        sha,
+      ),
+    ).resolves.toBeDefined();
+  });
+
+  it('should go stale when the assignment or its hidden suite changes', async () => {
+    await service.store(assignment, rubric, repoUrl, result());
+
+    await expect(
+      service.lookup(
+        { ...assignment, updatedAt: '2025-01-02T00:00:00.000Z' },
+        rubric,
+        repoUrl,
+        sha,
+      ),
+    ).resolves.toBeUndefined();
+    hiddenTestsService.revision.mockResolvedValue('2025-01-02T00:00:00.000Z');
+    await expect(
+      service.lookup(assignment, rubric, repoUrl, sha),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should not cache results that may come out differently', async () => {
+    const pending = result({ status: 'pendingReview' });
+    const timedOut = result();
+    timedOut.details!.commands = [
+      {
+        step: 'tests',
+        command: 'flutter test --machine',
+        exitCode: null,
+        durationMs: 120000,
+        timedOut: true,
+        outputTruncated: false,
+      },
+    ];
+    const pubGetFailed = result();
+    pubGetFailed.details!.pubGetSuccessful = false;
+
+    for (const uncacheable of [pending, timedOut, pubGetFailed]) {
+      await expect(
+        service.store(assignment, rubric, repoUrl, uncacheable),
+      ).resolves.toBe(false);
+    }
+    await expect(
+      service.lookup(assignment, rubric, repoUrl, sha),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should remember resolved lock files', async () => {
+    const lockFile = 'packages:\n  provider:\n    version: "6.1.2"\n';
+
+    await expect(service.isLockFileResolved(lockFile)).resolves.toBe(false);
+    await service.markLockFileResolved(lockFile);
+    await expect(service.isLockFileResolved(lockFile)).resolves.toBe(true);
+    expect(service.pubCacheDir).toBe(path.join(dataDir, 'pub-cache'));
+  });
+});
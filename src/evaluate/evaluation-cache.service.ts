@@ -0,0 +1,133 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { HiddenTestsService } from '../assignments/hidden-tests.service';
+import { normalizeRepoUrl } from '../common/repo-url';
+import { Assignment } from '../assignments/entities/assignment.entity';
+import { Rubric } from '../rubrics/entities/rubric.entity';
+import { EvaluateResponseDto } from './dto/evaluate-response.dto';
+import {
+  CachedEvaluation,
+  ResolvedLockFile,
+} from './entities/cached-evaluation.entity';
+
+/**
+ * Remembers finished evaluations by (assignment, repository, commit, rubric
+ * version) and which pubspec.lock files the shared pub cache already holds
+ * the packages of.
+ */
+@Injectable()
+export class EvaluationCacheService {
+  private readonly logger = new Logger(EvaluationCacheService.name);
+  private readonly evaluations: JsonCollection<CachedEvaluation>;
+  private readonly lockFiles: JsonCollection<ResolvedLockFile>;
+  // Shared by every `pub get`, so packages are downloaded once
+  readonly pubCacheDir: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly hiddenTestsService: HiddenTestsService,
+  ) {
+    this.evaluations =
+      this.storageService.collection<CachedEvaluation>('evaluation-cache');
+    this.lockFiles =
+      this.storageService.collection<ResolvedLockFile>('pub-lock-files');
+    this.pubCacheDir = path.resolve(
+      this.configService.get<string>('PUB_CACHE_DIR') ??
+        this.storageService.directory('pub-cache'),
+    );
+  }
+
+  async lookup(
+    assignment: Assignment,
+    rubric: Rubric,
+    repoUrl: string,
+    commitSha: string,
+  ): Promise<CachedEvaluation | undefined> {
+    const entry = await this.evaluations.findById(
+      this.key(assignment, rubric, repoUrl, commitSha),
+    );
+    if (!entry) {
+      return undefined;
+    }
+    // The assignment or its hidden suite changed since it was graded
+    if (entry.assignmentRevision !== (await this.revision(assignment))) {
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Caches a result if grading the commit again would give the same one: it
+   * must be fully graded (not pending review), and failed or timed out
+   * commands, which are often transient, rule it out from `pub get` on.
+   * Returns whether the result was cached.
+   */
+  async store(
+    assignment: Assignment,
+    rubric: Rubric,
+    repoUrl: string,
+    result: EvaluateResponseDto,
+  ): Promise<boolean> {
+    const details = result.details;
+    const commitSha = details?.commitSha;
+    if (
+      !commitSha ||
+      result.status !== 'graded' ||
+      !details.pubGetSuccessful ||
+      details.commands?.some((command) => command.timedOut)
+    ) {
+      return false;
+    }
+
+    await this.evaluations.save({
+      id: this.key(assignment, rubric, repoUrl, commitSha),
+      assignmentId: assignment.id,
+      repository: normalizeRepoUrl(repoUrl),
+      commitSha,
+      rubricId: rubric.id,
+      rubricVersion: rubric.version,
+      assignmentRevision: await this.revision(assignment),
+      result: { ...result, cache: undefined },
+      createdAt: new Date().toISOString(),
+    });
+    this.logger.log(
+      `Cached evaluation of ${commitSha.slice(0, 7)} for assignment ${assignment.id}`,
+    );
+    return true;
+  }
+
+  async isLockFileResolved(lockFile: string): Promise<boolean> {
+    return !!(await this.lockFiles.findById(this.hash(lockFile)));
+  }
+
+  async markLockFileResolved(lockFile: string): Promise<void> {
+    await this.lockFiles.save({
+      id: this.hash(lockFile),
+      resolvedAt: new Date().toISOString(),
+    });
+  }
+
+  // The same commit SHA can be submitted with any repository URL
+  private key(
+    assignment: Assignment,
+    rubric: Rubric,
+    repoUrl: string,
+    commitSha: string,
+  ) {
+    return `${assignment.id}:${normalizeRepoUrl(repoUrl)}:${commitSha}:${rubric.id}@${rubric.version}`;
+  }
+
+  private async revision(assignment: Assignment): Promise<string> {
+    const suite = await this.hiddenTestsService.revision(assignment.id);
+    return [assignment.updatedAt, suite ?? ''].join('|');
+  }
+
+  private hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
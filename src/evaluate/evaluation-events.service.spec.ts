@@ -0,0 +1,32 @@
+import { firstValueFrom, toArray } from 'rxjs';
+import { EvaluationEventsService } from './evaluation-events.service';
+
+describe('EvaluationEventsService', () => {
+  let service: EvaluationEventsService;
+
+  beforeEach(() => {
+    service = new EvaluationEventsService();
+  });
+
+  it('should replay earlier events to late subscribers', async () => {
+    service.publish('job', { type: 'status', status: 'running' });
+    service.publish('job', { type: 'stage-started', stage: 'clone' });
+
+    const events = firstValueFrom(service.stream('job')!.pipe(toArray()));
+    service.publish('job', { type: 'status', status: 'completed' });
+    service.complete('job');
+
+    expect((await events).map((event) => event.type)).toEqual([
+      'status',
+      'stage-started',
+      'status',
+    ]);
+  });
+
+  it('should have no stream once the job has finished', () => {
+    service.publish('job', { type: 'status', status: 'queued' });
+    service.complete('job');
+
+    expect(service.stream('job')).toBeUndefined();
+  });
+});
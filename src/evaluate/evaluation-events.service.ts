@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, ReplaySubject } from 'rxjs';
+import { EvaluationEvent } from './dto/evaluation-event.dto';
+
+// Late subscribers replay at most this many events of a job's history
+const REPLAY_BUFFER_SIZE = 200;
+
+@Injectable()
+export class EvaluationEventsService {
+  private readonly streams = new Map<string, ReplaySubject<EvaluationEvent>>();
+
+  publish(jobId: string, event: EvaluationEvent): void {
+    let stream = this.streams.get(jobId);
+    if (!stream) {
+      stream = new ReplaySubject<EvaluationEvent>(REPLAY_BUFFER_SIZE);
+      this.streams.set(jobId, stream);
+    }
+    stream.next(event);
+  }
+
+  complete(jobId: string): void {
+    this.streams.get(jobId)?.complete();
+    this.streams.delete(jobId);
+  }
+
+  /**
+   * Live events of an unfinished job, or undefined once the job has finished.
+   */
+  stream(jobId: string): Observable<EvaluationEvent> | undefined {
+    return this.streams.get(jobId)?.asObservable();
+  }
+}
@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
+import { BadRequestException } from '@nestjs/common';
+import { EvaluationQueueService } from './evaluation-queue.service';
+import { EvaluateService } from './evaluate.service';
+import { EvaluationEventsService } from './evaluation-events.service';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { SimilarityService } from '../similarity/similarity.service';
+import { StorageService } from '../storage/storage.service';
+import { WebhookDeliveriesService } from '../webhooks/webhook-deliveries.service';
+import { EvaluateResponseDto } from './dto/evaluate-response.dto';
+import { MetricsService } from '../metrics/metrics.service';
+
+describe('EvaluationQueueService', () => {
+  let service: EvaluationQueueService;
+  let dataDir: string;
+  const evaluateService = {
+    validateRequest: jest.fn(),
+    evaluate: jest.fn(),
+  };
+  const webhookDeliveriesService = { dispatch: jest.fn() };
+  const request = {
+    repoUrl: 'https://github.com/user/repo',
+    assignmentId: 'todo',
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvaluationQueueService,
+        StorageService,
+        EvaluationEventsService,
+        SubmissionsService,
+        MetricsService,
+        { provide: EvaluateService, useValue: evaluateService },
+        { provide: SimilarityService, useValue: { record: jest.fn() } },
+        {
+          provide: WebhookDeliveriesService,
+          useValue: webhookDeliveriesService,
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            DATA_DIR: dataDir,
+            EVALUATION_CONCURRENCY: '1',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<EvaluationQueueService>(EvaluationQueueService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  const waitFor = async (condition: () => Promise<boolean> | boolean) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if (await condition()) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Condition was never met');
+  };
+
+  const waitForStatus = (id: string, status: string) =>
+    waitFor(async () => (await service.findOne(id)).status === status);
+
+  it('should run no more jobs than the concurrency limit', async () => {
+    let finishFirst: (result: EvaluateResponseDto) => void = () => {};
+    evaluateService.evaluate.mockReturnValueOnce(
+      new Promise((resolve) => (finishFirst = resolve)),
+    );
+
+    const first = await service.enqueue(request);
+    const second = await service.enqueue(request);
+    await waitFor(() => evaluateService.evaluate.mock.calls.length > 0);
+
+    expect((await service.findOne(first.id)).status).toBe('running');
+    expect((await service.findOne(second.id)).status).toBe('queued');
+
+    await service.cancel(second.id);
+    finishFirst({ totalScore: 20, maxScore: 20, checks: [] });
+    await waitForStatus(first.id, 'completed');
+    // Webhooks are notified after the job is saved
+    await waitFor(
+      () => webhookDeliveriesService.dispatch.mock.calls.length > 0,
+    );
+
+    const { submissionId } = await service.findOne(first.id);
+    expect(submissionId).toBeDefined();
+    expect(webhookDeliveriesService.dispatch).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: first.id,
+        status: 'completed',
+        submissionId,
+      }),
+    );
+
+    expect((await service.findOne(second.id)).status).toBe('cancelled');
+    expect(evaluateService.evaluate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort a running job on cancel', async () => {
+    evaluateService.evaluate.mockImplementation(
+      (_request, { signal }: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(new Error('aborted'))),
+        ),
+    );
+
+    const job = await service.enqueue(request);
+    await waitFor(() => evaluateService.evaluate.mock.calls.length > 0);
+    await service.cancel(job.id);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect((await service.findOne(job.id)).status).toBe('cancelled');
+  });
+
+  it('should not start a job cancelled as it is taken off the queue', async () => {
+    let cancelled: Promise<unknown> = Promise.resolve();
+    const findOne = jest.spyOn(service, 'findOne');
+    findOne.mockImplementationOnce(async (id: string) => {
+      findOne.mockRestore();
+      const job = await service.findOne(id);
+      cancelled = service.cancel(id);
+      return job;
+    });
+
+    const job = await service.enqueue(request);
+    await waitFor(() => service['running'].size === 0);
+    await cancelled;
+
+    expect((await service.findOne(job.id)).status).toBe('cancelled');
+    expect(evaluateService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should pass the pinned ref, commit and force on to the evaluation', async () => {
+    evaluateService.evaluate.mockResolvedValue({
+      totalScore: 20,
+      maxScore: 20,
+      checks: [],
+    });
+
+    const job = await service.enqueue({
+      ...request,
+      ref: 'release',
+      commit: '3f9c2e1',
+      force: true,
+    });
+    await waitForStatus(job.id, 'completed');
+
+    expect(evaluateService.evaluate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ref: 'release',
+        commit: '3f9c2e1',
+        force: true,
+      }),
+      expect.anything(),
+    );
+  });
+
+  describe('uploads', () => {
+    const zipOf = (name: string, content: string): Promise<Buffer> => {
+      const zip = new yazl.ZipFile();
+      zip.addBuffer(Buffer.from(content), name);
+      zip.end();
+      return new Promise((resolve) => {
+        const chunks: Buffer[] = [];
+        zip.outputStream
+          .on('data', (chunk: Buffer) => chunks.push(chunk))
+          .on('end', () => resolve(Buffer.concat(chunks)));
+      });
+    };
+
+    it('should evaluate the archive and discard it afterwards', async () => {
+      let archivePath = '';
+      evaluateService.evaluate.mockImplementation(
+        async (_request, options: { archivePath: string }) => {
+          archivePath = options.archivePath;
+          expect(await fs.pathExists(archivePath)).toBe(true);
+          return { totalScore: 20, maxScore: 20, checks: [] };
+        },
+      );
+      const buffer = await zipOf('todo/pubspec.yaml', 'name: todo');
+
+      const job = await service.enqueueUpload(
+        { assignmentId: 'todo', studentId: 's1' },
+        { originalname: 'todo.zip', buffer, size: buffer.length },
+      );
+      await waitForStatus(job.id, 'completed');
+
+      expect(job.archive).toEqual({
+        fileName: 'todo.zip',
+        size: buffer.length,
+      });
+      expect(evaluateService.validateRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ assignmentId: 'todo', studentId: 's1' }),
+        true,
+      );
+      await waitFor(async () => !(await fs.pathExists(archivePath)));
+    });
+
+    it('should reject files that are not zip archives', async () => {
+      const buffer = Buffer.from('not a zip');
+
+      await expect(
+        service.enqueueUpload(
+          { assignmentId: 'todo' },
+          { originalname: 'todo.zip', buffer, size: buffer.length },
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.enqueueUpload(
+          { assignmentId: 'todo' },
+          { originalname: 'todo.rar', buffer, size: buffer.length },
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+});
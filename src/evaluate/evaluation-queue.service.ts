@@ -0,0 +1,346 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { inspectZip, ZipArchiveError } from '../common/zip';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { EvaluateService } from './evaluate.service';
+import { EvaluationEventsService } from './evaluation-events.service';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { SimilarityService } from '../similarity/similarity.service';
+import { WebhookDeliveriesService } from '../webhooks/webhook-deliveries.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  EvaluateRequestDto,
+  UploadEvaluationDto,
+} from './dto/evaluate-request.dto';
+import { EvaluationJob } from './entities/evaluation-job.entity';
+import { Submission } from '../submissions/entities/submission.entity';
+
+const DEFAULT_CONCURRENCY = 2;
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+@Injectable()
+export class EvaluationQueueService implements OnModuleInit {
+  private readonly logger = new Logger(EvaluationQueueService.name);
+  private readonly jobs: JsonCollection<EvaluationJob>;
+  private readonly concurrency: number;
+  private readonly pending: string[] = [];
+  private readonly running = new Map<string, AbortController>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly evaluateService: EvaluateService,
+    private readonly evaluationEventsService: EvaluationEventsService,
+    private readonly submissionsService: SubmissionsService,
+    private readonly similarityService: SimilarityService,
+    private readonly webhookDeliveriesService: WebhookDeliveriesService,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.jobs =
+      this.storageService.collection<EvaluationJob>('evaluation-jobs');
+    const configured = Number(
+      this.configService.get<string>('EVALUATION_CONCURRENCY'),
+    );
+    this.concurrency =
+      Number.isInteger(configured) && configured > 0
+        ? configured
+        : DEFAULT_CONCURRENCY;
+  }
+
+  async onModuleInit(): Promise<void> {
+    // Jobs that were queued or interrupted mid-run by a restart start over
+    const unfinished = (await this.jobs.findAll())
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of unfinished) {
+      if (job.status === 'running') {
+        await this.jobs.save({
+          ...job,
+          status: 'queued',
+          startedAt: undefined,
+        });
+      }
+      this.pending.push(job.id);
+      this.evaluationEventsService.publish(job.id, {
+        type: 'status',
+        status: 'queued',
+      });
+    }
+
+    if (unfinished.length > 0) {
+      this.logger.log(`Resuming ${unfinished.length} queued evaluation(s)`);
+    }
+    this.drain();
+  }
+
+  async enqueue(request: EvaluateRequestDto): Promise<EvaluationJob> {
+    await this.evaluateService.validateRequest(request);
+
+    return this.queue({
+      id: randomUUID(),
+      status: 'queued',
+      request: {
+        repoUrl: request.repoUrl,
+        assignmentId: request.assignmentId,
+        studentId: request.studentId,
+        ref: request.ref,
+        commit: request.commit,
+        force: request.force,
+      },
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Queues the evaluation of an uploaded zip archive. The archive is checked
+   * before queueing and kept under DATA_DIR until the job finishes.
+   */
+  async enqueueUpload(
+    uploadDto: UploadEvaluationDto,
+    file?: Pick<Express.Multer.File, 'originalname' | 'buffer' | 'size'>,
+  ): Promise<EvaluationJob> {
+    if (!file) {
+      throw new BadRequestException('A .zip archive is required in "file"');
+    }
+    if (!file.originalname.toLowerCase().endsWith('.zip')) {
+      throw new BadRequestException('Only .zip archives are accepted');
+    }
+    try {
+      await inspectZip(file.buffer);
+    } catch (error) {
+      if (error instanceof ZipArchiveError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const id = randomUUID();
+    // Uploads have no repository; the label keeps them apart in the history
+    const request: EvaluateRequestDto = {
+      repoUrl: `upload://${id}/${file.originalname}`,
+      assignmentId: uploadDto.assignmentId,
+      studentId: uploadDto.studentId,
+    };
+    await this.evaluateService.validateRequest(request, true);
+    await fs.outputFile(this.archivePath(id), file.buffer);
+
+    return this.queue({
+      id,
+      status: 'queued',
+      request,
+      archive: { fileName: file.originalname, size: file.size },
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  private async queue(job: EvaluationJob): Promise<EvaluationJob> {
+    await this.jobs.save(job);
+    this.pending.push(job.id);
+    this.evaluationEventsService.publish(job.id, {
+      type: 'status',
+      status: 'queued',
+    });
+    this.logger.log(
+      `Queued evaluation job ${job.id} for ${job.request.repoUrl}`,
+    );
+    this.drain();
+    return job;
+  }
+
+  async findOne(id: string): Promise<EvaluationJob> {
+    const job = await this.jobs.findById(id);
+    if (!job) {
+      throw new NotFoundException(`Evaluation job ${id} not found`);
+    }
+    return job;
+  }
+
+  async cancel(id: string): Promise<EvaluationJob> {
+    // Stopped before anything is awaited, so run() cannot start the job after
+    // it was read as queued
+    const pendingIndex = this.pending.indexOf(id);
+    if (pendingIndex !== -1) {
+      this.pending.splice(pendingIndex, 1);
+    }
+    this.running.get(id)?.abort();
+
+    const job = await this.findOne(id);
+    if (job.status !== 'queued' && job.status !== 'running') {
+      throw new ConflictException(
+        `Evaluation job ${id} is already ${job.status}`,
+      );
+    }
+
+    const cancelled: EvaluationJob = {
+      ...job,
+      status: 'cancelled',
+      finishedAt: new Date().toISOString(),
+    };
+    await this.jobs.save(cancelled);
+    await this.discardArchive(cancelled);
+    this.finishEvents(cancelled);
+    this.updateQueueDepth();
+    this.logger.log(`Cancelled evaluation job ${id}`);
+    return cancelled;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+      void this.run(id, controller)
+        .catch((error: Error) =>
+          this.logger.error(
+            `Evaluation job ${id} could not be recorded: ${error.message}`,
+          ),
+        )
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+    }
+    this.updateQueueDepth();
+  }
+
+  private updateQueueDepth(): void {
+    this.metricsService.setQueueDepth(this.pending.length, this.running.size);
+  }
+
+  private async run(id: string, controller: AbortController): Promise<void> {
+    let job: EvaluationJob | undefined;
+    try {
+      const queued = await this.findOne(id);
+      // Cancelled since it was taken off the queue; cancel() recorded that
+      if (queued.status !== 'queued' || controller.signal.aborted) {
+        return;
+      }
+      job = queued;
+      await this.jobs.save({
+        ...job,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+      });
+      this.evaluationEventsService.publish(id, {
+        type: 'status',
+        status: 'running',
+      });
+
+      let sources: Array<{ path: string; content: string }> = [];
+      const track = this.metricsService.trackEvaluation();
+      const result = await this.evaluateService.evaluate(job.request, {
+        signal: controller.signal,
+        onProgress: (event) => {
+          track(event);
+          this.evaluationEventsService.publish(id, event);
+        },
+        onSources: (files) => (sources = files),
+        archivePath: job.archive ? this.archivePath(id) : undefined,
+      });
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const submission = await this.submissionsService.record(
+        job.request,
+        result,
+        id,
+      );
+      if (sources.length > 0) {
+        await this.recordSimilarity(submission, sources);
+      }
+      const completed: EvaluationJob = {
+        ...(await this.findOne(id)),
+        status: 'completed',
+        result,
+        submissionId: submission.id,
+        finishedAt: new Date().toISOString(),
+      };
+      await this.jobs.save(completed);
+      this.finishEvents(completed);
+      await this.notifyWebhooks(completed);
+      this.logger.log(
+        `Evaluation job ${id} completed. Score: ${result.totalScore}/${result.maxScore}`,
+      );
+    } catch (error) {
+      // cancel() has already recorded the job as cancelled
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      const message = (error as Error).message || 'Unknown error';
+      this.logger.error(`Evaluation job ${id} failed: ${message}`);
+      const failed: EvaluationJob = {
+        ...(await this.findOne(id)),
+        status: 'failed',
+        error: message,
+        finishedAt: new Date().toISOString(),
+      };
+      await this.jobs.save(failed);
+      this.finishEvents(failed);
+      await this.notifyWebhooks(failed);
+    } finally {
+      if (job) {
+        await this.discardArchive(job);
+      }
+    }
+  }
+
+  private archivePath(id: string): string {
+    return path.join(this.storageService.directory('uploads'), `${id}.zip`);
+  }
+
+  private async discardArchive(job: EvaluationJob): Promise<void> {
+    if (job.archive) {
+      await fs.remove(this.archivePath(job.id));
+    }
+  }
+
+  // Similarity detection must never fail an otherwise completed evaluation
+  private async recordSimilarity(
+    submission: Submission,
+    sources: Array<{ path: string; content: string }>,
+  ): Promise<void> {
+    try {
+      await this.similarityService.record(submission, sources);
+    } catch (error) {
+      this.logger.warn(
+        `Similarity check for submission ${submission.id} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  // Neither can webhooks, which are retried on their own
+  private async notifyWebhooks(job: EvaluationJob): Promise<void> {
+    try {
+      await this.webhookDeliveriesService.dispatch(job);
+    } catch (error) {
+      this.logger.warn(
+        `Queueing webhooks for evaluation job ${job.id} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private finishEvents(job: EvaluationJob): void {
+    this.metricsService.recordJob(job.status);
+    this.evaluationEventsService.publish(job.id, {
+      type: 'status',
+      status: job.status,
+      result: job.result,
+      error: job.error,
+    });
+    this.evaluationEventsService.complete(job.id);
+  }
+}
@@ -0,0 +1,49 @@
+import { parseDartAnalyzerMachineOutput } from './dart-analyzer.parser';
+
+describe('parseDartAnalyzerMachineOutput', () => {
+  const root = '/tmp/repo';
+
+  it('should parse each diagnostic line', () => {
+    const output = [
+      'Analyzing repo...',
+      "ERROR|COMPILE_TIME_ERROR|UNDEFINED_IDENTIFIER|/tmp/repo/lib/main.dart|12|5|3|Undefined name 'foo'.",
+      "INFO|LINT|PREFER_CONST_CONSTRUCTORS|/tmp/repo/lib/home.dart|4|10|8|Use 'const' with the constructor to improve performance.",
+    ].join('\n');
+
+    expect(parseDartAnalyzerMachineOutput(output, root)).toEqual([
+      {
+        severity: 'error',
+        code: 'undefined_identifier',
+        file: 'lib/main.dart',
+        line: 12,
+        column: 5,
+        message: "Undefined name 'foo'.",
+      },
+      {
+        severity: 'info',
+        code: 'prefer_const_constructors',
+        file: 'lib/home.dart',
+        line: 4,
+        column: 10,
+        message: "Use 'const' with the constructor to improve performance.",
+      },
+    ]);
+  });
+
+  it('should unescape separators inside the message', () => {
+    const output =
+      'WARNING|STATIC_WARNING|DEAD_CODE|/tmp/repo/lib/a.dart|1|1|1|a \\| b \\\\ c';
+
+    const [diagnostic] = parseDartAnalyzerMachineOutput(output, root);
+
+    expect(diagnostic.severity).toBe('warning');
+    expect(diagnostic.message).toBe('a | b \\ c');
+  });
+
+  it('should not mistake prose mentioning errors for diagnostics', () => {
+    const output =
+      '// error • this comment is not a diagnostic\nNo issues found!';
+
+    expect(parseDartAnalyzerMachineOutput(output, root)).toEqual([]);
+  });
+});
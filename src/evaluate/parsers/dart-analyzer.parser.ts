@@ -0,0 +1,67 @@
+import {
+  AnalyzerDiagnostic,
+  DiagnosticSeverity,
+} from '../dto/evaluate-response.dto';
+import { relativePath } from './relative-path';
+
+const SEVERITIES: Record<string, DiagnosticSeverity> = {
+  ERROR: 'error',
+  WARNING: 'warning',
+  INFO: 'info',
+};
+
+/**
+ * Parses `dart analyze --format=machine` output, one diagnostic per line:
+ * `SEVERITY|TYPE|CODE|FILE|LINE|COLUMN|LENGTH|MESSAGE`. File paths are made
+ * relative to `rootDir`; any other line is ignored.
+ */
+export function parseDartAnalyzerMachineOutput(
+  output: string,
+  rootDir: string,
+): AnalyzerDiagnostic[] {
+  const diagnostics: AnalyzerDiagnostic[] = [];
+
+  for (const line of output.split('\n')) {
+    const fields = splitFields(line.trim());
+    if (fields.length < 8) {
+      continue;
+    }
+
+    const [severity, , code, file, lineNumber, column, , ...message] = fields;
+    if (!(severity in SEVERITIES)) {
+      continue;
+    }
+
+    diagnostics.push({
+      severity: SEVERITIES[severity],
+      code: code.toLowerCase(),
+      file: relativePath(file, rootDir),
+      line: Number(lineNumber),
+      column: Number(column),
+      message: message.join('|'),
+    });
+  }
+
+  return diagnostics;
+}
+
+// The analyzer escapes `|` and `\` inside fields with a backslash
+function splitFields(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\' && i + 1 < line.length) {
+      current += line[++i];
+    } else if (char === '|') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
@@ -0,0 +1,108 @@
+import { parseFlutterTestMachineOutput } from './flutter-test.parser';
+
+describe('parseFlutterTestMachineOutput', () => {
+  const events = [
+    { type: 'start', protocolVersion: '0.1.1', time: 0 },
+    { type: 'suite', suite: { id: 0, path: 'test/widget_test.dart' }, time: 1 },
+    {
+      type: 'testStart',
+      test: { id: 1, name: 'loading test/widget_test.dart', suiteID: 0 },
+      time: 2,
+    },
+    { type: 'testDone', testID: 1, result: 'success', hidden: true, time: 40 },
+    {
+      type: 'testStart',
+      test: { id: 3, name: 'adds a todo', suiteID: 0 },
+      time: 41,
+    },
+    { type: 'testDone', testID: 3, result: 'success', hidden: false, time: 90 },
+    {
+      type: 'testStart',
+      test: { id: 4, name: 'deletes a todo', suiteID: 0 },
+      time: 91,
+    },
+    {
+      type: 'error',
+      testID: 4,
+      error: 'Expected: <0>\n  Actual: <1>',
+      isFailure: true,
+      time: 120,
+    },
+    {
+      type: 'testDone',
+      testID: 4,
+      result: 'failure',
+      hidden: false,
+      time: 121,
+    },
+    {
+      type: 'testStart',
+      test: { id: 5, name: 'syncs todos', suiteID: 0 },
+      time: 122,
+    },
+    {
+      type: 'testDone',
+      testID: 5,
+      result: 'success',
+      skipped: true,
+      hidden: false,
+      time: 123,
+    },
+    { type: 'done', success: false, time: 130 },
+  ];
+  const output = [
+    'Resolving dependencies...',
+    ...events.map((event) => JSON.stringify(event)),
+  ].join('\n');
+
+  it('should report every visible test with its outcome', () => {
+    const report = parseFlutterTestMachineOutput(output, '/tmp/repo');
+
+    expect(report).toMatchObject({
+      total: 3,
+      passed: 1,
+      failed: 1,
+      skipped: 1,
+    });
+    expect(report.tests[0]).toEqual({
+      name: 'adds a todo',
+      file: 'test/widget_test.dart',
+      status: 'passed',
+      durationMs: 49,
+      error: undefined,
+    });
+    expect(report.tests[1]).toMatchObject({
+      name: 'deletes a todo',
+      status: 'failed',
+      error: 'Expected: <0>\n  Actual: <1>',
+    });
+    expect(report.tests[2].status).toBe('skipped');
+  });
+
+  it('should report no tests for output without events', () => {
+    expect(
+      parseFlutterTestMachineOutput('Test directory not found', '/tmp/repo'),
+    ).toEqual({
+      total: 0,
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      tests: [],
+    });
+  });
+
+  it('should report test files relative to the repository', () => {
+    const report = parseFlutterTestMachineOutput(
+      [
+        { type: 'suite', suite: { id: 0, path: '/tmp/repo/test/a_test.dart' } },
+        { type: 'testStart', test: { id: 1, name: 'works', suiteID: 0 } },
+        { type: 'testDone', testID: 1, result: 'success', hidden: false },
+      ]
+        .map((event) => JSON.stringify(event))
+        .join('\n'),
+      '/tmp/repo/',
+    );
+
+    expect(report.tests[0].file).toBe('test/a_test.dart');
+  });
+});
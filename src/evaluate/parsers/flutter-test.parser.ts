@@ -0,0 +1,122 @@
+import { TestCaseResult, TestReport } from '../dto/evaluate-response.dto';
+import { relativePath } from './relative-path';
+
+// Error messages are trimmed to keep responses small
+const MAX_ERROR_LENGTH = 500;
+
+interface MachineEvent {
+  type?: string;
+  time?: number;
+  suite?: { id: number; path?: string };
+  test?: { id: number; name: string; suiteID: number; url?: string | null };
+  testID?: number;
+  result?: 'success' | 'failure' | 'error';
+  skipped?: boolean;
+  hidden?: boolean;
+  error?: string;
+}
+
+interface PendingTest {
+  name: string;
+  file?: string;
+  startedAt: number;
+  errors: string[];
+}
+
+/**
+ * Turns the JSON event stream of `flutter test --machine` into per-test
+ * results. Suite paths are made relative to `rootDir`; lines that are not JSON
+ * events (build output, prints) are ignored.
+ */
+export function parseFlutterTestMachineOutput(
+  output: string,
+  rootDir: string,
+): TestReport {
+  const suites = new Map<number, string | undefined>();
+  const pending = new Map<number, PendingTest>();
+  const tests: TestCaseResult[] = [];
+
+  for (const line of output.split('\n')) {
+    const event = parseEvent(line);
+    if (!event) {
+      continue;
+    }
+
+    switch (event.type) {
+      case 'suite':
+        if (event.suite) {
+          suites.set(
+            event.suite.id,
+            event.suite.path && relativePath(event.suite.path, rootDir),
+          );
+        }
+        break;
+      case 'testStart':
+        if (event.test) {
+          pending.set(event.test.id, {
+            name: event.test.name,
+            file: suites.get(event.test.suiteID),
+            startedAt: event.time ?? 0,
+            errors: [],
+          });
+        }
+        break;
+      case 'error':
+        if (event.testID !== undefined && event.error) {
+          pending.get(event.testID)?.errors.push(event.error);
+        }
+        break;
+      case 'testDone': {
+        const test =
+          event.testID === undefined ? undefined : pending.get(event.testID);
+        // Hidden tests are the runner's synthetic "loading <file>" entries
+        if (!test || event.hidden) {
+          break;
+        }
+        tests.push({
+          name: test.name,
+          file: test.file,
+          status: event.skipped ? 'skipped' : toStatus(event.result),
+          durationMs: Math.max((event.time ?? 0) - test.startedAt, 0),
+          error: test.errors.length
+            ? test.errors.join('\n').substring(0, MAX_ERROR_LENGTH)
+            : undefined,
+        });
+        break;
+      }
+    }
+  }
+
+  return {
+    total: tests.length,
+    passed: tests.filter((test) => test.status === 'passed').length,
+    failed: tests.filter(
+      (test) => test.status === 'failed' || test.status === 'error',
+    ).length,
+    skipped: tests.filter((test) => test.status === 'skipped').length,
+    tests,
+  };
+}
+
+function parseEvent(line: string): MachineEvent | undefined {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{')) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(trimmed) as MachineEvent;
+  } catch {
+    return undefined;
+  }
+}
+
+function toStatus(result: MachineEvent['result']): TestCaseResult['status'] {
+  switch (result) {
+    case 'success':
+      return 'passed';
+    case 'failure':
+      return 'failed';
+    default:
+      return 'error';
+  }
+}
@@ -0,0 +1,56 @@
+import { parseLlmEvaluationReply } from './llm-reply.parser';
+
+describe('parseLlmEvaluationReply', () => {
+  const reply = {
+    score: 7.5,
+    summary: 'Solid app',
+    strengths: ['Clear widgets'],
+    weaknesses: [],
+    recommendations: 'Add tests',
+  };
+
+  it('should accept a reply matching the schema', () => {
+    expect(parseLlmEvaluationReply(JSON.stringify(reply), 10).reply).toEqual(
+      reply,
+    );
+  });
+
+  it('should accept a reply inside a markdown code block', () => {
+    const content = `Here you go:\n\`\`\`json\n${JSON.stringify(reply)}\n\`\`\``;
+
+    expect(parseLlmEvaluationReply(content, 10).reply?.score).toBe(7.5);
+  });
+
+  it('should report malformed JSON', () => {
+    expect(parseLlmEvaluationReply('{"score": 8,', 10).errors).toEqual([
+      expect.stringMatching(/^reply is not valid JSON/),
+    ]);
+  });
+
+  it('should report fields that break the schema', () => {
+    const { errors } = parseLlmEvaluationReply(
+      JSON.stringify({
+        ...reply,
+        score: '8',
+        strengths: 'Clear widgets',
+        grade: 'A',
+      }),
+      10,
+    );
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/^score must be a number/),
+        'strengths must be an array',
+        'property grade should not exist',
+      ]),
+    );
+  });
+
+  it('should reject scores above the maximum', () => {
+    expect(
+      parseLlmEvaluationReply(JSON.stringify({ ...reply, score: 12 }), 10)
+        .errors,
+    ).toEqual(['score must not be greater than 10']);
+  });
+});
@@ -0,0 +1,42 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { LlmEvaluationReply } from '../dto/llm-evaluation-reply.dto';
+
+export type LlmReplyParseResult =
+  | { reply: LlmEvaluationReply; errors?: undefined }
+  | { reply?: undefined; errors: string[] };
+
+/**
+ * Validates a grading reply against {@link LlmEvaluationReply}: a single JSON
+ * object, optionally inside a markdown code block, with no other fields and a
+ * score of at most `maxScore`. Returns the problems found otherwise, worded
+ * so they can be sent back to the model.
+ */
+export function parseLlmEvaluationReply(
+  content: string,
+  maxScore: number,
+): LlmReplyParseResult {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(content);
+  const json = (fenced ? fenced[1] : content).trim();
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { errors: [`reply is not valid JSON: ${(error as Error).message}`] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { errors: ['reply must be a single JSON object'] };
+  }
+
+  const reply = plainToInstance(LlmEvaluationReply, parsed);
+  const errors = validateSync(reply, {
+    whitelist: true,
+    forbidNonWhitelisted: true,
+  }).flatMap((error) => Object.values(error.constraints ?? {}));
+  if (typeof reply.score === 'number' && reply.score > maxScore) {
+    errors.push(`score must not be greater than ${maxScore}`);
+  }
+
+  return errors.length > 0 ? { errors } : { reply };
+}
@@ -0,0 +1,11 @@
+/**
+ * Strips `rootDir` from a path the Dart tools reported, so responses do not
+ * reveal where the repository was cloned. Other paths are kept as they are.
+ */
+export function relativePath(file: string, rootDir: string): string {
+  const root = rootDir.replace(/[\\/]+$/, '');
+  if (file.startsWith(`${root}/`) || file.startsWith(`${root}\\`)) {
+    return file.substring(root.length + 1).replace(/\\/g, '/');
+  }
+  return file;
+}
@@ -0,0 +1,69 @@
+import { checkSdkConstraints, readSdkConstraints } from './sdk-constraints';
+
+describe('sdk-constraints', () => {
+  const flutter324 = { flutter: '3.24.3', dart: '3.5.3' };
+
+  it('should read the environment constraints of a pubspec', () => {
+    const pubspec = [
+      'name: todo',
+      'environment:',
+      "  sdk: '>=3.4.0 <4.0.0'",
+      '  flutter: ">=3.22.0"',
+      'dependencies:',
+      '  flutter:',
+      '    sdk: flutter',
+    ].join('\n');
+
+    expect(readSdkConstraints(pubspec)).toEqual({
+      sdk: '>=3.4.0 <4.0.0',
+      flutter: '>=3.22.0',
+    });
+    expect(readSdkConstraints('name: todo\n')).toEqual({});
+    expect(() => readSdkConstraints('name: [todo\n')).toThrow();
+  });
+
+  it('should report each constraint the SDK does not satisfy', () => {
+    expect(
+      checkSdkConstraints({ sdk: '^3.6.0', flutter: '>=3.27.0' }, flutter324),
+    ).toEqual({
+      satisfied: false,
+      problems: [
+        'pubspec.yaml requires Dart SDK ^3.6.0, but the Flutter 3.24.3 SDK ships Dart 3.5.3',
+        'pubspec.yaml requires Flutter >=3.27.0, but the grader uses Flutter 3.24.3',
+      ],
+    });
+    expect(
+      checkSdkConstraints({ sdk: '>=3.0.0 <4.0.0' }, flutter324).satisfied,
+    ).toBe(true);
+    expect(checkSdkConstraints({ sdk: 'any' }, flutter324).satisfied).toBe(
+      true,
+    );
+  });
+
+  it('should apply the leniencies of pub', () => {
+    // Null-safe Dart 2 packages are allowed on Dart 3
+    expect(
+      checkSdkConstraints({ sdk: '>=2.12.0 <3.0.0' }, flutter324).satisfied,
+    ).toBe(true);
+    expect(
+      checkSdkConstraints({ sdk: '>=2.7.0 <3.0.0' }, flutter324).satisfied,
+    ).toBe(false);
+    // The upper bound of the Flutter constraint is ignored
+    expect(
+      checkSdkConstraints({ flutter: '>=3.0.0 <3.10.0' }, flutter324).satisfied,
+    ).toBe(true);
+    // Pre-release SDKs count as their version
+    expect(
+      checkSdkConstraints(
+        { sdk: '^3.5.0' },
+        { flutter: '3.27.0-0.1.pre', dart: '3.6.0-216.1.beta' },
+      ).satisfied,
+    ).toBe(true);
+  });
+
+  it('should leave malformed constraints to pub get', () => {
+    expect(
+      checkSdkConstraints({ sdk: 'three', flutter: '>=x' }, flutter324),
+    ).toEqual({ satisfied: true, problems: [] });
+  });
+});
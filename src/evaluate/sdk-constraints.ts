@@ -0,0 +1,108 @@
+import { parse } from 'yaml';
+import * as semver from 'semver';
+
+export interface SdkConstraints {
+  // environment.sdk, the Dart SDK constraint
+  sdk?: string;
+  // environment.flutter
+  flutter?: string;
+}
+
+export interface SdkVersions {
+  flutter: string;
+  dart: string;
+}
+
+export interface ConstraintCheck {
+  satisfied: boolean;
+  // Why the constraints are not satisfied, one entry per violated constraint
+  problems: string[];
+}
+
+/**
+ * Reads the SDK constraints from the `environment` section of a pubspec.
+ * Throws when the pubspec is not valid YAML.
+ */
+export function readSdkConstraints(pubspec: string): SdkConstraints {
+  const document: unknown = parse(pubspec);
+  const environment =
+    document && typeof document === 'object' && 'environment' in document
+      ? document.environment
+      : undefined;
+  if (!environment || typeof environment !== 'object') {
+    return {};
+  }
+
+  const constraint = (key: string) => {
+    const value = (environment as Record<string, unknown>)[key];
+    return typeof value === 'string' || typeof value === 'number'
+      ? String(value).trim()
+      : undefined;
+  };
+  return { sdk: constraint('sdk'), flutter: constraint('flutter') };
+}
+
+/**
+ * Checks the constraints the way `pub get` does: a Dart constraint of at least
+ * 2.12 with an upper bound of 3.0.0 also allows Dart 3, and only the lower
+ * bound of the Flutter constraint is enforced.
+ */
+export function checkSdkConstraints(
+  constraints: SdkConstraints,
+  versions: SdkVersions,
+): ConstraintCheck {
+  const problems: string[] = [];
+
+  // Malformed constraints are left to `pub get`, which explains them itself
+  const sdkRange = constraints.sdk && toRange(constraints.sdk);
+  if (sdkRange && !satisfies(versions.dart, dart3Compatible(sdkRange))) {
+    problems.push(
+      `pubspec.yaml requires Dart SDK ${constraints.sdk}, but the Flutter ${versions.flutter} SDK ships Dart ${versions.dart}`,
+    );
+  }
+
+  const flutterRange = constraints.flutter && toRange(constraints.flutter);
+  const minimum = flutterRange && semver.minVersion(flutterRange);
+  if (minimum && !satisfies(versions.flutter, `>=${minimum.version}`)) {
+    problems.push(
+      `pubspec.yaml requires Flutter ${constraints.flutter}, but the grader uses Flutter ${versions.flutter}`,
+    );
+  }
+
+  return { satisfied: problems.length === 0, problems };
+}
+
+// Pub constraints read as semver ranges, apart from `any`
+function toRange(constraint: string): semver.Range | undefined {
+  try {
+    return new semver.Range(constraint === 'any' ? '*' : constraint, {
+      includePrerelease: true,
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function dart3Compatible(range: semver.Range): semver.Range {
+  const minimum = semver.minVersion(range);
+  const widened = range.set.map((comparators) =>
+    comparators
+      .map((comparator) =>
+        comparator.operator === '<' &&
+        comparator.semver.version === '3.0.0' &&
+        minimum &&
+        semver.gte(minimum, '2.12.0')
+          ? '<4.0.0'
+          : comparator.value,
+      )
+      .join(' '),
+  );
+  return new semver.Range(widened.join(' || '), { includePrerelease: true });
+}
+
+function satisfies(version: string, range: semver.Range | string): boolean {
+  const parsed = semver.coerce(version, { includePrerelease: true });
+  return (
+    !!parsed && semver.satisfies(parsed, range, { includePrerelease: true })
+  );
+}
@@ -0,0 +1,23 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+} from 'class-validator';
+
+export class RegisterRepositoryDto {
+  @IsString()
+  @IsNotEmpty()
+  studentId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @IsUrl({}, { message: 'repoUrl must be a valid URL' })
+  repoUrl: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^(?!-)[\w./-]+$/, { message: 'branch must be a branch name' })
+  branch?: string;
+}
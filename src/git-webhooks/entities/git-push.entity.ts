@@ -0,0 +1,29 @@
+export const GIT_PROVIDERS = ['github', 'gitlab', 'gitea'] as const;
+export type GitProvider = (typeof GIT_PROVIDERS)[number];
+
+// 'late' pushes arrived after the assignment's deadline and were not graded
+export type PushOutcome = 'queued' | 'ignored' | 'late' | 'rejected';
+
+export class PushEvaluation {
+  registrationId: string;
+  assignmentId: string;
+  studentId: string;
+  outcome: PushOutcome;
+  jobId?: string;
+  reason?: string;
+}
+
+// A verified push event and what was done about it
+export class GitPush {
+  id: string;
+  provider: GitProvider;
+  event: string;
+  repoUrl?: string;
+  branch?: string;
+  commitSha?: string;
+  // One per registration of the pushed repository
+  evaluations: PushEvaluation[];
+  // Why nothing was queued, when the push was not looked at any further
+  reason?: string;
+  receivedAt: string;
+}
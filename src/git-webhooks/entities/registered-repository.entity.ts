@@ -0,0 +1,10 @@
+// A student's repository for an assignment, graded whenever it is pushed to
+export class RegisteredRepository {
+  id: string;
+  assignmentId: string;
+  studentId: string;
+  repoUrl: string;
+  // Only pushes to this branch are graded; defaults to the default branch
+  branch?: string;
+  createdAt: string;
+}
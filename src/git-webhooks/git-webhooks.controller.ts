@@ -0,0 +1,38 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import type { IncomingHttpHeaders } from 'http';
+import { GitWebhooksService } from './git-webhooks.service';
+import { GitPush } from './entities/git-push.entity';
+import { Public } from '../auth/decorators/public.decorator';
+
+@Controller('webhooks/git')
+export class GitWebhooksController {
+  constructor(private readonly gitWebhooksService: GitWebhooksService) {}
+
+  // Authenticated by the webhook secret instead of an API key
+  @Post()
+  @Public()
+  @HttpCode(HttpStatus.ACCEPTED)
+  receive(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers() headers: IncomingHttpHeaders,
+    @Body() payload: unknown,
+  ): Promise<GitPush> {
+    return this.gitWebhooksService.receive(headers, request.rawBody, payload);
+  }
+
+  @Get('pushes')
+  findAll(): Promise<GitPush[]> {
+    return this.gitWebhooksService.findAll();
+  }
+}
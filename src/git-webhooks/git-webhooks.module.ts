@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { EvaluateModule } from '../evaluate/evaluate.module';
+import { AuthModule } from '../auth/auth.module';
+import { RepositoriesService } from './repositories.service';
+import { GitWebhooksService } from './git-webhooks.service';
+import { RepositoriesController } from './repositories.controller';
+import { GitWebhooksController } from './git-webhooks.controller';
+
+@Module({
+  imports: [StorageModule, AssignmentsModule, EvaluateModule, AuthModule],
+  controllers: [RepositoriesController, GitWebhooksController],
+  providers: [RepositoriesService, GitWebhooksService],
+})
+export class GitWebhooksModule {}
@@ -0,0 +1,143 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GitWebhooksService } from './git-webhooks.service';
+import { RepositoriesService } from './repositories.service';
+import { StorageService } from '../storage/storage.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { EvaluateService } from '../evaluate/evaluate.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { RateLimitService } from '../auth/rate-limit.service';
+
+describe('GitWebhooksService', () => {
+  let service: GitWebhooksService;
+  let repositoriesService: RepositoriesService;
+  let dataDir: string;
+  const secret = 'push-secret';
+  const sha = '3f9c2e1d8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e';
+  const assignmentsService = { findOne: jest.fn() };
+  const evaluationQueueService = { enqueue: jest.fn() };
+
+  const githubPush = (ref = 'refs/heads/main') => {
+    const payload = {
+      ref,
+      after: sha,
+      deleted: false,
+      repository: {
+        clone_url: 'https://github.com/Amira/todo.git',
+        html_url: 'https://github.com/Amira/todo',
+        default_branch: 'main',
+      },
+    };
+    const rawBody = Buffer.from(JSON.stringify(payload));
+    const headers = {
+      'x-github-event': 'push',
+      'x-hub-signature-256': `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`,
+    };
+    return { headers, rawBody, payload };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'git-webhooks-'));
+    assignmentsService.findOne.mockResolvedValue({
+      id: 'todo',
+      deadline: '2999-01-01T00:00:00.000Z',
+    });
+    evaluationQueueService.enqueue.mockResolvedValue({ id: 'job-1' });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GitWebhooksService,
+        RepositoriesService,
+        StorageService,
+        RateLimitService,
+        { provide: AssignmentsService, useValue: assignmentsService },
+        {
+          provide: EvaluateService,
+          useValue: { validateRequest: jest.fn() },
+        },
+        { provide: EvaluationQueueService, useValue: evaluationQueueService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            DATA_DIR: dataDir,
+            GIT_WEBHOOK_SECRET: secret,
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<GitWebhooksService>(GitWebhooksService);
+    repositoriesService = module.get<RepositoriesService>(RepositoriesService);
+    await repositoriesService.register('todo', {
+      studentId: '221JMT4512',
+      repoUrl: 'https://github.com/amira/todo',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should queue the pushed commit for the registered student', async () => {
+    const { headers, rawBody, payload } = githubPush();
+
+    const push = await service.receive(headers, rawBody, payload);
+
+    expect(evaluationQueueService.enqueue).toHaveBeenCalledWith({
+      repoUrl: 'https://github.com/amira/todo',
+      assignmentId: 'todo',
+      studentId: '221JMT4512',
+      ref: 'main',
+      commit: sha,
+    });
+    expect(push.evaluations).toEqual([
+      expect.objectContaining({ outcome: 'queued', jobId: 'job-1' }),
+    ]);
+    await expect(service.findAll()).resolves.toMatchObject([{ id: push.id }]);
+  });
+
+  it('should refuse unsigned or tampered requests', async () => {
+    const { headers, payload } = githubPush();
+
+    await expect(
+      service.receive(headers, Buffer.from('{}'), payload),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(evaluationQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should flag pushes after the deadline without grading them', async () => {
+    assignmentsService.findOne.mockResolvedValue({
+      id: 'todo',
+      deadline: '2025-01-31T23:59:00.000Z',
+    });
+    const { headers, rawBody, payload } = githubPush();
+
+    const push = await service.receive(headers, rawBody, payload);
+
+    expect(push.evaluations).toEqual([
+      expect.objectContaining({
+        outcome: 'late',
+        reason: 'Pushed after the deadline (2025-01-31T23:59:00.000Z)',
+      }),
+    ]);
+    expect(evaluationQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should only grade pushes to the graded branch', async () => {
+    const { headers, rawBody, payload } = githubPush('refs/heads/wip');
+
+    const push = await service.receive(headers, rawBody, payload);
+
+    expect(push.evaluations).toEqual([
+      expect.objectContaining({
+        outcome: 'ignored',
+        reason: 'Only pushes to main are graded',
+      }),
+    ]);
+  });
+});
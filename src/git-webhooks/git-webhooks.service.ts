@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { RateLimitService } from '../auth/rate-limit.service';
+import { RepositoriesService } from './repositories.service';
+import { RegisteredRepository } from './entities/registered-repository.entity';
+import {
+  GitProvider,
+  GitPush,
+  PushEvaluation,
+} from './entities/git-push.entity';
+import {
+  PushEvent,
+  detectProvider,
+  eventName,
+  isPushEvent,
+  parsePush,
+  verifyPushSignature,
+} from './push-payload';
+
+/**
+ * Grades registered repositories when they are pushed to. Every verified
+ * event is logged with what was queued for it, or why nothing was.
+ */
+@Injectable()
+export class GitWebhooksService {
+  private readonly logger = new Logger(GitWebhooksService.name);
+  private readonly pushes: JsonCollection<GitPush>;
+  private readonly secret?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly assignmentsService: AssignmentsService,
+    private readonly repositoriesService: RepositoriesService,
+    private readonly evaluationQueueService: EvaluationQueueService,
+    private readonly rateLimitService: RateLimitService,
+  ) {
+    this.pushes = this.storageService.collection<GitPush>('git-pushes');
+    this.secret =
+      this.configService.get<string>('GIT_WEBHOOK_SECRET') || undefined;
+  }
+
+  /**
+   * Verifies a GitHub, GitLab or Gitea webhook request and queues an
+   * evaluation of the pushed commit for every registration of the
+   * repository. Requests are refused while GIT_WEBHOOK_SECRET is unset.
+   */
+  async receive(
+    headers: IncomingHttpHeaders,
+    rawBody: Buffer | undefined,
+    payload: unknown,
+  ): Promise<GitPush> {
+    const provider = detectProvider(headers);
+    if (!provider) {
+      throw new BadRequestException(
+        'Unsupported webhook; expected a GitHub, GitLab or Gitea event',
+      );
+    }
+    if (
+      !this.secret ||
+      !rawBody ||
+      !verifyPushSignature(provider, headers, rawBody, this.secret)
+    ) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event = eventName(provider, headers);
+    const push: GitPush = {
+      id: randomUUID(),
+      provider,
+      event,
+      evaluations: [],
+      receivedAt: new Date().toISOString(),
+    };
+    if (!isPushEvent(provider, event)) {
+      return this.log({ ...push, reason: `Not a push event: ${event}` });
+    }
+
+    const pushed = parsePush(provider, payload);
+    push.repoUrl = pushed.repoUrls[0];
+    push.branch = pushed.branch;
+    push.commitSha = pushed.commitSha;
+    if (!pushed.branch || !pushed.commitSha) {
+      return this.log({
+        ...push,
+        reason: 'Tag pushes and deleted branches are not graded',
+      });
+    }
+
+    const registrations = await this.repositoriesService.findByUrls(
+      pushed.repoUrls,
+    );
+    if (registrations.length === 0) {
+      return this.log({ ...push, reason: 'Repository is not registered' });
+    }
+    for (const registration of registrations) {
+      push.evaluations.push(
+        await this.evaluate(provider, registration, pushed, push.receivedAt),
+      );
+    }
+    return this.log(push);
+  }
+
+  async findAll(): Promise<GitPush[]> {
+    return (await this.pushes.findAll()).sort((a, b) =>
+      b.receivedAt.localeCompare(a.receivedAt),
+    );
+  }
+
+  private async evaluate(
+    provider: GitProvider,
+    registration: RegisteredRepository,
+    pushed: PushEvent,
+    receivedAt: string,
+  ): Promise<PushEvaluation> {
+    const evaluation: PushEvaluation = {
+      registrationId: registration.id,
+      assignmentId: registration.assignmentId,
+      studentId: registration.studentId,
+      outcome: 'ignored',
+    };
+    const branch = registration.branch ?? pushed.defaultBranch;
+    if (branch && pushed.branch !== branch) {
+      return { ...evaluation, reason: `Only pushes to ${branch} are graded` };
+    }
+
+    try {
+      const assignment = await this.assignmentsService.findOne(
+        registration.assignmentId,
+      );
+      // The push time is ours; commit dates are set by the student
+      if (
+        assignment.deadline &&
+        new Date(receivedAt) > new Date(assignment.deadline)
+      ) {
+        return {
+          ...evaluation,
+          outcome: 'late',
+          reason: `Pushed after the deadline (${assignment.deadline})`,
+        };
+      }
+
+      this.rateLimitService.consumeSubmission({
+        id: `${provider}-webhook`,
+        role: 'student',
+        studentId: registration.studentId,
+      });
+      const job = await this.evaluationQueueService.enqueue({
+        repoUrl: registration.repoUrl,
+        assignmentId: registration.assignmentId,
+        studentId: registration.studentId,
+        ref: pushed.branch,
+        commit: pushed.commitSha,
+      });
+      return { ...evaluation, outcome: 'queued', jobId: job.id };
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      return {
+        ...evaluation,
+        outcome: 'rejected',
+        reason: error.message,
+      };
+    }
+  }
+
+  private async log(push: GitPush): Promise<GitPush> {
+    await this.pushes.save(push);
+    const queued = push.evaluations.filter(
+      (evaluation) => evaluation.outcome === 'queued',
+    ).length;
+    this.logger.log(
+      `Received ${push.provider} ${push.event} event for ${push.repoUrl ?? 'unknown repository'}: ${queued} evaluation(s) queued${push.reason ? ` (${push.reason})` : ''}`,
+    );
+    return push;
+  }
+}
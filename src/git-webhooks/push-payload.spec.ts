@@ -0,0 +1,85 @@
+import { createHmac } from 'crypto';
+import { detectProvider, parsePush, verifyPushSignature } from './push-payload';
+
+describe('push payloads', () => {
+  const secret = 'push-secret';
+  const body = Buffer.from('{"ref":"refs/heads/main"}');
+  const hmac = (key: string) =>
+    createHmac('sha256', key).update(body).digest('hex');
+  const sha = '3f9c2e1d8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e';
+
+  it('should verify each provider its own way', () => {
+    expect(
+      verifyPushSignature(
+        'github',
+        { 'x-hub-signature-256': `sha256=${hmac(secret)}` },
+        body,
+        secret,
+      ),
+    ).toBe(true);
+    expect(
+      verifyPushSignature(
+        'github',
+        { 'x-hub-signature-256': `sha256=${hmac('other')}` },
+        body,
+        secret,
+      ),
+    ).toBe(false);
+    expect(
+      verifyPushSignature(
+        'gitea',
+        { 'x-gitea-signature': hmac(secret) },
+        body,
+        secret,
+      ),
+    ).toBe(true);
+    expect(
+      verifyPushSignature('gitlab', { 'x-gitlab-token': secret }, body, secret),
+    ).toBe(true);
+    expect(verifyPushSignature('gitlab', {}, body, secret)).toBe(false);
+  });
+
+  it('should tell Gitea apart from the GitHub headers it also sends', () => {
+    expect(
+      detectProvider({ 'x-github-event': 'push', 'x-gitea-event': 'push' }),
+    ).toBe('gitea');
+    expect(detectProvider({ 'x-gitlab-event': 'Push Hook' })).toBe('gitlab');
+    expect(detectProvider({})).toBeUndefined();
+  });
+
+  it('should read GitHub and GitLab pushes', () => {
+    expect(
+      parsePush('github', {
+        ref: 'refs/heads/main',
+        after: sha,
+        deleted: false,
+        repository: {
+          clone_url: 'https://github.com/amira/todo.git',
+          html_url: 'https://github.com/amira/todo',
+          default_branch: 'main',
+        },
+      }),
+    ).toEqual({
+      repoUrls: [
+        'https://github.com/amira/todo.git',
+        'https://github.com/amira/todo',
+      ],
+      branch: 'main',
+      commitSha: sha,
+      defaultBranch: 'main',
+    });
+
+    const deleted = parsePush('gitlab', {
+      object_kind: 'push',
+      ref: 'refs/heads/feature',
+      after: '0'.repeat(40),
+      checkout_sha: null,
+      project: { git_http_url: 'https://gitlab.com/amira/todo.git' },
+    });
+    expect(deleted.branch).toBe('feature');
+    expect(deleted.commitSha).toBeUndefined();
+
+    const tag = parsePush('gitea', { ref: 'refs/tags/v1.0', after: sha });
+    expect(tag.branch).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { GitProvider } from './entities/git-push.entity';
+
+// The parts of a push event needed to grade it
+export interface PushEvent {
+  // Every URL the provider gives for the repository
+  repoUrls: string[];
+  // Undefined for tag pushes
+  branch?: string;
+  // Undefined when the branch was deleted
+  commitSha?: string;
+  defaultBranch?: string;
+}
+
+// GitHub and Gitea send the same push payload
+interface GitHubPushPayload {
+  ref?: string;
+  after?: string;
+  deleted?: boolean;
+  repository?: {
+    clone_url?: string;
+    html_url?: string;
+    default_branch?: string;
+  };
+}
+
+interface GitLabPushPayload {
+  object_kind?: string;
+  ref?: string;
+  after?: string;
+  checkout_sha?: string | null;
+  project?: {
+    git_http_url?: string;
+    web_url?: string;
+    default_branch?: string;
+  };
+}
+
+const PUSH_EVENTS: Record<GitProvider, string> = {
+  github: 'push',
+  gitlab: 'Push Hook',
+  gitea: 'push',
+};
+
+/**
+ * Tells the provider from its event header. Gitea also sends GitHub's
+ * headers, so it is checked first.
+ */
+export function detectProvider(
+  headers: IncomingHttpHeaders,
+): GitProvider | undefined {
+  if (header(headers, 'x-gitea-event')) {
+    return 'gitea';
+  }
+  if (header(headers, 'x-gitlab-event')) {
+    return 'gitlab';
+  }
+  if (header(headers, 'x-github-event')) {
+    return 'github';
+  }
+  return undefined;
+}
+
+export function eventName(
+  provider: GitProvider,
+  headers: IncomingHttpHeaders,
+): string {
+  return header(headers, `x-${provider}-event`) ?? '';
+}
+
+export function isPushEvent(provider: GitProvider, event: string): boolean {
+  return PUSH_EVENTS[provider] === event;
+}
+
+/**
+ * Checks the request came from a webhook configured with `secret`: GitHub
+ * and Gitea sign the raw body with HMAC-SHA256, GitLab sends the secret
+ * itself as a token.
+ */
+export function verifyPushSignature(
+  provider: GitProvider,
+  headers: IncomingHttpHeaders,
+  rawBody: Buffer,
+  secret: string,
+): boolean {
+  const digest = () =>
+    createHmac('sha256', secret).update(rawBody).digest('hex');
+  switch (provider) {
+    case 'github':
+      return safeEqual(
+        header(headers, 'x-hub-signature-256'),
+        `sha256=${digest()}`,
+      );
+    case 'gitea':
+      return safeEqual(header(headers, 'x-gitea-signature'), digest());
+    case 'gitlab':
+      return safeEqual(header(headers, 'x-gitlab-token'), secret);
+  }
+}
+
+export function parsePush(provider: GitProvider, payload: unknown): PushEvent {
+  const body = (payload ?? {}) as GitHubPushPayload & GitLabPushPayload;
+  const branch = body.ref?.startsWith('refs/heads/')
+    ? body.ref.slice('refs/heads/'.length)
+    : undefined;
+
+  if (provider === 'gitlab') {
+    return {
+      repoUrls: urls(body.project?.git_http_url, body.project?.web_url),
+      branch,
+      // GitLab leaves checkout_sha null when the branch was deleted
+      commitSha: body.checkout_sha ? commitOf(body.after) : undefined,
+      defaultBranch: body.project?.default_branch,
+    };
+  }
+  return {
+    repoUrls: urls(body.repository?.clone_url, body.repository?.html_url),
+    branch,
+    commitSha: body.deleted ? undefined : commitOf(body.after),
+    defaultBranch: body.repository?.default_branch,
+  };
+}
+
+function urls(...candidates: Array<string | undefined>): string[] {
+  return candidates.filter((url): url is string => !!url);
+}
+
+// A full SHA that is not the all-zero one of a deleted branch
+function commitOf(sha?: string): string | undefined {
+  return sha && /^[0-9a-f]{40}$/i.test(sha) && !/^0+$/.test(sha)
+    ? sha
+    : undefined;
+}
+
+function header(
+  headers: IncomingHttpHeaders,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Compares digests so neither the length nor the content leaks through timing
+function safeEqual(actual: string | undefined, expected: string): boolean {
+  if (actual === undefined) {
+    return false;
+  }
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(actual), hash(expected));
+}
@@ -0,0 +1,49 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { RepositoriesService } from './repositories.service';
+import { RegisterRepositoryDto } from './dto/register-repository.dto';
+import { RegisteredRepository } from './entities/registered-repository.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentPrincipal } from '../auth/decorators/current-principal.decorator';
+import { assertOwnWork } from '../auth/access';
+import { Principal } from '../auth/entities/principal.entity';
+
+@Controller('assignments/:assignmentId/repositories')
+export class RepositoriesController {
+  constructor(private readonly repositoriesService: RepositoriesService) {}
+
+  @Post()
+  @Roles('instructor', 'ta', 'student')
+  register(
+    @Param('assignmentId') assignmentId: string,
+    @Body() registerDto: RegisterRepositoryDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<RegisteredRepository> {
+    assertOwnWork(principal, registerDto.studentId);
+    return this.repositoriesService.register(assignmentId, registerDto);
+  }
+
+  @Get()
+  findAll(
+    @Param('assignmentId') assignmentId: string,
+  ): Promise<RegisteredRepository[]> {
+    return this.repositoriesService.findAll(assignmentId);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @Param('assignmentId') assignmentId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.repositoriesService.remove(assignmentId, id);
+  }
+}
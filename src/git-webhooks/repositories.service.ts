@@ -0,0 +1,91 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { EvaluateService } from '../evaluate/evaluate.service';
+import { RegisterRepositoryDto } from './dto/register-repository.dto';
+import { RegisteredRepository } from './entities/registered-repository.entity';
+import { normalizeRepoUrl } from '../common/repo-url';
+
+@Injectable()
+export class RepositoriesService {
+  private readonly logger = new Logger(RepositoriesService.name);
+  private readonly repositories: JsonCollection<RegisteredRepository>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly evaluateService: EvaluateService,
+  ) {
+    this.repositories = this.storageService.collection<RegisteredRepository>(
+      'registered-repositories',
+    );
+  }
+
+  /**
+   * Registers a student's repository for an assignment so pushes to it are
+   * graded. A repository can be registered once per assignment.
+   */
+  async register(
+    assignmentId: string,
+    registerDto: RegisterRepositoryDto,
+  ): Promise<RegisteredRepository> {
+    await this.evaluateService.validateRequest({
+      repoUrl: registerDto.repoUrl,
+      assignmentId,
+      studentId: registerDto.studentId,
+    });
+
+    const key = normalizeRepoUrl(registerDto.repoUrl);
+    const existing = (await this.findAll(assignmentId)).find(
+      (repository) => normalizeRepoUrl(repository.repoUrl) === key,
+    );
+    if (existing) {
+      // Without naming the student, which would tell others who registered it
+      throw new ConflictException(
+        'Repository is already registered for this assignment',
+      );
+    }
+
+    const repository: RegisteredRepository = {
+      id: randomUUID(),
+      assignmentId,
+      studentId: registerDto.studentId,
+      repoUrl: registerDto.repoUrl,
+      branch: registerDto.branch,
+      createdAt: new Date().toISOString(),
+    };
+    await this.repositories.save(repository);
+    this.logger.log(
+      `Registered ${repository.repoUrl} of student ${repository.studentId} for assignment ${assignmentId}`,
+    );
+    return repository;
+  }
+
+  async findAll(assignmentId: string): Promise<RegisteredRepository[]> {
+    return (await this.repositories.findAll())
+      .filter((repository) => repository.assignmentId === assignmentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async remove(assignmentId: string, id: string): Promise<void> {
+    const repository = await this.repositories.findById(id);
+    if (!repository || repository.assignmentId !== assignmentId) {
+      throw new NotFoundException(`Registered repository ${id} not found`);
+    }
+    await this.repositories.remove(id);
+    this.logger.log(`Unregistered ${repository.repoUrl} from ${assignmentId}`);
+  }
+
+  // Registrations of the repository behind any of the URLs, across assignments
+  async findByUrls(urls: string[]): Promise<RegisteredRepository[]> {
+    const keys = new Set(urls.map(normalizeRepoUrl));
+    return (await this.repositories.findAll()).filter((repository) =>
+      keys.has(normalizeRepoUrl(repository.repoUrl)),
+    );
+  }
+}
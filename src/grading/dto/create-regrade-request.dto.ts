@@ -0,0 +1,7 @@
+import { IsString, Matches } from 'class-validator';
+
+export class CreateRegradeRequestDto {
+  @IsString()
+  @Matches(/\S/, { message: 'comment is required' })
+  comment: string;
+}
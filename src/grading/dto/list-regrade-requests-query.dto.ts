@@ -0,0 +1,19 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { REGRADE_REQUEST_STATUSES } from '../entities/regrade-request.entity';
+import type { RegradeRequestStatus } from '../entities/regrade-request.entity';
+
+export class ListRegradeRequestsQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  studentId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  assignmentId?: string;
+
+  @IsOptional()
+  @IsIn(REGRADE_REQUEST_STATUSES)
+  status?: RegradeRequestStatus;
+}
@@ -0,0 +1,24 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+
+export class OverrideScoreDto {
+  // Name of the check to override; the total score when omitted
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  check?: string;
+
+  @IsNumber()
+  @Min(0)
+  score: number;
+
+  @IsString()
+  @Matches(/\S/, { message: 'justification is required' })
+  justification: string;
+}
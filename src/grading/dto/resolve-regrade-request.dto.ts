@@ -0,0 +1,10 @@
+import { IsIn, IsString, Matches } from 'class-validator';
+
+export class ResolveRegradeRequestDto {
+  @IsIn(['accepted', 'rejected'])
+  status: 'accepted' | 'rejected';
+
+  @IsString()
+  @Matches(/\S/, { message: 'response is required' })
+  response: string;
+}
@@ -0,0 +1,21 @@
+export const REGRADE_REQUEST_STATUSES = [
+  'open',
+  'accepted',
+  'rejected',
+] as const;
+export type RegradeRequestStatus = (typeof REGRADE_REQUEST_STATUSES)[number];
+
+export class RegradeRequest {
+  id: string;
+  submissionId: string;
+  assignmentId: string;
+  studentId?: string;
+  comment: string;
+  status: RegradeRequestStatus;
+  requestedBy: string;
+  // The instructor's answer, once resolved
+  response?: string;
+  resolvedBy?: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { GradingController } from './grading.controller';
+import { GradingService } from './grading.service';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthService } from '../auth/auth.service';
+
+describe('GradingController', () => {
+  let controller: GradingController;
+  const gradingService = { overrideScore: jest.fn(), rerun: jest.fn() };
+  const regradeRequestsService = { create: jest.fn() };
+  const submissionsService = { findOne: jest.fn() };
+  const student = { id: 's1', role: 'student' as const, studentId: 's1' };
+
+  const guard = new AuthGuard(
+    new Reflector(),
+    new AuthService(
+      new ConfigService({
+        AUTH_API_KEYS:
+          'teacher-key:instructor,ta-key:ta,amira-key:student:221JMT4512',
+      }),
+    ),
+  );
+  const canActivate = (route: keyof GradingController, apiKey: string) => {
+    const request = {
+      headers: {},
+      header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+    };
+    return () =>
+      guard.canActivate({
+        getHandler: () => GradingController.prototype[route],
+        getClass: () => GradingController,
+        switchToHttp: () => ({ getRequest: () => request }),
+      } as unknown as ExecutionContext);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GradingController],
+      providers: [
+        { provide: GradingService, useValue: gradingService },
+        { provide: RegradeRequestsService, useValue: regradeRequestsService },
+        { provide: SubmissionsService, useValue: submissionsService },
+      ],
+    }).compile();
+
+    controller = module.get<GradingController>(GradingController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should leave overrides and reruns to instructors', () => {
+    for (const route of ['override', 'rerun'] as const) {
+      expect(canActivate(route, 'teacher-key')()).toBe(true);
+      expect(canActivate(route, 'ta-key')).toThrow(ForbiddenException);
+      expect(canActivate(route, 'amira-key')).toThrow(ForbiddenException);
+    }
+    expect(canActivate('requestRegrade', 'amira-key')()).toBe(true);
+  });
+
+  it('should let students file regrade requests for their own submissions only', async () => {
+    regradeRequestsService.create.mockResolvedValue({ id: 'r1' });
+    submissionsService.findOne.mockResolvedValue({ id: 'x', studentId: 's2' });
+
+    await expect(
+      controller.requestRegrade('x', { comment: 'Please recheck' }, student),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(regradeRequestsService.create).not.toHaveBeenCalled();
+
+    submissionsService.findOne.mockResolvedValue({ id: 'x', studentId: 's1' });
+    await expect(
+      controller.requestRegrade('x', { comment: 'Please recheck' }, student),
+    ).resolves.toEqual({ id: 'r1' });
+    expect(regradeRequestsService.create).toHaveBeenCalledWith(
+      { id: 'x', studentId: 's1' },
+      { comment: 'Please recheck' },
+      student,
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { GradingService } from './grading.service';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { OverrideScoreDto } from './dto/override-score.dto';
+import { CreateRegradeRequestDto } from './dto/create-regrade-request.dto';
+import { RegradeRequest } from './entities/regrade-request.entity';
+import { Submission } from '../submissions/entities/submission.entity';
+import { EvaluationJob } from '../evaluate/entities/evaluation-job.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentPrincipal } from '../auth/decorators/current-principal.decorator';
+import { assertOwnWork } from '../auth/access';
+import { Principal } from '../auth/entities/principal.entity';
+
+@Controller('submissions/:id')
+export class GradingController {
+  constructor(
+    private readonly gradingService: GradingService,
+    private readonly regradeRequestsService: RegradeRequestsService,
+    private readonly submissionsService: SubmissionsService,
+  ) {}
+
+  @Post('overrides')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.OK)
+  override(
+    @Param('id') id: string,
+    @Body() overrideDto: OverrideScoreDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<Submission> {
+    return this.gradingService.overrideScore(id, overrideDto, principal);
+  }
+
+  @Post('rerun')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.ACCEPTED)
+  rerun(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<EvaluationJob> {
+    return this.gradingService.rerun(id, principal);
+  }
+
+  @Post('regrade-requests')
+  @Roles('instructor', 'ta', 'student')
+  async requestRegrade(
+    @Param('id') id: string,
+    @Body() createDto: CreateRegradeRequestDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<RegradeRequest> {
+    const submission = await this.submissionsService.findOne(id);
+    assertOwnWork(principal, submission.studentId);
+    return this.regradeRequestsService.create(submission, createDto, principal);
+  }
+}
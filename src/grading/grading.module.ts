@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { SubmissionsModule } from '../submissions/submissions.module';
+import { EvaluateModule } from '../evaluate/evaluate.module';
+import { AuditModule } from '../audit/audit.module';
+import { RubricsModule } from '../rubrics/rubrics.module';
+import { GradingService } from './grading.service';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { GradingController } from './grading.controller';
+import { RegradeRequestsController } from './regrade-requests.controller';
+
+@Module({
+  imports: [
+    StorageModule,
+    SubmissionsModule,
+    EvaluateModule,
+    AuditModule,
+    RubricsModule,
+  ],
+  controllers: [GradingController, RegradeRequestsController],
+  providers: [GradingService, RegradeRequestsService],
+})
+export class GradingModule {}
@@ -0,0 +1,269 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { GradingService } from './grading.service';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { AuditService } from '../audit/audit.service';
+import { StorageService } from '../storage/storage.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { ScoringService } from '../rubrics/scoring.service';
+import { Principal } from '../auth/entities/principal.entity';
+import { Submission } from '../submissions/entities/submission.entity';
+
+describe('GradingService', () => {
+  let service: GradingService;
+  let submissionsService: SubmissionsService;
+  let auditService: AuditService;
+  let rubricsService: RubricsService;
+  let dataDir: string;
+  let submission: Submission;
+  const evaluationQueueService = { enqueue: jest.fn() };
+  const instructor: Principal = { id: 'dr-ben-salah', role: 'instructor' };
+  const sha = '3f9c2e1d8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e';
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'grading-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GradingService,
+        SubmissionsService,
+        AuditService,
+        StorageService,
+        RubricsService,
+        ScoringService,
+        { provide: EvaluationQueueService, useValue: evaluationQueueService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<GradingService>(GradingService);
+    submissionsService = module.get<SubmissionsService>(SubmissionsService);
+    auditService = module.get<AuditService>(AuditService);
+    rubricsService = module.get<RubricsService>(RubricsService);
+    submission = await submissionsService.record(
+      {
+        repoUrl: 'https://github.com/amira/todo',
+        assignmentId: 'todo',
+        studentId: '221JMT4512',
+      },
+      {
+        totalScore: 12,
+        maxScore: 20,
+        status: 'pendingReview',
+        reviewReasons: ['LLM scores disagree'],
+        checks: [
+          { name: 'Tests', passed: false, score: 0, criterionId: 'tests' },
+          {
+            name: 'LLM Code Evaluation',
+            passed: true,
+            score: 7,
+            criterionId: 'code-quality',
+          },
+          { name: 'Code Metrics', passed: true },
+          {
+            name: 'Required Files Check',
+            passed: true,
+            score: 5,
+            criterionId: 'project-structure',
+          },
+        ],
+        details: {
+          cloneSuccessful: true,
+          commitSha: sha,
+          filesValid: true,
+          pubGetSuccessful: true,
+          buildSuccessful: true,
+          testsPassed: false,
+          groqEvaluation: { score: 7, summary: 'Readable code' },
+          failedStages: ['tests'],
+        },
+      },
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should override a check score, move the total and settle the review', async () => {
+    const updated = await service.overrideScore(
+      submission.id,
+      { check: 'Tests', score: 4, justification: 'The tests fail on CI only' },
+      instructor,
+    );
+
+    expect(updated.totalScore).toBe(16);
+    expect(updated.status).toBe('graded');
+    expect(updated.result.checks[0].score).toBe(4);
+    expect(updated.overrides).toEqual([
+      expect.objectContaining({
+        check: 'Tests',
+        originalScore: 0,
+        score: 4,
+        overriddenBy: 'dr-ben-salah',
+      }),
+    ]);
+    await expect(
+      auditService.findAll({ submissionId: submission.id }),
+    ).resolves.toEqual([
+      expect.objectContaining({
+        action: 'score.overridden',
+        actor: { id: 'dr-ben-salah', role: 'instructor' },
+        note: 'The tests fail on CI only',
+        changes: [
+          { field: 'checks[Tests].score', before: 0, after: 4 },
+          { field: 'totalScore', before: 12, after: 16 },
+          { field: 'status', before: 'pendingReview', after: 'graded' },
+        ],
+      }),
+    ]);
+  });
+
+  it('should keep the LLM review score in line with its check', async () => {
+    const updated = await service.overrideScore(
+      submission.id,
+      {
+        check: 'LLM Code Evaluation',
+        score: 9,
+        justification: 'State handling is better than judged',
+      },
+      instructor,
+    );
+
+    expect(updated.totalScore).toBe(14);
+    expect(updated.result.checks[1].score).toBe(9);
+    expect(updated.result.details?.groqEvaluation?.score).toBe(9);
+  });
+
+  it('should keep the total capped when a gated stage failed', async () => {
+    const rubric = await rubricsService.create({
+      name: 'Builds first',
+      criteria: [
+        {
+          id: 'structure',
+          name: 'Structure',
+          source: 'requiredFiles',
+          weight: 5,
+        },
+        { id: 'build', name: 'Build', source: 'build', weight: 5 },
+        { id: 'quality', name: 'Quality', source: 'llm', weight: 10 },
+      ],
+      gates: [{ source: 'build', capAt: 5 }],
+    });
+    const gated = await submissionsService.record(
+      { repoUrl: 'https://github.com/amira/todo', assignmentId: 'todo' },
+      {
+        totalScore: 5,
+        maxScore: 20,
+        rubricId: rubric.id,
+        checks: [
+          {
+            name: 'Required Files Check',
+            passed: true,
+            score: 5,
+            criterionId: 'structure',
+          },
+          {
+            name: 'Build Check',
+            passed: false,
+            score: 0,
+            criterionId: 'build',
+          },
+        ],
+        details: {
+          cloneSuccessful: true,
+          filesValid: true,
+          pubGetSuccessful: true,
+          buildSuccessful: false,
+          testsPassed: false,
+          failedStages: ['build'],
+        },
+      },
+    );
+
+    const updated = await service.overrideScore(
+      gated.id,
+      {
+        check: 'Build Check',
+        score: 4,
+        justification: 'Only a generated file is missing',
+      },
+      instructor,
+    );
+
+    expect(updated.result.checks[1].score).toBe(4);
+    expect(updated.totalScore).toBe(5);
+  });
+
+  it('should keep the original score across repeated overrides', async () => {
+    await service.overrideScore(
+      submission.id,
+      { score: 15, justification: 'Late penalty waived' },
+      instructor,
+    );
+    const updated = await service.overrideScore(
+      submission.id,
+      { score: 14, justification: 'Missed a requirement' },
+      instructor,
+    );
+
+    expect(updated.totalScore).toBe(14);
+    expect(updated.overrides).toEqual([
+      expect.objectContaining({ originalScore: 12, score: 14 }),
+    ]);
+    await expect(auditService.findAll()).resolves.toHaveLength(2);
+  });
+
+  it('should refuse unscored checks and scores above the maximum', async () => {
+    await expect(
+      service.overrideScore(
+        submission.id,
+        { check: 'Tests', score: 6, justification: 'Extra tests' },
+        instructor,
+      ),
+    ).rejects.toThrow('score for "Tests" cannot exceed the 5 points of Tests');
+    await expect(
+      service.overrideScore(
+        submission.id,
+        { check: 'Code Metrics', score: 1, justification: 'Good structure' },
+        instructor,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.overrideScore(
+        submission.id,
+        { score: 21, justification: 'Bonus' },
+        instructor,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    await expect(auditService.findAll()).resolves.toEqual([]);
+  });
+
+  it('should re-run the graded commit without the cache', async () => {
+    evaluationQueueService.enqueue.mockResolvedValue({ id: 'job-2' });
+
+    await service.rerun(submission.id, instructor);
+
+    expect(evaluationQueueService.enqueue).toHaveBeenCalledWith({
+      repoUrl: 'https://github.com/amira/todo',
+      assignmentId: 'todo',
+      studentId: '221JMT4512',
+      commit: sha,
+      force: true,
+    });
+    await expect(auditService.findAll()).resolves.toEqual([
+      expect.objectContaining({
+        action: 'submission.rerun',
+        referenceId: 'job-2',
+      }),
+    ]);
+  });
+});
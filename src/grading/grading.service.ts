@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { SubmissionsService } from '../submissions/submissions.service';
+import { EvaluationQueueService } from '../evaluate/evaluation-queue.service';
+import { AuditService } from '../audit/audit.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { ScoringService } from '../rubrics/scoring.service';
+import { Principal } from '../auth/entities/principal.entity';
+import {
+  ScoreOverride,
+  Submission,
+} from '../submissions/entities/submission.entity';
+import { EvaluationJob } from '../evaluate/entities/evaluation-job.entity';
+import { AuditChange } from '../audit/entities/audit-entry.entity';
+import { OverrideScoreDto } from './dto/override-score.dto';
+
+@Injectable()
+export class GradingService {
+  private readonly logger = new Logger(GradingService.name);
+
+  constructor(
+    private readonly submissionsService: SubmissionsService,
+    private readonly evaluationQueueService: EvaluationQueueService,
+    private readonly auditService: AuditService,
+    private readonly rubricsService: RubricsService,
+    private readonly scoringService: ScoringService,
+  ) {}
+
+  /**
+   * Replaces the total score, or one scored check's score, with an
+   * instructor's. A check score is bounded by its rubric criterion's weight;
+   * the total is then added up again, still capped by the rubric's gates for
+   * the stages that failed. Overriding settles a pending review.
+   */
+  async overrideScore(
+    id: string,
+    overrideDto: OverrideScoreDto,
+    principal: Principal,
+  ): Promise<Submission> {
+    const submission = await this.submissionsService.findOne(id);
+    if (overrideDto.score > submission.maxScore) {
+      throw new BadRequestException(
+        `score cannot exceed the maximum of ${submission.maxScore}`,
+      );
+    }
+
+    const changes: AuditChange[] = [];
+    let checks = submission.result.checks;
+    let details = submission.result.details;
+    let totalScore = overrideDto.score;
+    let originalScore = submission.totalScore;
+    if (overrideDto.check !== undefined) {
+      const check = checks.find((c) => c.name === overrideDto.check);
+      if (!check) {
+        throw new NotFoundException(
+          `Submission ${id} has no check named "${overrideDto.check}"`,
+        );
+      }
+      if (!check.criterionId) {
+        throw new BadRequestException(
+          `"${check.name}" is reported for information only and has no score`,
+        );
+      }
+      const rubric = await this.rubricsService.resolve(
+        submission.result.rubricId,
+      );
+      const criterion = rubric.criteria.find((c) => c.id === check.criterionId);
+      if (!criterion) {
+        throw new BadRequestException(
+          `Rubric ${rubric.name} no longer has the criterion "${check.name}" was scored against`,
+        );
+      }
+      if (overrideDto.score > criterion.weight) {
+        throw new BadRequestException(
+          `score for "${check.name}" cannot exceed the ${criterion.weight} points of ${criterion.name}`,
+        );
+      }
+
+      originalScore = check.score ?? 0;
+      checks = checks.map((c) =>
+        c === check ? { ...c, score: overrideDto.score } : c,
+      );
+      changes.push({
+        field: `checks[${check.name}].score`,
+        before: originalScore,
+        after: overrideDto.score,
+      });
+      // The review's own score must agree with the LLM check
+      if (criterion.source === 'llm' && details?.groqEvaluation) {
+        details = {
+          ...details,
+          groqEvaluation: {
+            ...details.groqEvaluation,
+            score: overrideDto.score,
+          },
+        };
+      }
+      totalScore = Math.min(
+        this.scoringService.total(
+          rubric,
+          rubric.criteria.map(
+            (c) =>
+              checks.find((other) => other.criterionId === c.id)?.score ?? 0,
+          ),
+          details?.failedStages ?? [],
+        ).totalScore,
+        submission.maxScore,
+      );
+    }
+    if (totalScore !== submission.totalScore) {
+      changes.push({
+        field: 'totalScore',
+        before: submission.totalScore,
+        after: totalScore,
+      });
+    }
+    if (submission.status === 'pendingReview') {
+      changes.push({
+        field: 'status',
+        before: 'pendingReview',
+        after: 'graded',
+      });
+    }
+
+    // The first override of a score keeps what the pipeline gave
+    const previous = submission.overrides?.find(
+      (override) => override.check === overrideDto.check,
+    );
+    const override: ScoreOverride = {
+      check: overrideDto.check,
+      originalScore: previous?.originalScore ?? originalScore,
+      score: overrideDto.score,
+      justification: overrideDto.justification,
+      overriddenBy: principal.id,
+      overriddenAt: new Date().toISOString(),
+    };
+    const updated = await this.submissionsService.update({
+      ...submission,
+      totalScore,
+      status: 'graded',
+      result: {
+        ...submission.result,
+        totalScore,
+        status: 'graded',
+        checks,
+        details,
+      },
+      overrides: [
+        ...(submission.overrides ?? []).filter(
+          (existing) => existing !== previous,
+        ),
+        override,
+      ],
+    });
+
+    await this.auditService.record(principal, {
+      action: 'score.overridden',
+      submissionId: id,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      changes,
+      note: overrideDto.justification,
+    });
+    this.logger.log(
+      `Overrode ${overrideDto.check ?? 'the total score'} of submission ${id}`,
+    );
+    return updated;
+  }
+
+  /**
+   * Queues a fresh evaluation of the submission's commit, bypassing the result
+   * cache. It is recorded as a new submission when it completes.
+   */
+  async rerun(id: string, principal: Principal): Promise<EvaluationJob> {
+    const submission = await this.submissionsService.findOne(id);
+    if (submission.repoUrl.startsWith('upload://')) {
+      throw new BadRequestException(
+        'Uploaded projects are not kept and cannot be re-run; upload the archive again',
+      );
+    }
+    if (!submission.commitSha) {
+      throw new BadRequestException(
+        `Submission ${id} has no graded commit to re-run`,
+      );
+    }
+
+    const job = await this.evaluationQueueService.enqueue({
+      repoUrl: submission.repoUrl,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      commit: submission.commitSha,
+      force: true,
+    });
+    await this.auditService.record(principal, {
+      action: 'submission.rerun',
+      submissionId: id,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      changes: [],
+      referenceId: job.id,
+    });
+    return job;
+  }
+}
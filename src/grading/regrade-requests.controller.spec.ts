@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { RegradeRequestsController } from './regrade-requests.controller';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { AuthGuard } from '../auth/auth.guard';
+import { AuthService } from '../auth/auth.service';
+
+describe('RegradeRequestsController', () => {
+  let controller: RegradeRequestsController;
+  const regradeRequestsService = {
+    findAll: jest.fn(),
+    findOne: jest.fn(),
+    resolve: jest.fn(),
+  };
+  const student = { id: 's1', role: 'student' as const, studentId: 's1' };
+
+  const guard = new AuthGuard(
+    new Reflector(),
+    new AuthService(
+      new ConfigService({
+        AUTH_API_KEYS: 'teacher-key:instructor,amira-key:student:221JMT4512',
+      }),
+    ),
+  );
+  const canActivate = (
+    route: keyof RegradeRequestsController,
+    apiKey: string,
+  ) => {
+    const request = {
+      headers: {},
+      header: (name: string) => (name === 'x-api-key' ? apiKey : undefined),
+    };
+    return () =>
+      guard.canActivate({
+        getHandler: () => RegradeRequestsController.prototype[route],
+        getClass: () => RegradeRequestsController,
+        switchToHttp: () => ({ getRequest: () => request }),
+      } as unknown as ExecutionContext);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RegradeRequestsController],
+      providers: [
+        { provide: RegradeRequestsService, useValue: regradeRequestsService },
+      ],
+    }).compile();
+
+    controller = module.get<RegradeRequestsController>(
+      RegradeRequestsController,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should leave resolving requests to instructors', () => {
+    expect(canActivate('resolve', 'teacher-key')()).toBe(true);
+    expect(canActivate('resolve', 'amira-key')).toThrow(ForbiddenException);
+    expect(canActivate('findAll', 'amira-key')()).toBe(true);
+  });
+
+  it('should limit students to their own requests', async () => {
+    regradeRequestsService.findAll.mockResolvedValue([]);
+    regradeRequestsService.findOne.mockResolvedValue({
+      id: 'r1',
+      studentId: 's2',
+    });
+
+    await controller.findAll({}, student);
+    expect(regradeRequestsService.findAll).toHaveBeenCalledWith({
+      studentId: 's1',
+    });
+    expect(() => controller.findAll({ studentId: 's2' }, student)).toThrow(
+      ForbiddenException,
+    );
+    await expect(controller.findOne('r1', student)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      controller.findOne('r1', { id: 'ta', role: 'ta' }),
+    ).resolves.toEqual({ id: 'r1', studentId: 's2' });
+  });
+});
@@ -0,0 +1,51 @@
+import { Body, Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { ListRegradeRequestsQueryDto } from './dto/list-regrade-requests-query.dto';
+import { ResolveRegradeRequestDto } from './dto/resolve-regrade-request.dto';
+import { RegradeRequest } from './entities/regrade-request.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentPrincipal } from '../auth/decorators/current-principal.decorator';
+import { assertOwnWork, isStaff } from '../auth/access';
+import { Principal } from '../auth/entities/principal.entity';
+
+@Controller('regrade-requests')
+export class RegradeRequestsController {
+  constructor(
+    private readonly regradeRequestsService: RegradeRequestsService,
+  ) {}
+
+  // Students only ever see their own requests
+  @Get()
+  @Roles('instructor', 'ta', 'student')
+  findAll(
+    @Query() query: ListRegradeRequestsQueryDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<RegradeRequest[]> {
+    if (!isStaff(principal)) {
+      assertOwnWork(principal, query.studentId ?? principal.studentId);
+      query.studentId = principal.studentId;
+    }
+    return this.regradeRequestsService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles('instructor', 'ta', 'student')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<RegradeRequest> {
+    const request = await this.regradeRequestsService.findOne(id);
+    assertOwnWork(principal, request.studentId);
+    return request;
+  }
+
+  @Post(':id/resolve')
+  @Roles('instructor')
+  resolve(
+    @Param('id') id: string,
+    @Body() resolveDto: ResolveRegradeRequestDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<RegradeRequest> {
+    return this.regradeRequestsService.resolve(id, resolveDto, principal);
+  }
+}
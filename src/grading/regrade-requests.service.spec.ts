@@ -0,0 +1,98 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RegradeRequestsService } from './regrade-requests.service';
+import { AuditService } from '../audit/audit.service';
+import { StorageService } from '../storage/storage.service';
+import { Principal } from '../auth/entities/principal.entity';
+import { Submission } from '../submissions/entities/submission.entity';
+
+describe('RegradeRequestsService', () => {
+  let service: RegradeRequestsService;
+  let auditService: AuditService;
+  let dataDir: string;
+  const student: Principal = {
+    id: 'amira',
+    role: 'student',
+    studentId: '221JMT4512',
+  };
+  const instructor: Principal = { id: 'dr-ben-salah', role: 'instructor' };
+  const submission = {
+    id: 'sub-1',
+    assignmentId: 'todo',
+    studentId: '221JMT4512',
+  } as Submission;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'regrades-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegradeRequestsService,
+        AuditService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<RegradeRequestsService>(RegradeRequestsService);
+    auditService = module.get<AuditService>(AuditService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should allow one open request per submission', async () => {
+    const request = await service.create(
+      submission,
+      { comment: 'My tests pass locally' },
+      student,
+    );
+
+    expect(request).toMatchObject({ status: 'open', requestedBy: 'amira' });
+    await expect(
+      service.create(submission, { comment: 'Please?' }, student),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should resolve a request once and audit both steps', async () => {
+    const request = await service.create(
+      submission,
+      { comment: 'My tests pass locally' },
+      student,
+    );
+
+    const resolved = await service.resolve(
+      request.id,
+      { status: 'accepted', response: 'Regraded after a re-run' },
+      instructor,
+    );
+
+    expect(resolved).toMatchObject({
+      status: 'accepted',
+      resolvedBy: 'dr-ben-salah',
+    });
+    await expect(
+      service.resolve(
+        request.id,
+        { status: 'rejected', response: 'Changed my mind' },
+        instructor,
+      ),
+    ).rejects.toThrow(ConflictException);
+    const entries = await auditService.findAll({ submissionId: 'sub-1' });
+    expect(entries.map((entry) => entry.action)).toEqual([
+      'regrade.requested',
+      'regrade.resolved',
+    ]);
+    expect(entries[1].changes).toEqual([
+      { field: 'status', before: 'open', after: 'accepted' },
+    ]);
+    await expect(service.findAll({ status: 'open' })).resolves.toEqual([]);
+  });
+});
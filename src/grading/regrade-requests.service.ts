@@ -0,0 +1,126 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AuditService } from '../audit/audit.service';
+import { Principal } from '../auth/entities/principal.entity';
+import { Submission } from '../submissions/entities/submission.entity';
+import { CreateRegradeRequestDto } from './dto/create-regrade-request.dto';
+import { ResolveRegradeRequestDto } from './dto/resolve-regrade-request.dto';
+import { ListRegradeRequestsQueryDto } from './dto/list-regrade-requests-query.dto';
+import { RegradeRequest } from './entities/regrade-request.entity';
+
+@Injectable()
+export class RegradeRequestsService {
+  private readonly logger = new Logger(RegradeRequestsService.name);
+  private readonly requests: JsonCollection<RegradeRequest>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly auditService: AuditService,
+  ) {
+    this.requests =
+      this.storageService.collection<RegradeRequest>('regrade-requests');
+  }
+
+  // A submission has at most one open request at a time
+  async create(
+    submission: Submission,
+    createDto: CreateRegradeRequestDto,
+    principal: Principal,
+  ): Promise<RegradeRequest> {
+    const open = (await this.requests.findAll()).find(
+      (request) =>
+        request.submissionId === submission.id && request.status === 'open',
+    );
+    if (open) {
+      throw new ConflictException(
+        `Submission ${submission.id} already has an open regrade request`,
+      );
+    }
+
+    const request = await this.requests.save({
+      id: randomUUID(),
+      submissionId: submission.id,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      comment: createDto.comment,
+      status: 'open',
+      requestedBy: principal.id,
+      createdAt: new Date().toISOString(),
+    });
+    await this.auditService.record(principal, {
+      action: 'regrade.requested',
+      submissionId: submission.id,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      changes: [],
+      note: createDto.comment,
+      referenceId: request.id,
+    });
+    this.logger.log(`Regrade requested for submission ${submission.id}`);
+    return request;
+  }
+
+  async findAll(
+    query: ListRegradeRequestsQueryDto = {},
+  ): Promise<RegradeRequest[]> {
+    return (await this.requests.findAll())
+      .filter(
+        (request) =>
+          (!query.studentId || request.studentId === query.studentId) &&
+          (!query.assignmentId ||
+            request.assignmentId === query.assignmentId) &&
+          (!query.status || request.status === query.status),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async findOne(id: string): Promise<RegradeRequest> {
+    const request = await this.requests.findById(id);
+    if (!request) {
+      throw new NotFoundException(`Regrade request ${id} not found`);
+    }
+    return request;
+  }
+
+  /**
+   * Accepts or rejects an open request with a response to the student. The
+   * score itself is changed by an override or a re-run.
+   */
+  async resolve(
+    id: string,
+    resolveDto: ResolveRegradeRequestDto,
+    principal: Principal,
+  ): Promise<RegradeRequest> {
+    const request = await this.findOne(id);
+    if (request.status !== 'open') {
+      throw new ConflictException(
+        `Regrade request ${id} is already ${request.status}`,
+      );
+    }
+
+    const resolved = await this.requests.save({
+      ...request,
+      status: resolveDto.status,
+      response: resolveDto.response,
+      resolvedBy: principal.id,
+      resolvedAt: new Date().toISOString(),
+    });
+    await this.auditService.record(principal, {
+      action: 'regrade.resolved',
+      submissionId: request.submissionId,
+      assignmentId: request.assignmentId,
+      studentId: request.studentId,
+      changes: [{ field: 'status', before: 'open', after: resolveDto.status }],
+      note: resolveDto.response,
+      referenceId: id,
+    });
+    return resolved;
+  }
+}
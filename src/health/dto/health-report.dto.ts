@@ -0,0 +1,17 @@
+export type HealthStatus = 'up' | 'down';
+
+export class HealthCheck {
+  status: HealthStatus;
+  message: string;
+}
+
+export class HealthReport {
+  // `up` only when every check is
+  status: HealthStatus;
+  checks: Record<string, HealthCheck>;
+}
+
+export class LivenessReport {
+  status: 'up';
+  uptimeSeconds: number;
+}
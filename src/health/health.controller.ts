@@ -0,0 +1,26 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthReport, LivenessReport } from './dto/health-report.dto';
+import { Public } from '../auth/decorators/public.decorator';
+
+// Probed by load balancers and orchestrators, which do not send API keys
+@Controller('health')
+@Public()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  live(): LivenessReport {
+    return this.healthService.live();
+  }
+
+  // 503 with the same report when any check is down
+  @Get('ready')
+  async ready(): Promise<HealthReport> {
+    const report = await this.healthService.ready();
+    if (report.status !== 'up') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
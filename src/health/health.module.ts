@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RunnerModule } from '../runner/runner.module';
+import { LlmModule } from '../llm/llm.module';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+
+@Module({
+  imports: [RunnerModule, LlmModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
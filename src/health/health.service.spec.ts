@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { HealthService } from './health.service';
+import { CommandRunnerService } from '../runner/command-runner.service';
+import { FlutterSdkService } from '../runner/flutter-sdk.service';
+import { LLM_PROVIDER } from '../llm/llm-provider.interface';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  const commandRunner = { run: jest.fn() };
+  const llmProvider = { name: 'groq', isConfigured: jest.fn() };
+  const flutterRun = (changes = {}) => ({
+    command: 'flutter --version',
+    exitCode: 0,
+    signal: null,
+    durationMs: 900,
+    timedOut: false,
+    outputTruncated: false,
+    stdout:
+      'Flutter 3.24.3 • channel stable • https://github.com/flutter/flutter.git\nFramework • revision 2663184aa7\n',
+    stderr: '',
+    ...changes,
+  });
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        FlutterSdkService,
+        { provide: CommandRunnerService, useValue: commandRunner },
+        { provide: LLM_PROVIDER, useValue: llmProvider },
+        { provide: ConfigService, useValue: new ConfigService(config) },
+      ],
+    }).compile();
+    return module.get<HealthService>(HealthService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    llmProvider.isConfigured.mockReturnValue(true);
+    commandRunner.run.mockResolvedValue(flutterRun());
+    service = await createService({ HEALTH_MIN_FREE_DISK_MB: '0' });
+  });
+
+  it('should be ready when every check passes', async () => {
+    const report = await service.ready();
+
+    expect(report.status).toBe('up');
+    expect(report.checks.flutter.message).toBe(
+      'Flutter 3.24.3 • channel stable • https://github.com/flutter/flutter.git',
+    );
+    expect(report.checks.tempDir.status).toBe('up');
+    expect(report.checks.disk.status).toBe('up');
+  });
+
+  it('should report every failing check', async () => {
+    commandRunner.run.mockResolvedValue(
+      flutterRun({ exitCode: null, error: 'spawn flutter ENOENT' }),
+    );
+    llmProvider.isConfigured.mockReturnValue(false);
+    service = await createService({ HEALTH_MIN_FREE_DISK_MB: '1e12' });
+
+    const report = await service.ready();
+
+    expect(report.status).toBe('down');
+    expect(report.checks.flutter).toEqual({
+      status: 'down',
+      message: 'flutter --version failed: spawn flutter ENOENT',
+    });
+    expect(report.checks.disk.status).toBe('down');
+    expect(report.checks.llm).toEqual({
+      status: 'down',
+      message: 'groq is not configured',
+    });
+  });
+
+  it('should not run flutter on every probe', async () => {
+    await service.ready();
+    await service.ready();
+
+    expect(commandRunner.run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check every installed SDK', async () => {
+    const sdkDir = await fs.mkdtemp(path.join(os.tmpdir(), 'health-sdks-'));
+    const flutter = path.join(sdkDir, '3.24.3', 'bin', 'flutter');
+    await fs.outputFile(flutter, '');
+    commandRunner.run.mockImplementation((command: string) =>
+      Promise.resolve(
+        command === flutter
+          ? flutterRun({
+              command: `${flutter} --version`,
+              exitCode: 1,
+              stdout: '',
+              stderr: 'Flutter SDK is not set up',
+            })
+          : flutterRun(),
+      ),
+    );
+
+    try {
+      service = await createService({
+        HEALTH_MIN_FREE_DISK_MB: '0',
+        FLUTTER_SDK_DIRS: sdkDir,
+      });
+      const report = await service.ready();
+
+      expect(report.status).toBe('down');
+      expect(report.checks.flutter.status).toBe('up');
+      expect(report.checks['flutter@3.24.3']).toEqual({
+        status: 'down',
+        message: `${flutter} --version failed: Flutter SDK is not set up`,
+      });
+      expect(commandRunner.run).toHaveBeenCalledWith(
+        flutter,
+        ['--version'],
+        expect.objectContaining({
+          env: expect.objectContaining({
+            FLUTTER_ROOT: path.join(sdkDir, '3.24.3'),
+          }) as unknown,
+        }),
+      );
+    } finally {
+      await fs.remove(sdkDir);
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { CommandRunnerService } from '../runner/command-runner.service';
+import { FlutterSdk, FlutterSdkService } from '../runner/flutter-sdk.service';
+import { TEMP_REPOS_DIR } from '../evaluate/evaluate.service';
+import { LLM_PROVIDER } from '../llm/llm-provider.interface';
+import type { LlmProvider } from '../llm/llm-provider.interface';
+import {
+  HealthCheck,
+  HealthReport,
+  LivenessReport,
+} from './dto/health-report.dto';
+
+const DEFAULT_MIN_FREE_DISK_MB = 2048;
+const FLUTTER_TIMEOUT_MS = 60 * 1000;
+// `flutter --version` takes seconds, so its result is reused between probes
+const FLUTTER_CHECK_TTL_MS = 60 * 1000;
+
+/**
+ * Whether the server can grade: every Flutter SDK an assignment may select
+ * runs, clones can be written
+ * and have room, and the LLM provider is configured.
+ */
+@Injectable()
+export class HealthService {
+  private readonly minFreeDiskMb: number;
+  private flutterChecks?: {
+    checks: Record<string, HealthCheck>;
+    checkedAt: number;
+  };
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly commandRunner: CommandRunnerService,
+    private readonly flutterSdkService: FlutterSdkService,
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LlmProvider,
+  ) {
+    const configured = Number(
+      this.configService.get<string>('HEALTH_MIN_FREE_DISK_MB'),
+    );
+    this.minFreeDiskMb =
+      Number.isFinite(configured) && configured >= 0
+        ? configured
+        : DEFAULT_MIN_FREE_DISK_MB;
+  }
+
+  live(): LivenessReport {
+    return { status: 'up', uptimeSeconds: Math.round(process.uptime()) };
+  }
+
+  async ready(): Promise<HealthReport> {
+    const checks: Record<string, HealthCheck> = {
+      ...(await this.checkFlutterSdks()),
+      tempDir: await this.checkTempDir(),
+      disk: await this.checkDisk(),
+      llm: this.checkLlm(),
+    };
+    const up = Object.values(checks).every((check) => check.status === 'up');
+    return { status: up ? 'up' : 'down', checks };
+  }
+
+  /**
+   * Checks the SDK on the PATH as `flutter` and each SDK installed under
+   * FLUTTER_SDK_DIRS as `flutter@<version>`.
+   */
+  private async checkFlutterSdks(): Promise<Record<string, HealthCheck>> {
+    if (
+      this.flutterChecks &&
+      Date.now() - this.flutterChecks.checkedAt < FLUTTER_CHECK_TTL_MS
+    ) {
+      return this.flutterChecks.checks;
+    }
+
+    await fs.ensureDir(TEMP_REPOS_DIR);
+    const checks: Record<string, HealthCheck> = {
+      flutter: await this.checkFlutter(await this.flutterSdkService.resolve()),
+    };
+    for (const { version } of await this.flutterSdkService.findAll()) {
+      checks[`flutter@${version}`] = await this.checkFlutter(
+        await this.flutterSdkService.resolve(version),
+      );
+    }
+    this.flutterChecks = { checks, checkedAt: Date.now() };
+    return checks;
+  }
+
+  private async checkFlutter(sdk: FlutterSdk): Promise<HealthCheck> {
+    const run = await this.commandRunner.run(sdk.flutter, ['--version'], {
+      cwd: TEMP_REPOS_DIR,
+      timeoutMs: FLUTTER_TIMEOUT_MS,
+      env: sdk.env,
+    });
+    return run.exitCode === 0
+      ? { status: 'up', message: run.stdout.split('\n')[0].trim() }
+      : {
+          status: 'down',
+          message: `${run.command} failed: ${run.error ?? (run.timedOut ? 'timed out' : run.stderr.trim() || `exit code ${run.exitCode}`)}`,
+        };
+  }
+
+  private async checkTempDir(): Promise<HealthCheck> {
+    const probe = path.join(TEMP_REPOS_DIR, `.health-${randomUUID()}`);
+    try {
+      await fs.outputFile(probe, 'ok');
+      await fs.remove(probe);
+      return { status: 'up', message: `${TEMP_REPOS_DIR} is writable` };
+    } catch (error) {
+      return {
+        status: 'down',
+        message: `${TEMP_REPOS_DIR} is not writable: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private async checkDisk(): Promise<HealthCheck> {
+    try {
+      await fs.ensureDir(TEMP_REPOS_DIR);
+      const stats = await fs.promises.statfs(TEMP_REPOS_DIR);
+      const freeMb = Math.floor((stats.bavail * stats.bsize) / (1024 * 1024));
+      return {
+        status: freeMb >= this.minFreeDiskMb ? 'up' : 'down',
+        message: `${freeMb} MB free, at least ${this.minFreeDiskMb} MB required`,
+      };
+    } catch (error) {
+      return {
+        status: 'down',
+        message: `Free disk space is unknown: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  private checkLlm(): HealthCheck {
+    return this.llmProvider.isConfigured()
+      ? { status: 'up', message: `${this.llmProvider.name} is configured` }
+      : {
+          status: 'down',
+          message: `${this.llmProvider.name} is not configured`,
+        };
+  }
+}
@@ -0,0 +1,25 @@
+import { ConfigService } from '@nestjs/config';
+import { createLlmProvider } from './llm-provider.factory';
+
+describe('createLlmProvider', () => {
+  const create = (config: Record<string, string>) =>
+    createLlmProvider(new ConfigService(config));
+
+  it('should default to Groq and require its API key', () => {
+    expect(create({}).name).toBe('groq');
+    expect(create({}).isConfigured()).toBe(false);
+    expect(create({ GROQ_API_KEY: 'key' }).isConfigured()).toBe(true);
+  });
+
+  it('should select the provider named in LLM_PROVIDER', () => {
+    expect(create({ LLM_PROVIDER: 'openai' }).name).toBe('openai');
+    expect(create({ LLM_PROVIDER: 'ollama' }).name).toBe('ollama');
+    expect(create({ LLM_PROVIDER: 'mock' }).name).toBe('mock');
+  });
+
+  it('should reject an unknown provider', () => {
+    expect(() => create({ LLM_PROVIDER: 'bard' })).toThrow(
+      /Unknown LLM_PROVIDER/,
+    );
+  });
+});
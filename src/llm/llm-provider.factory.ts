@@ -0,0 +1,70 @@
+import { ConfigService } from '@nestjs/config';
+import { LlmProvider } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { OllamaProvider } from './providers/ollama.provider';
+import { MockLlmProvider } from './providers/mock.provider';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  RetryingLlmProvider,
+} from './providers/retrying.provider';
+import { InstrumentedLlmProvider } from './providers/instrumented.provider';
+import { MetricsService } from '../metrics/metrics.service';
+
+export const LLM_PROVIDER_NAMES = ['groq', 'openai', 'ollama', 'mock'] as const;
+
+// Each attempt is measured, so retried requests show up in the metrics
+export function createLlmProvider(
+  configService: ConfigService,
+  metricsService?: MetricsService,
+): LlmProvider {
+  const maxRetries = Number(configService.get<string>('LLM_MAX_RETRIES'));
+  const base = createBaseProvider(configService);
+  return new RetryingLlmProvider(
+    metricsService ? new InstrumentedLlmProvider(base, metricsService) : base,
+    {
+      ...DEFAULT_RETRY_OPTIONS,
+      maxRetries:
+        Number.isInteger(maxRetries) && maxRetries >= 0
+          ? maxRetries
+          : DEFAULT_RETRY_OPTIONS.maxRetries,
+    },
+  );
+}
+
+function createBaseProvider(configService: ConfigService): LlmProvider {
+  const name = configService.get<string>('LLM_PROVIDER') ?? 'groq';
+  const model = configService.get<string>('LLM_MODEL');
+
+  switch (name) {
+    case 'groq':
+      return new OpenAiCompatibleProvider({
+        name: 'groq',
+        baseUrl: 'https://api.groq.com/openai/v1',
+        apiKey: configService.get<string>('GROQ_API_KEY'),
+        defaultModel: model ?? 'openai/gpt-oss-120b',
+        maxTokensField: 'max_completion_tokens',
+        requiresApiKey: true,
+      });
+    case 'openai':
+      return new OpenAiCompatibleProvider({
+        name: 'openai',
+        baseUrl:
+          configService.get<string>('LLM_BASE_URL') ??
+          'https://api.openai.com/v1',
+        apiKey: configService.get<string>('LLM_API_KEY'),
+        defaultModel: model ?? 'gpt-4o-mini',
+      });
+    case 'ollama':
+      return new OllamaProvider(
+        configService.get<string>('OLLAMA_BASE_URL') ??
+          'http://localhost:11434',
+        model ?? 'llama3.1',
+      );
+    case 'mock':
+      return new MockLlmProvider(configService.get<string>('LLM_MOCK_FIXTURE'));
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${name}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`,
+      );
+  }
+}
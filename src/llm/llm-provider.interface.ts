@@ -0,0 +1,26 @@
+export const LLM_PROVIDER = Symbol('LLM_PROVIDER');
+
+export interface LlmCompletionRequest {
+  prompt: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
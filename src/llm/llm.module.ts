@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LLM_PROVIDER } from './llm-provider.interface';
+import { createLlmProvider } from './llm-provider.factory';
+import { MetricsModule } from '../metrics/metrics.module';
+import { MetricsService } from '../metrics/metrics.service';
+
+@Module({
+  imports: [MetricsModule],
+  providers: [
+    {
+      provide: LLM_PROVIDER,
+      useFactory: createLlmProvider,
+      inject: [ConfigService, MetricsService],
+    },
+  ],
+  exports: [LLM_PROVIDER],
+})
+export class LlmModule {}
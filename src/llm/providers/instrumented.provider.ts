@@ -0,0 +1,46 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+import { MetricsService } from '../../metrics/metrics.service';
+
+/**
+ * Reports the latency, outcome and token usage of another provider's
+ * requests to the metrics.
+ */
+export class InstrumentedLlmProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.name = provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const started = Date.now();
+    try {
+      const completion = await this.provider.complete(request);
+      this.metricsService.recordLlmRequest(
+        this.name,
+        Date.now() - started,
+        true,
+        completion.usage,
+      );
+      return completion;
+    } catch (error) {
+      this.metricsService.recordLlmRequest(
+        this.name,
+        Date.now() - started,
+        false,
+      );
+      throw error;
+    }
+  }
+}
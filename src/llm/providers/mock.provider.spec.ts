@@ -0,0 +1,40 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { MockLlmProvider } from './mock.provider';
+
+describe('MockLlmProvider', () => {
+  let fixtureDir: string;
+
+  beforeEach(async () => {
+    fixtureDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-fixture-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(fixtureDir);
+  });
+
+  it('should answer with the first rule matching the prompt', async () => {
+    const fixturePath = path.join(fixtureDir, 'fixture.json');
+    await fs.writeJson(fixturePath, [
+      { match: 'Weather', response: { score: 4, summary: 'weather' } },
+      { response: { score: 9, summary: 'fallback' } },
+    ]);
+    const provider = new MockLlmProvider(fixturePath);
+
+    const weather = await provider.complete({ prompt: 'Weather app' });
+    const todo = await provider.complete({ prompt: 'Todo app' });
+
+    expect(JSON.parse(weather.content)).toEqual({
+      score: 4,
+      summary: 'weather',
+    });
+    expect(JSON.parse(todo.content)).toEqual({ score: 9, summary: 'fallback' });
+  });
+
+  it('should fall back to a fixed reply without a fixture', async () => {
+    const completion = await new MockLlmProvider().complete({ prompt: 'x' });
+
+    expect(JSON.parse(completion.content)).toMatchObject({ score: 0 });
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from 'fs-extra';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+export interface MockFixtureRule {
+  // Regular expression tested against the prompt; omitted means "always"
+  match?: string;
+  response: unknown;
+}
+
+const DEFAULT_RESPONSE = {
+  score: 0,
+  summary: 'Mock evaluation (no fixture configured)',
+  strengths: [],
+  weaknesses: [],
+  recommendations: '',
+};
+
+/**
+ * Deterministic offline provider. Replies come from a JSON fixture file that
+ * holds either a single response or a list of rules matched against the
+ * prompt in order.
+ */
+export class MockLlmProvider implements LlmProvider {
+  readonly name = 'mock';
+  private rules: MockFixtureRule[] | null = null;
+
+  constructor(private readonly fixturePath?: string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const rules = await this.loadRules();
+    const rule = rules.find(
+      (candidate) =>
+        !candidate.match || new RegExp(candidate.match).test(request.prompt),
+    );
+    const response = rule?.response ?? DEFAULT_RESPONSE;
+
+    return {
+      content:
+        typeof response === 'string' ? response : JSON.stringify(response),
+      model: request.model ?? 'mock',
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+
+  private async loadRules(): Promise<MockFixtureRule[]> {
+    if (this.rules) {
+      return this.rules;
+    }
+    if (!this.fixturePath) {
+      this.rules = [];
+      return this.rules;
+    }
+
+    const fixture = (await fs.readJson(this.fixturePath)) as unknown;
+    this.rules = Array.isArray(fixture)
+      ? (fixture as MockFixtureRule[])
+      : [{ response: fixture }];
+    return this.rules;
+  }
+}
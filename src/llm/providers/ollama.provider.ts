@@ -0,0 +1,64 @@
+import axios from 'axios';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+interface OllamaChatResponse {
+  model?: string;
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * A local Ollama server through its native /api/chat endpoint.
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'ollama';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly defaultModel: string,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.defaultModel;
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = request.model ?? this.defaultModel;
+    const response = await axios.post<OllamaChatResponse>(
+      `${this.baseUrl.replace(/\/+$/, '')}/api/chat`,
+      {
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      },
+      {
+        // Local models are slower than hosted ones
+        timeout: 180000, // 3 minutes timeout
+        signal: request.signal,
+      },
+    );
+
+    const content = response.data.message?.content;
+    if (!content) {
+      throw new Error('No response from Ollama');
+    }
+
+    return {
+      content,
+      model: response.data.model ?? model,
+      usage: {
+        promptTokens: response.data.prompt_eval_count,
+        completionTokens: response.data.eval_count,
+      },
+    };
+  }
+}
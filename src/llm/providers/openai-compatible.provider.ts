@@ -0,0 +1,82 @@
+import axios from 'axios';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+export interface OpenAiCompatibleProviderOptions {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  defaultModel: string;
+  // Groq expects max_completion_tokens; most other servers expect max_tokens
+  maxTokensField?: 'max_tokens' | 'max_completion_tokens';
+  requiresApiKey?: boolean;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: Groq, OpenAI,
+ * vLLM, llama.cpp's server, LM Studio and so on.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private readonly options: OpenAiCompatibleProviderOptions) {
+    this.name = options.name;
+  }
+
+  isConfigured(): boolean {
+    return (
+      !!this.options.baseUrl &&
+      (!this.options.requiresApiKey || !!this.options.apiKey)
+    );
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = request.model ?? this.options.defaultModel;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+
+    const response = await axios.post<ChatCompletionResponse>(
+      `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      {
+        messages: [{ role: 'user', content: request.prompt }],
+        model,
+        temperature: request.temperature,
+        [this.options.maxTokensField ?? 'max_tokens']: request.maxTokens,
+        top_p: 1,
+        stream: false,
+      },
+      {
+        headers,
+        timeout: 60000, // 60 seconds timeout
+        signal: request.signal,
+      },
+    );
+
+    const content = response.data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.name} API`);
+    }
+
+    return {
+      content,
+      model: response.data.model ?? model,
+      usage: {
+        promptTokens: response.data.usage?.prompt_tokens,
+        completionTokens: response.data.usage?.completion_tokens,
+      },
+    };
+  }
+}
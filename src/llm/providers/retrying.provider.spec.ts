@@ -0,0 +1,71 @@
+import { AxiosError, AxiosResponse, CanceledError } from 'axios';
+import { LlmProvider } from '../llm-provider.interface';
+import { isTransientError, RetryingLlmProvider } from './retrying.provider';
+
+describe('RetryingLlmProvider', () => {
+  const options = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+  const httpError = (status: number) =>
+    new AxiosError(
+      `Request failed with status code ${status}`,
+      undefined,
+      undefined,
+      undefined,
+      { status, headers: {} } as AxiosResponse,
+    );
+
+  const providerFailing = (...errors: Error[]) => {
+    const complete = jest.fn();
+    for (const error of errors) {
+      complete.mockRejectedValueOnce(error);
+    }
+    complete.mockResolvedValue({ content: '{}', model: 'm' });
+    const provider: LlmProvider = {
+      name: 'groq',
+      isConfigured: () => true,
+      complete,
+    };
+    return { provider, complete };
+  };
+
+  it('should retry transient failures', async () => {
+    const { provider, complete } = providerFailing(
+      httpError(503),
+      httpError(429),
+    );
+
+    await expect(
+      new RetryingLlmProvider(provider, options).complete({ prompt: 'p' }),
+    ).resolves.toEqual({ content: '{}', model: 'm' });
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    const { provider, complete } = providerFailing(
+      httpError(500),
+      httpError(500),
+      httpError(500),
+    );
+
+    await expect(
+      new RetryingLlmProvider(provider, options).complete({ prompt: 'p' }),
+    ).rejects.toThrow(/500/);
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors', async () => {
+    const { provider, complete } = providerFailing(httpError(401));
+
+    await expect(
+      new RetryingLlmProvider(provider, options).complete({ prompt: 'p' }),
+    ).rejects.toThrow(/401/);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should classify errors', () => {
+    expect(isTransientError(new AxiosError('Network Error'))).toBe(true);
+    expect(isTransientError(httpError(502))).toBe(true);
+    expect(isTransientError(httpError(400))).toBe(false);
+    expect(isTransientError(new CanceledError())).toBe(false);
+    expect(isTransientError(new Error('No response'))).toBe(false);
+  });
+});
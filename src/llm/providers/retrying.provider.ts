@@ -0,0 +1,88 @@
+import { Logger } from '@nestjs/common';
+import axios from 'axios';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+} from '../llm-provider.interface';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Retries another provider's transient failures (network errors, timeouts,
+ * 429 and 5xx responses) with exponential backoff, honouring Retry-After.
+ */
+export class RetryingLlmProvider implements LlmProvider {
+  readonly name: string;
+  private readonly logger = new Logger(RetryingLlmProvider.name);
+
+  constructor(
+    private readonly provider: LlmProvider,
+    private readonly options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  ) {
+    this.name = provider.name;
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.provider.complete(request);
+      } catch (error) {
+        if (
+          attempt >= this.options.maxRetries ||
+          !isTransientError(error) ||
+          request.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        const delay = this.delayFor(error, attempt);
+        this.logger.warn(
+          `${this.name} request failed (${(error as Error).message}), retrying in ${delay}ms`,
+        );
+        await sleep(delay, undefined, { signal: request.signal });
+      }
+    }
+  }
+
+  private delayFor(error: unknown, attempt: number): number {
+    const retryAfter = axios.isAxiosError(error)
+      ? Number(error.response?.headers['retry-after'])
+      : NaN;
+    const delay =
+      Number.isFinite(retryAfter) && retryAfter >= 0
+        ? retryAfter * 1000
+        : // Jitter keeps parallel evaluations from retrying in lockstep
+          this.options.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+    return Math.round(Math.min(delay, this.options.maxDelayMs));
+  }
+}
+
+/**
+ * Whether a failed request may succeed when repeated: the server was
+ * unreachable, timed out, throttled us or failed on its side.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return (
+    status === undefined || status === 408 || status === 429 || status >= 500
+  );
+}
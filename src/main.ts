@@ -1,16 +1,27 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  
-  // Enable CORS
-  app.enableCors({
-    origin: true,
-    credentials: true,
+  // Git webhooks are verified against the exact bytes that were signed
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
   });
 
+  // Hidden test suites are uploaded as JSON and can exceed the 100kb default
+  app.useBodyParser('json', { limit: '10mb' });
+
+  // Browsers may only call the API from the listed origins; credentials are
+  // sent as headers, so cookies are never needed
+  const origins = (process.env.CORS_ORIGINS ?? '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  if (origins.length > 0) {
+    app.enableCors({ origin: origins });
+  }
+
   // Enable global validation
   app.useGlobalPipes(
     new ValidationPipe({
@@ -22,4 +33,4 @@ async function bootstrap() {
 
   await app.listen(process.env.PORT ?? 3000);
 }
-bootstrap();
+void bootstrap();
@@ -0,0 +1,67 @@
+import { MetricsService } from './metrics.service';
+import { InstrumentedLlmProvider } from '../llm/providers/instrumented.provider';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('should time stages and count their checks', async () => {
+    const track = service.trackEvaluation();
+    track({ type: 'stage-started', stage: 'build' });
+    track({
+      type: 'stage-finished',
+      stage: 'build',
+      check: { name: 'Build', passed: false },
+    });
+    service.recordJob('completed');
+    service.setQueueDepth(3, 2);
+    service.recordCleanupFailure();
+
+    const metrics = await service.registry.metrics();
+    expect(metrics).toContain(
+      'grader_stage_duration_seconds_count{stage="build"} 1',
+    );
+    expect(metrics).toContain(
+      'grader_stage_results_total{stage="build",result="failed"} 1',
+    );
+    expect(metrics).toContain('grader_jobs_total{status="completed"} 1');
+    expect(metrics).toContain('grader_queue_depth{state="queued"} 3');
+    expect(metrics).toContain('grader_cleanup_failures_total 1');
+    expect(metrics).toContain('process_cpu_seconds_total');
+  });
+
+  it('should record LLM latency and token usage', async () => {
+    const complete = jest
+      .fn()
+      .mockResolvedValueOnce({
+        content: '{}',
+        model: 'm',
+        usage: { promptTokens: 1200, completionTokens: 300 },
+      })
+      .mockRejectedValueOnce(new Error('Request failed with status code 503'));
+    const provider = new InstrumentedLlmProvider(
+      { name: 'groq', isConfigured: () => true, complete },
+      service,
+    );
+
+    await provider.complete({ prompt: 'p' });
+    await expect(provider.complete({ prompt: 'p' })).rejects.toThrow('503');
+
+    const metrics = await service.registry.metrics();
+    expect(metrics).toContain(
+      'grader_llm_request_duration_seconds_count{provider="groq",outcome="success"} 1',
+    );
+    expect(metrics).toContain(
+      'grader_llm_request_duration_seconds_count{provider="groq",outcome="error"} 1',
+    );
+    expect(metrics).toContain(
+      'grader_llm_tokens_total{provider="groq",type="prompt"} 1200',
+    );
+    expect(metrics).toContain(
+      'grader_llm_tokens_total{provider="groq",type="completion"} 300',
+    );
+  });
+});
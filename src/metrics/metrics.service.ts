@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { EvaluationProgressEvent } from '../evaluate/dto/evaluation-event.dto';
+import { EvaluationJobStatus } from '../evaluate/entities/evaluation-job.entity';
+import { LlmUsage } from '../llm/llm-provider.interface';
+
+/**
+ * Prometheus metrics of the grading pipeline, kept in a registry of their
+ * own next to the default Node.js process metrics.
+ */
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  private readonly stageDuration = new Histogram({
+    name: 'grader_stage_duration_seconds',
+    help: 'Duration of each evaluation stage',
+    labelNames: ['stage'],
+    buckets: [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600],
+    registers: [this.registry],
+  });
+  private readonly stageResults = new Counter({
+    name: 'grader_stage_results_total',
+    help: 'Checks recorded by each evaluation stage, by result',
+    labelNames: ['stage', 'result'],
+    registers: [this.registry],
+  });
+  private readonly jobs = new Counter({
+    name: 'grader_jobs_total',
+    help: 'Finished evaluation jobs, by final status',
+    labelNames: ['status'],
+    registers: [this.registry],
+  });
+  private readonly queueDepth = new Gauge({
+    name: 'grader_queue_depth',
+    help: 'Evaluation jobs waiting or running',
+    labelNames: ['state'],
+    registers: [this.registry],
+  });
+  private readonly llmDuration = new Histogram({
+    name: 'grader_llm_request_duration_seconds',
+    help: 'Duration of each LLM request, retries counted separately',
+    labelNames: ['provider', 'outcome'],
+    buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [this.registry],
+  });
+  private readonly llmTokens = new Counter({
+    name: 'grader_llm_tokens_total',
+    help: 'Tokens used by LLM requests, as reported by the provider',
+    labelNames: ['provider', 'type'],
+    registers: [this.registry],
+  });
+  private readonly cleanupFailures = new Counter({
+    name: 'grader_cleanup_failures_total',
+    help: 'Workspaces that could not be removed after an evaluation',
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  /**
+   * Returns a progress listener for one evaluation that times its stages and
+   * counts the checks they record.
+   */
+  trackEvaluation(): (event: EvaluationProgressEvent) => void {
+    const started = new Map<string, number>();
+    return (event) => {
+      if (event.type === 'stage-started') {
+        started.set(event.stage, Date.now());
+      } else if (event.type === 'stage-finished') {
+        // A stage may record several checks; it is timed up to the first
+        const start = started.get(event.stage);
+        if (start !== undefined) {
+          this.stageDuration.observe(
+            { stage: event.stage },
+            (Date.now() - start) / 1000,
+          );
+          started.delete(event.stage);
+        }
+        if (event.check) {
+          this.stageResults.inc({
+            stage: event.stage,
+            result: event.check.passed ? 'passed' : 'failed',
+          });
+        }
+      }
+    };
+  }
+
+  recordJob(status: EvaluationJobStatus): void {
+    this.jobs.inc({ status });
+  }
+
+  setQueueDepth(queued: number, running: number): void {
+    this.queueDepth.set({ state: 'queued' }, queued);
+    this.queueDepth.set({ state: 'running' }, running);
+  }
+
+  recordLlmRequest(
+    provider: string,
+    durationMs: number,
+    succeeded: boolean,
+    usage?: LlmUsage,
+  ): void {
+    this.llmDuration.observe(
+      { provider, outcome: succeeded ? 'success' : 'error' },
+      durationMs / 1000,
+    );
+    if (usage?.promptTokens) {
+      this.llmTokens.inc({ provider, type: 'prompt' }, usage.promptTokens);
+    }
+    if (usage?.completionTokens) {
+      this.llmTokens.inc(
+        { provider, type: 'completion' },
+        usage.completionTokens,
+      );
+    }
+  }
+
+  recordCleanupFailure(): void {
+    this.cleanupFailures.inc();
+  }
+}
@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export const REPORT_FORMATS = ['md', 'html', 'pdf'] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export class ReportQueryDto {
+  @IsOptional()
+  @IsIn(REPORT_FORMATS)
+  format?: ReportFormat;
+}
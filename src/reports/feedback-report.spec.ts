@@ -0,0 +1,130 @@
+import { buildFeedbackReport } from './feedback-report';
+import { renderMarkdown } from './renderers/markdown.renderer';
+import { renderHtml } from './renderers/html.renderer';
+import { Submission } from '../submissions/entities/submission.entity';
+import { DEFAULT_RUBRIC } from '../rubrics/default-rubric';
+
+const gradedSubmission: Submission = {
+  id: 'sub-1',
+  assignmentId: 'todo',
+  studentId: '221JMT4512',
+  repoUrl: 'https://github.com/amira/todo',
+  commitSha: '3f9c2e1',
+  totalScore: 18,
+  maxScore: 20,
+  status: 'graded',
+  createdAt: '2025-01-30T18:42:10.000Z',
+  result: {
+    totalScore: 18,
+    maxScore: 20,
+    status: 'graded',
+    rubricId: 'default',
+    rubricVersion: 1,
+    checks: [
+      {
+        name: 'Required Files Check',
+        passed: true,
+        message: 'pubspec.yaml and lib/main.dart exist',
+        score: 5,
+        criterionId: 'project-structure',
+      },
+      {
+        name: 'Code Hygiene',
+        passed: false,
+        message: 'Uses a | pipe\nand two lines',
+        score: 0,
+      },
+    ],
+    details: {
+      cloneSuccessful: true,
+      filesValid: true,
+      pubGetSuccessful: true,
+      buildSuccessful: true,
+      testsPassed: false,
+      diagnostics: [
+        {
+          severity: 'warning',
+          code: 'unused_import',
+          file: 'lib/main.dart',
+          line: 3,
+          column: 8,
+          message: 'Unused import.',
+        },
+      ],
+      testResults: {
+        total: 2,
+        passed: 1,
+        failed: 1,
+        skipped: 0,
+        tests: [
+          {
+            name: 'adds a todo',
+            file: 'test/widget_test.dart',
+            status: 'passed',
+            durationMs: 412,
+          },
+          {
+            name: 'removes a todo',
+            file: 'test/widget_test.dart',
+            status: 'failed',
+            durationMs: 1500,
+            error: 'Expected: <0> Actual: <1>',
+          },
+        ],
+      },
+      groqEvaluation: {
+        score: 8,
+        summary: 'Solid <b>work</b>.',
+        strengths: ['Clear widget tree'],
+        weaknesses: ['No persistence'],
+        recommendations: 'Store todos with shared_preferences.',
+      },
+    },
+  },
+};
+
+describe('feedback report', () => {
+  it('should cover the rubric, checks, diagnostics, tests and review', () => {
+    const markdown = renderMarkdown(
+      buildFeedbackReport({
+        submission: gradedSubmission,
+        rubric: DEFAULT_RUBRIC,
+      }),
+    );
+
+    expect(markdown).toContain('# Feedback Report: todo');
+    expect(markdown).toContain('- Score: 18 / 20');
+    expect(markdown).toContain('| Project Structure | requiredFiles | 5 | 5 |');
+    expect(markdown).toContain(
+      '| Code Hygiene | Failed | — | Uses a \\| pipe and two lines |',
+    );
+    expect(markdown).toContain(
+      '| warning | lib/main.dart:3:8 | unused_import | Unused import. |',
+    );
+    expect(markdown).toContain('1/2 passed, 1 failed, 0 skipped.');
+    expect(markdown).toContain('- removes a todo: Expected: <0> Actual: <1>');
+    expect(markdown).toContain('### Weaknesses\n\n- No persistence');
+    expect(markdown).toContain(
+      '### Recommendations\n\nStore todos with shared_preferences.',
+    );
+  });
+
+  it('should fall back to the scored checks without the rubric', () => {
+    const markdown = renderMarkdown(
+      buildFeedbackReport({ submission: gradedSubmission }),
+    );
+
+    expect(markdown).toContain(
+      '| Criterion | Points |\n| --- | --- |\n| project-structure | 5 |',
+    );
+  });
+
+  it('should escape submission text in HTML', () => {
+    const html = renderHtml(
+      buildFeedbackReport({ submission: gradedSubmission }),
+    );
+
+    expect(html).toContain('<p>Solid &lt;b&gt;work&lt;/b&gt;.</p>');
+    expect(html).toContain('<th>Check</th>');
+  });
+});
@@ -0,0 +1,279 @@
+import { Submission } from '../submissions/entities/submission.entity';
+import { Assignment } from '../assignments/entities/assignment.entity';
+import { Rubric } from '../rubrics/entities/rubric.entity';
+import {
+  EvaluateResponseDto,
+  TestReport,
+} from '../evaluate/dto/evaluate-response.dto';
+import { ReportBlock, ReportDocument } from './report-document';
+
+// Failure messages are cut to keep the report readable
+const MAX_ERROR_CHARS = 500;
+
+export interface FeedbackReportInput {
+  submission: Submission;
+  // Missing when it was deleted since grading
+  assignment?: Assignment;
+  rubric?: Rubric;
+}
+
+/**
+ * The feedback report template: submission details, the rubric table, any
+ * instructor overrides, every check, analyzer diagnostics, test results and
+ * the LLM's review.
+ */
+export function buildFeedbackReport({
+  submission,
+  assignment,
+  rubric,
+}: FeedbackReportInput): ReportDocument {
+  const result = submission.result;
+  const title = `Feedback Report: ${assignment?.title ?? submission.assignmentId}`;
+  const blocks: ReportBlock[] = [
+    { type: 'heading', level: 1, text: title },
+    {
+      type: 'list',
+      items: [
+        `Student: ${submission.studentId ?? '—'}`,
+        `Repository: ${submission.repoUrl}`,
+        `Commit: ${submission.commitSha ?? '—'}`,
+        `Submitted: ${submission.createdAt}`,
+        `Score: ${result.totalScore} / ${result.maxScore}`,
+        `Status: ${result.status === 'pendingReview' ? 'Pending review' : 'Graded'}`,
+      ],
+    },
+  ];
+
+  if (result.status === 'pendingReview') {
+    blocks.push({
+      type: 'paragraph',
+      text: 'The score is provisional until the submission has been reviewed:',
+    });
+    blocks.push({ type: 'list', items: result.reviewReasons ?? [] });
+  }
+  if (result.summary && !result.details?.groqEvaluation) {
+    blocks.push({ type: 'paragraph', text: result.summary });
+  }
+
+  blocks.push(
+    ...rubricSection(result, rubric),
+    ...overridesSection(submission),
+    ...checksSection(result),
+    ...diagnosticsSection(result),
+    ...testsSection(result),
+    ...reviewSection(result),
+  );
+  return { title, blocks };
+}
+
+function rubricSection(
+  result: EvaluateResponseDto,
+  rubric?: Rubric,
+): ReportBlock[] {
+  const scoreOf = (criterionId: string) =>
+    result.checks.find((check) => check.criterionId === criterionId)?.score ??
+    0;
+  const blocks: ReportBlock[] = [{ type: 'heading', level: 2, text: 'Rubric' }];
+
+  if (!rubric) {
+    // Only the scored criteria are known without the rubric
+    const ids = [
+      ...new Set(result.checks.map((check) => check.criterionId)),
+    ].filter((id): id is string => !!id);
+    blocks.push({
+      type: 'table',
+      rows: [
+        ['Criterion', 'Points'],
+        ...ids.map((id) => [id, String(scoreOf(id))]),
+        ['Total', `${result.totalScore} / ${result.maxScore}`],
+      ],
+    });
+    return blocks;
+  }
+
+  if (rubric.version !== result.rubricVersion) {
+    blocks.push({
+      type: 'paragraph',
+      text: `Graded against version ${result.rubricVersion ?? '?'} of ${rubric.name}; criteria are shown as of version ${rubric.version}.`,
+    });
+  }
+  blocks.push({
+    type: 'table',
+    rows: [
+      ['Criterion', 'Source', 'Points', 'Max'],
+      ...rubric.criteria.map((criterion) => [
+        criterion.name,
+        criterion.source,
+        String(scoreOf(criterion.id)),
+        String(criterion.weight),
+      ]),
+      ['Total', '', String(result.totalScore), String(result.maxScore)],
+    ],
+  });
+  for (const gate of rubric.gates) {
+    blocks.push({
+      type: 'paragraph',
+      text: `A failed ${gate.source} check caps the total at ${gate.capAt}.`,
+    });
+  }
+  return blocks;
+}
+
+function overridesSection(submission: Submission): ReportBlock[] {
+  if (!submission.overrides?.length) {
+    return [];
+  }
+  return [
+    { type: 'heading', level: 2, text: 'Instructor Overrides' },
+    {
+      type: 'table',
+      rows: [
+        ['Score', 'Original', 'Overridden', 'Justification'],
+        ...submission.overrides.map((override) => [
+          override.check ?? 'Total',
+          String(override.originalScore),
+          String(override.score),
+          override.justification,
+        ]),
+      ],
+    },
+  ];
+}
+
+function checksSection(result: EvaluateResponseDto): ReportBlock[] {
+  return [
+    { type: 'heading', level: 2, text: 'Checks' },
+    {
+      type: 'table',
+      rows: [
+        ['Check', 'Result', 'Points', 'Message'],
+        ...result.checks.map((check) => [
+          check.name,
+          check.passed ? 'Passed' : 'Failed',
+          // Unscored checks are reported for information only
+          check.criterionId ? String(check.score ?? 0) : '—',
+          check.message ?? '',
+        ]),
+      ],
+    },
+  ];
+}
+
+function diagnosticsSection(result: EvaluateResponseDto): ReportBlock[] {
+  const diagnostics = result.details?.diagnostics;
+  const blocks: ReportBlock[] = [
+    { type: 'heading', level: 2, text: 'Analyzer Diagnostics' },
+  ];
+  if (!diagnostics) {
+    blocks.push({ type: 'paragraph', text: 'The analyzer did not run.' });
+  } else if (diagnostics.length === 0) {
+    blocks.push({ type: 'paragraph', text: 'No diagnostics were reported.' });
+  } else {
+    blocks.push({
+      type: 'table',
+      rows: [
+        ['Severity', 'Location', 'Code', 'Message'],
+        ...diagnostics.map((diagnostic) => [
+          diagnostic.severity,
+          `${diagnostic.file}:${diagnostic.line}:${diagnostic.column}`,
+          diagnostic.code,
+          diagnostic.message,
+        ]),
+      ],
+    });
+  }
+  return blocks;
+}
+
+function testsSection(result: EvaluateResponseDto): ReportBlock[] {
+  const { testResults, hiddenTestResults } = result.details ?? {};
+  const blocks: ReportBlock[] = [{ type: 'heading', level: 2, text: 'Tests' }];
+  if (!testResults) {
+    blocks.push({ type: 'paragraph', text: 'The tests did not run.' });
+  } else {
+    blocks.push(...testReport(testResults, true));
+  }
+
+  if (hiddenTestResults) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Hidden Tests' },
+      // Hidden test failures stay private, like in the API
+      ...testReport(hiddenTestResults, false),
+    );
+  }
+  return blocks;
+}
+
+function testReport(report: TestReport, withFailures: boolean): ReportBlock[] {
+  const blocks: ReportBlock[] = [
+    {
+      type: 'paragraph',
+      text: `${report.passed}/${report.total} passed, ${report.failed} failed, ${report.skipped} skipped.`,
+    },
+  ];
+  if (report.tests.length === 0) {
+    return blocks;
+  }
+
+  blocks.push({
+    type: 'table',
+    rows: [
+      ['Test', 'File', 'Status', 'Duration'],
+      ...report.tests.map((test) => [
+        test.name,
+        test.file ?? '',
+        test.status,
+        `${(test.durationMs / 1000).toFixed(2)} s`,
+      ]),
+    ],
+  });
+
+  const failures = report.tests.filter((test) => test.error);
+  if (withFailures && failures.length > 0) {
+    blocks.push({
+      type: 'list',
+      items: failures.map(
+        (test) => `${test.name}: ${truncate(test.error ?? '')}`,
+      ),
+    });
+  }
+  return blocks;
+}
+
+function reviewSection(result: EvaluateResponseDto): ReportBlock[] {
+  const review = result.details?.groqEvaluation;
+  const blocks: ReportBlock[] = [
+    { type: 'heading', level: 2, text: 'Code Review' },
+  ];
+  if (!review) {
+    blocks.push({ type: 'paragraph', text: 'No code review is available.' });
+    return blocks;
+  }
+
+  blocks.push({ type: 'paragraph', text: review.summary });
+  const lists: Array<[string, string[] | undefined]> = [
+    ['Strengths', review.strengths],
+    ['Weaknesses', review.weaknesses],
+  ];
+  for (const [heading, items] of lists) {
+    if (items?.length) {
+      blocks.push(
+        { type: 'heading', level: 3, text: heading },
+        { type: 'list', items },
+      );
+    }
+  }
+  if (review.recommendations) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Recommendations' },
+      { type: 'paragraph', text: review.recommendations },
+    );
+  }
+  return blocks;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ERROR_CHARS
+    ? `${text.slice(0, MAX_ERROR_CHARS)}…`
+    : text;
+}
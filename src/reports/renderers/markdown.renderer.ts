@@ -0,0 +1,27 @@
+import { ReportDocument } from '../report-document';
+
+export function renderMarkdown(document: ReportDocument): string {
+  const sections = document.blocks.map((block) => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'paragraph':
+        return block.text;
+      case 'list':
+        return block.items.map((item) => `- ${item}`).join('\n');
+      case 'table': {
+        const [header, ...rows] = block.rows.map(
+          (row) => `| ${row.map(tableCell).join(' | ')} |`,
+        );
+        const divider = `|${' --- |'.repeat(block.rows[0].length)}`;
+        return [header, divider, ...rows].join('\n');
+      }
+    }
+  });
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Table cells are a single line and a pipe would end the cell
+function tableCell(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|');
+}
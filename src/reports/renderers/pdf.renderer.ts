@@ -0,0 +1,77 @@
+import PDFDocument from 'pdfkit';
+import { ReportDocument } from '../report-document';
+
+const HEADING_SIZES = { 1: 18, 2: 14, 3: 12 };
+const BODY_SIZE = 10;
+const TABLE_SIZE = 9;
+
+/**
+ * Renders the report with PDFKit's built-in Helvetica, so nothing is fetched
+ * or embedded. Those fonts only cover Latin-1 and a few typographic marks;
+ * other characters, e.g. emoji, are printed as `?`.
+ */
+export function renderPdf(document: ReportDocument): Promise<Buffer> {
+  const pdf = new PDFDocument({
+    size: 'A4',
+    margin: 50,
+    info: { Title: document.title },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on('data', (chunk: Buffer) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+  });
+
+  for (const block of document.blocks) {
+    switch (block.type) {
+      case 'heading':
+        pdf
+          .moveDown(0.5)
+          .font('Helvetica-Bold')
+          .fontSize(HEADING_SIZES[block.level])
+          .text(printable(block.text))
+          .moveDown(0.3);
+        break;
+      case 'paragraph':
+        pdf
+          .font('Helvetica')
+          .fontSize(BODY_SIZE)
+          .text(printable(block.text))
+          .moveDown(0.5);
+        break;
+      case 'list':
+        pdf
+          .font('Helvetica')
+          .fontSize(BODY_SIZE)
+          .list(block.items.map(printable), { bulletRadius: 1.5 })
+          .moveDown(0.5);
+        break;
+      case 'table':
+        pdf
+          .fontSize(TABLE_SIZE)
+          .table({
+            data: block.rows.map((row, index) =>
+              row.map((cell) => ({
+                text: printable(cell),
+                font: { src: index === 0 ? 'Helvetica-Bold' : 'Helvetica' },
+                backgroundColor: index === 0 ? '#f3f3f3' : undefined,
+              })),
+            ),
+            defaultStyle: { border: 0.5, borderColor: '#cccccc' },
+          })
+          .moveDown(0.5);
+        // Tables leave the cursor at their last cell
+        pdf.x = pdf.page.margins.left;
+        break;
+    }
+  }
+
+  pdf.end();
+  return done;
+}
+
+// Keeps what the WinAnsi encoding of the standard fonts can print
+function printable(text: string): string {
+  return text.replace(/[^\t\n\x20-\x7e\xa0-\xff•–—‘’“”…€]/g, '?');
+}
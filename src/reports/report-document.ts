@@ -0,0 +1,15 @@
+/**
+ * A format-neutral document: the feedback template produces one and each
+ * renderer turns it into Markdown, HTML or PDF.
+ */
+export type ReportBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  // The first row is the header
+  | { type: 'table'; rows: string[][] };
+
+export interface ReportDocument {
+  title: string;
+  blocks: ReportBlock[];
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { RubricsModule } from '../rubrics/rubrics.module';
+import { ReportsService } from './reports.service';
+
+@Module({
+  imports: [AssignmentsModule, RubricsModule],
+  providers: [ReportsService],
+  exports: [ReportsService],
+})
+export class ReportsModule {}
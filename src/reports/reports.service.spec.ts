@@ -0,0 +1,84 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReportsService } from './reports.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { Submission } from '../submissions/entities/submission.entity';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+  const assignmentsService = { findOne: jest.fn() };
+  const rubricsService = { findOne: jest.fn() };
+  const submission: Submission = {
+    id: 'sub-1',
+    assignmentId: 'todo',
+    studentId: '221JMT4512',
+    repoUrl: 'https://github.com/amira/todo',
+    totalScore: 15,
+    maxScore: 20,
+    status: 'graded',
+    createdAt: '2025-01-30T18:42:10.000Z',
+    result: {
+      totalScore: 15,
+      maxScore: 20,
+      status: 'graded',
+      rubricId: 'default',
+      checks: [
+        {
+          name: 'Required Files Check',
+          passed: true,
+          message: 'Žemās cenas → ok',
+          score: 5,
+          criterionId: 'project-structure',
+        },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    assignmentsService.findOne.mockResolvedValue({
+      id: 'todo',
+      title: 'Todo App',
+    });
+    rubricsService.findOne.mockRejectedValue(
+      new NotFoundException('Rubric not found'),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: AssignmentsService, useValue: assignmentsService },
+        { provide: RubricsService, useValue: rubricsService },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  it('should render Markdown without a deleted rubric', async () => {
+    const report = await service.render(submission, 'md');
+
+    expect(report.contentType).toBe('text/markdown; charset=utf-8');
+    expect(report.fileName).toBe('feedback-sub-1.md');
+    expect(report.content.toString()).toContain('# Feedback Report: Todo App');
+    expect(report.content.toString()).toContain('| project-structure | 5 |');
+  });
+
+  it('should render HTML and PDF', async () => {
+    const html = await service.render(submission, 'html');
+    expect(html.content.toString()).toContain(
+      '<h1>Feedback Report: Todo App</h1>',
+    );
+
+    const pdf = await service.render(submission, 'pdf');
+    expect(pdf.contentType).toBe('application/pdf');
+    expect(pdf.content.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('should pass on other lookup errors', async () => {
+    assignmentsService.findOne.mockRejectedValue(new Error('Disk failure'));
+
+    await expect(service.render(submission, 'md')).rejects.toThrow(
+      'Disk failure',
+    );
+  });
+});
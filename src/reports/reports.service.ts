@@ -0,0 +1,74 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { RubricsService } from '../rubrics/rubrics.service';
+import { Submission } from '../submissions/entities/submission.entity';
+import { buildFeedbackReport } from './feedback-report';
+import { ReportFormat } from './dto/report-query.dto';
+import { renderMarkdown } from './renderers/markdown.renderer';
+import { renderHtml } from './renderers/html.renderer';
+import { renderPdf } from './renderers/pdf.renderer';
+
+export interface RenderedReport {
+  content: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+@Injectable()
+export class ReportsService {
+  constructor(
+    private readonly assignmentsService: AssignmentsService,
+    private readonly rubricsService: RubricsService,
+  ) {}
+
+  async render(
+    submission: Submission,
+    format: ReportFormat,
+  ): Promise<RenderedReport> {
+    const document = buildFeedbackReport({
+      submission,
+      assignment: await this.findOrSkip(
+        this.assignmentsService.findOne(submission.assignmentId),
+      ),
+      rubric: submission.result.rubricId
+        ? await this.findOrSkip(
+            this.rubricsService.findOne(submission.result.rubricId),
+          )
+        : undefined,
+    });
+    const fileName = `feedback-${submission.id}.${format}`;
+
+    switch (format) {
+      case 'md':
+        return {
+          content: Buffer.from(renderMarkdown(document)),
+          contentType: 'text/markdown; charset=utf-8',
+          fileName,
+        };
+      case 'html':
+        return {
+          content: Buffer.from(renderHtml(document)),
+          contentType: 'text/html; charset=utf-8',
+          fileName,
+        };
+      case 'pdf':
+        return {
+          content: await renderPdf(document),
+          contentType: 'application/pdf',
+          fileName,
+        };
+    }
+  }
+
+  // Assignments and rubrics deleted since grading are left out of the report
+  private async findOrSkip<T>(lookup: Promise<T>): Promise<T | undefined> {
+    try {
+      return await lookup;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { HygieneSettings, Rubric } from './entities/rubric.entity';
+
+// Used when an assignment has no rubric of its own
+export const DEFAULT_RUBRIC: Rubric = {
+  id: 'default',
+  name: 'Default Flutter rubric',
+  version: 1,
+  criteria: [
+    {
+      id: 'project-structure',
+      name: 'Project Structure',
+      source: 'requiredFiles',
+      weight: 5,
+      partialCredit: false,
+    },
+    {
+      id: 'tests',
+      name: 'Tests',
+      source: 'tests',
+      weight: 5,
+      partialCredit: true,
+    },
+    {
+      id: 'code-quality',
+      name: 'Code Quality',
+      source: 'llm',
+      weight: 10,
+      partialCredit: true,
+    },
+  ],
+  gates: [
+    { source: 'clone', capAt: 0 },
+    { source: 'requiredFiles', capAt: 0 },
+    { source: 'pubGet', capAt: 5 },
+    { source: 'build', capAt: 5 },
+  ],
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+};
+
+export const DEFAULT_HYGIENE_SETTINGS: HygieneSettings = {
+  warningPenalty: 0.1,
+  infoPenalty: 0.02,
+};
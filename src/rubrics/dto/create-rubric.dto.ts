@@ -0,0 +1,81 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { CHECK_SOURCES } from '../entities/rubric.entity';
+import type { CheckSource } from '../entities/rubric.entity';
+
+export class RubricCriterionDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(CHECK_SOURCES)
+  source: CheckSource;
+
+  @IsNumber()
+  @Min(0)
+  weight: number;
+
+  @IsOptional()
+  @IsBoolean()
+  partialCredit?: boolean;
+}
+
+export class GatingRuleDto {
+  @IsIn(CHECK_SOURCES)
+  source: CheckSource;
+
+  @IsNumber()
+  @Min(0)
+  capAt: number;
+}
+
+export class HygieneSettingsDto {
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  warningPenalty: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  infoPenalty: number;
+}
+
+export class CreateRubricDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => RubricCriterionDto)
+  criteria: RubricCriterionDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GatingRuleDto)
+  gates?: GatingRuleDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HygieneSettingsDto)
+  hygiene?: HygieneSettingsDto;
+}
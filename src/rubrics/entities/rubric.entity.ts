@@ -0,0 +1,47 @@
+/**
+ * Pipeline stages whose outcome can be scored or gated by a rubric.
+ */
+export const CHECK_SOURCES = [
+  'clone',
+  'requiredFiles',
+  'pubGet',
+  'build',
+  'hygiene',
+  'tests',
+  'requirements',
+  'llm',
+] as const;
+
+export type CheckSource = (typeof CHECK_SOURCES)[number];
+
+export class RubricCriterion {
+  id: string;
+  name: string;
+  source: CheckSource;
+  weight: number;
+  // Award weight * ratio instead of all-or-nothing when the check reports a ratio
+  partialCredit: boolean;
+}
+
+export class GatingRule {
+  // When this stage fails, the total score is capped at capAt
+  source: CheckSource;
+  capAt: number;
+}
+
+export class HygieneSettings {
+  // Fraction of the hygiene criterion lost per analyzer warning and info
+  warningPenalty: number;
+  infoPenalty: number;
+}
+
+export class Rubric {
+  id: string;
+  name: string;
+  version: number;
+  criteria: RubricCriterion[];
+  gates: GatingRule[];
+  hygiene?: HygieneSettings;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RubricsController } from './rubrics.controller';
+import { RubricsService } from './rubrics.service';
+
+describe('RubricsController', () => {
+  let controller: RubricsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RubricsController],
+      providers: [{ provide: RubricsService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<RubricsController>(RubricsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
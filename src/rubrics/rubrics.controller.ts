@@ -0,0 +1,53 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { RubricsService } from './rubrics.service';
+import { CreateRubricDto } from './dto/create-rubric.dto';
+import { UpdateRubricDto } from './dto/update-rubric.dto';
+import { Rubric } from './entities/rubric.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('rubrics')
+export class RubricsController {
+  constructor(private readonly rubricsService: RubricsService) {}
+
+  @Post()
+  @Roles('instructor')
+  create(@Body() createRubricDto: CreateRubricDto): Promise<Rubric> {
+    return this.rubricsService.create(createRubricDto);
+  }
+
+  @Get()
+  findAll(): Promise<Rubric[]> {
+    return this.rubricsService.findAll();
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string): Promise<Rubric> {
+    return this.rubricsService.findOne(id);
+  }
+
+  @Put(':id')
+  @Roles('instructor')
+  update(
+    @Param('id') id: string,
+    @Body() updateRubricDto: UpdateRubricDto,
+  ): Promise<Rubric> {
+    return this.rubricsService.update(id, updateRubricDto);
+  }
+
+  @Delete(':id')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id') id: string): Promise<void> {
+    return this.rubricsService.remove(id);
+  }
+}
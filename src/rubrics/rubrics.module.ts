@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { RubricsService } from './rubrics.service';
+import { RubricsController } from './rubrics.controller';
+import { ScoringService } from './scoring.service';
+
+@Module({
+  imports: [StorageModule],
+  controllers: [RubricsController],
+  providers: [RubricsService, ScoringService],
+  exports: [RubricsService, ScoringService],
+})
+export class RubricsModule {}
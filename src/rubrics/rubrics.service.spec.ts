@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RubricsService } from './rubrics.service';
+import { StorageService } from '../storage/storage.service';
+import { DEFAULT_RUBRIC } from './default-rubric';
+
+describe('RubricsService', () => {
+  let service: RubricsService;
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rubrics-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RubricsService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<RubricsService>(RubricsService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should resolve the default rubric when none is referenced', async () => {
+    await expect(service.resolve()).resolves.toBe(DEFAULT_RUBRIC);
+  });
+
+  it('should bump the version on update', async () => {
+    const rubric = await service.create({
+      name: 'Mobile Dev 2025',
+      criteria: [{ id: 'tests', name: 'Tests', source: 'tests', weight: 8 }],
+    });
+
+    const updated = await service.update(rubric.id, {
+      criteria: [{ id: 'tests', name: 'Tests', source: 'tests', weight: 10 }],
+    });
+
+    expect(updated.version).toBe(2);
+    expect(updated.criteria[0].weight).toBe(10);
+  });
+
+  it('should reject two criteria scoring the same check', async () => {
+    await expect(
+      service.create({
+        name: 'Broken',
+        criteria: [
+          { id: 'a', name: 'A', source: 'llm', weight: 5 },
+          { id: 'b', name: 'B', source: 'llm', weight: 5 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { DEFAULT_RUBRIC } from './default-rubric';
+import { CreateRubricDto, RubricCriterionDto } from './dto/create-rubric.dto';
+import { UpdateRubricDto } from './dto/update-rubric.dto';
+import { Rubric, RubricCriterion } from './entities/rubric.entity';
+
+@Injectable()
+export class RubricsService {
+  private readonly logger = new Logger(RubricsService.name);
+  private readonly rubrics: JsonCollection<Rubric>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.rubrics = this.storageService.collection<Rubric>('rubrics');
+  }
+
+  async create(createRubricDto: CreateRubricDto): Promise<Rubric> {
+    const now = new Date().toISOString();
+    const rubric: Rubric = {
+      id: randomUUID(),
+      name: createRubricDto.name,
+      version: 1,
+      criteria: this.toCriteria(createRubricDto.criteria),
+      gates: createRubricDto.gates ?? [],
+      hygiene: createRubricDto.hygiene,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.rubrics.save(rubric);
+    this.logger.log(`Created rubric ${rubric.id}: ${rubric.name}`);
+    return rubric;
+  }
+
+  findAll(): Promise<Rubric[]> {
+    return this.rubrics.findAll();
+  }
+
+  async findOne(id: string): Promise<Rubric> {
+    if (id === DEFAULT_RUBRIC.id) {
+      return DEFAULT_RUBRIC;
+    }
+
+    const rubric = await this.rubrics.findById(id);
+    if (!rubric) {
+      throw new NotFoundException(`Rubric ${id} not found`);
+    }
+    return rubric;
+  }
+
+  /**
+   * Returns the rubric an assignment is graded with, falling back to the
+   * built-in default when the assignment does not reference one.
+   */
+  resolve(rubricId?: string): Promise<Rubric> {
+    return this.findOne(rubricId ?? DEFAULT_RUBRIC.id);
+  }
+
+  async update(id: string, updateRubricDto: UpdateRubricDto): Promise<Rubric> {
+    if (id === DEFAULT_RUBRIC.id) {
+      throw new BadRequestException('The default rubric cannot be modified');
+    }
+
+    const existing = await this.findOne(id);
+    const updated: Rubric = {
+      ...existing,
+      name: updateRubricDto.name ?? existing.name,
+      criteria: updateRubricDto.criteria
+        ? this.toCriteria(updateRubricDto.criteria)
+        : existing.criteria,
+      gates: updateRubricDto.gates ?? existing.gates,
+      hygiene: updateRubricDto.hygiene ?? existing.hygiene,
+      // Bumped on every change so past results can be traced to the weights used
+      version: existing.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.rubrics.save(updated);
+    this.logger.log(`Updated rubric ${id} to version ${updated.version}`);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    const removed = await this.rubrics.remove(id);
+    if (!removed) {
+      throw new NotFoundException(`Rubric ${id} not found`);
+    }
+    this.logger.log(`Removed rubric ${id}`);
+  }
+
+  private toCriteria(criteria: RubricCriterionDto[]): RubricCriterion[] {
+    const ids = new Set<string>();
+    const sources = new Set<string>();
+
+    for (const criterion of criteria) {
+      if (ids.has(criterion.id)) {
+        throw new BadRequestException(
+          `Duplicate rubric criterion id: ${criterion.id}`,
+        );
+      }
+      if (sources.has(criterion.source)) {
+        throw new BadRequestException(
+          `Only one criterion may score the ${criterion.source} check`,
+        );
+      }
+      ids.add(criterion.id);
+      sources.add(criterion.source);
+    }
+
+    return criteria.map((criterion) => ({
+      id: criterion.id,
+      name: criterion.name,
+      source: criterion.source,
+      weight: criterion.weight,
+      partialCredit: criterion.partialCredit ?? false,
+    }));
+  }
+}
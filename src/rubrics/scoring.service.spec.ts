@@ -0,0 +1,82 @@
+import { ScoringService } from './scoring.service';
+import { DEFAULT_RUBRIC } from './default-rubric';
+import { Rubric } from './entities/rubric.entity';
+
+describe('ScoringService', () => {
+  const service = new ScoringService();
+
+  it('should award full marks when every check passes', () => {
+    const breakdown = service.score(DEFAULT_RUBRIC, {
+      clone: { passed: true },
+      requiredFiles: { passed: true },
+      pubGet: { passed: true },
+      build: { passed: true },
+      tests: { passed: true },
+      llm: { passed: true, ratio: 1 },
+    });
+
+    expect(breakdown.totalScore).toBe(20);
+    expect(breakdown.maxScore).toBe(20);
+    expect(breakdown.appliedGate).toBeUndefined();
+  });
+
+  it('should give partial credit proportional to the ratio', () => {
+    const breakdown = service.score(DEFAULT_RUBRIC, {
+      requiredFiles: { passed: true },
+      tests: { passed: false, ratio: 0.5 },
+      llm: { passed: true, ratio: 0.75 },
+    });
+
+    expect(breakdown.criteria.map((c) => c.score)).toEqual([5, 2.5, 7.5]);
+    expect(breakdown.totalScore).toBe(15);
+  });
+
+  it('should ignore the ratio for all-or-nothing criteria', () => {
+    const rubric: Rubric = {
+      ...DEFAULT_RUBRIC,
+      criteria: DEFAULT_RUBRIC.criteria.map((criterion) => ({
+        ...criterion,
+        partialCredit: false,
+      })),
+    };
+    const breakdown = service.score(rubric, {
+      requiredFiles: { passed: true },
+      tests: { passed: false, ratio: 0.5 },
+      llm: { passed: true, ratio: 0.75 },
+    });
+
+    expect(breakdown.criteria.map((c) => c.score)).toEqual([5, 0, 10]);
+  });
+
+  it('should cap the total when a gated check fails', () => {
+    const rubric: Rubric = {
+      ...DEFAULT_RUBRIC,
+      gates: [{ source: 'build', capAt: 3 }],
+    };
+
+    const breakdown = service.score(rubric, {
+      requiredFiles: { passed: true },
+      build: { passed: false },
+      tests: { passed: true },
+    });
+
+    expect(breakdown.totalScore).toBe(3);
+    expect(breakdown.appliedGate).toEqual({ source: 'build', capAt: 3 });
+  });
+
+  it('should take the configured penalties off the hygiene ratio', () => {
+    const rubric: Rubric = {
+      ...DEFAULT_RUBRIC,
+      hygiene: { warningPenalty: 0.25, infoPenalty: 0.05 },
+    };
+
+    expect(service.hygieneOutcome(rubric, { warnings: 2, infos: 4 })).toEqual({
+      passed: false,
+      ratio: expect.closeTo(0.3) as number,
+    });
+    expect(service.hygieneOutcome(rubric, { warnings: 0, infos: 40 })).toEqual({
+      passed: true,
+      ratio: 0,
+    });
+  });
+});
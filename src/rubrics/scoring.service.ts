@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { DEFAULT_HYGIENE_SETTINGS } from './default-rubric';
+import {
+  CHECK_SOURCES,
+  CheckSource,
+  GatingRule,
+  Rubric,
+  RubricCriterion,
+} from './entities/rubric.entity';
+
+export interface CheckOutcome {
+  passed: boolean;
+  // Fraction of the criterion earned (0..1), used when partial credit is enabled
+  ratio?: number;
+}
+
+export interface DiagnosticCounts {
+  warnings: number;
+  infos: number;
+}
+
+export type CheckOutcomes = Partial<Record<CheckSource, CheckOutcome>>;
+
+export interface CriterionScore {
+  criterionId: string;
+  name: string;
+  source: CheckSource;
+  score: number;
+  maxScore: number;
+}
+
+export interface ScoreBreakdown {
+  totalScore: number;
+  maxScore: number;
+  criteria: CriterionScore[];
+  appliedGate?: GatingRule;
+}
+
+@Injectable()
+export class ScoringService {
+  score(rubric: Rubric, outcomes: CheckOutcomes): ScoreBreakdown {
+    const criteria = rubric.criteria.map((criterion) => ({
+      criterionId: criterion.id,
+      name: criterion.name,
+      source: criterion.source,
+      score: this.scoreCriterion(criterion, outcomes[criterion.source]),
+      maxScore: criterion.weight,
+    }));
+
+    return {
+      ...this.total(
+        rubric,
+        criteria.map((c) => c.score),
+        this.failedStages(outcomes),
+      ),
+      maxScore: this.maxScore(rubric),
+      criteria,
+    };
+  }
+
+  /**
+   * Adds up criterion scores, capped by the rubric's gates for the `failed`
+   * stages. Lets scores changed after grading, e.g. by an override, still
+   * respect the gates.
+   */
+  total(
+    rubric: Rubric,
+    scores: number[],
+    failed: CheckSource[],
+  ): Pick<ScoreBreakdown, 'totalScore' | 'appliedGate'> {
+    let totalScore = this.round(scores.reduce((sum, score) => sum + score, 0));
+
+    // The most restrictive gate among the failed stages wins
+    let appliedGate: GatingRule | undefined;
+    for (const gate of rubric.gates) {
+      if (failed.includes(gate.source) && totalScore > gate.capAt) {
+        if (!appliedGate || gate.capAt < appliedGate.capAt) {
+          appliedGate = gate;
+        }
+      }
+    }
+    if (appliedGate) {
+      totalScore = appliedGate.capAt;
+    }
+
+    return { totalScore, appliedGate };
+  }
+
+  failedStages(outcomes: CheckOutcomes): CheckSource[] {
+    return CHECK_SOURCES.filter((source) => outcomes[source]?.passed === false);
+  }
+
+  /**
+   * Converts analyzer warning and info counts into a hygiene outcome, each
+   * diagnostic taking its rubric-configured penalty off a full ratio.
+   */
+  hygieneOutcome(rubric: Rubric, counts: DiagnosticCounts): CheckOutcome {
+    const { warningPenalty, infoPenalty } =
+      rubric.hygiene ?? DEFAULT_HYGIENE_SETTINGS;
+    const penalty =
+      counts.warnings * warningPenalty + counts.infos * infoPenalty;
+    return {
+      passed: counts.warnings === 0,
+      ratio: Math.max(1 - penalty, 0),
+    };
+  }
+
+  maxScore(rubric: Rubric): number {
+    return this.round(rubric.criteria.reduce((sum, c) => sum + c.weight, 0));
+  }
+
+  criterionFor(
+    rubric: Rubric,
+    source: CheckSource,
+  ): RubricCriterion | undefined {
+    return rubric.criteria.find((criterion) => criterion.source === source);
+  }
+
+  private scoreCriterion(
+    criterion: RubricCriterion,
+    outcome?: CheckOutcome,
+  ): number {
+    if (!outcome) {
+      return 0;
+    }
+
+    if (criterion.partialCredit && outcome.ratio !== undefined) {
+      const ratio = Math.min(Math.max(outcome.ratio, 0), 1);
+      return this.round(criterion.weight * ratio);
+    }
+
+    return outcome.passed ? criterion.weight : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,146 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import {
+  CommandRunnerService,
+  describeFailure,
+} from './command-runner.service';
+
+describe('CommandRunnerService', () => {
+  const cwd = os.tmpdir();
+  const node = process.execPath;
+
+  const createRunner = (config: Record<string, string> = {}) =>
+    new CommandRunnerService(new ConfigService(config));
+
+  // Killed processes may linger as zombies until reaped, which still count
+  // as gone
+  const isAlive = (pid: number) => {
+    try {
+      const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+      return !/^\d+ \(.*\) Z/.test(stat);
+    } catch {
+      return false;
+    }
+  };
+
+  it('should record the exit code, duration and output', async () => {
+    const run = await createRunner().run(
+      node,
+      ['-e', 'console.log("out"); console.error("err"); process.exit(3)'],
+      { cwd, timeoutMs: 10000 },
+    );
+
+    expect(run.exitCode).toBe(3);
+    expect(run.stdout).toBe('out\n');
+    expect(run.stderr).toBe('err\n');
+    expect(run.durationMs).toBeGreaterThanOrEqual(0);
+    expect(describeFailure(run)).toBe('exited with code 3');
+  });
+
+  it('should only pass allowlisted environment variables', async () => {
+    process.env.GROQ_API_KEY = 'secret';
+    process.env.RUNNER_SPEC_EXTRA = 'extra';
+    try {
+      const run = await createRunner({
+        RUNNER_ENV_ALLOWLIST: 'RUNNER_SPEC_EXTRA',
+      }).run(
+        node,
+        [
+          '-e',
+          'console.log(process.env.GROQ_API_KEY ?? "", process.env.RUNNER_SPEC_EXTRA)',
+        ],
+        { cwd, timeoutMs: 10000 },
+      );
+
+      expect(run.stdout).toBe(' extra\n');
+    } finally {
+      delete process.env.GROQ_API_KEY;
+      delete process.env.RUNNER_SPEC_EXTRA;
+    }
+  });
+
+  it('should kill the whole process group on timeout', async () => {
+    const run = await createRunner().run(
+      '/bin/sh',
+      ['-c', 'sleep 30 & echo $!; wait'],
+      { cwd, timeoutMs: 300 },
+    );
+
+    expect(run.timedOut).toBe(true);
+    expect(run.signal).toBe('SIGKILL');
+    expect(isAlive(Number(run.stdout.trim()))).toBe(false);
+  });
+
+  it('should stop commands that exceed the output cap', async () => {
+    const run = await createRunner({ RUNNER_MAX_OUTPUT_BYTES: '1024' }).run(
+      node,
+      ['-e', 'for (;;) process.stdout.write("x".repeat(512))'],
+      { cwd, timeoutMs: 10000 },
+    );
+
+    expect(run.outputTruncated).toBe(true);
+    expect(run.timedOut).toBe(false);
+    expect(run.stdout.length).toBe(1024);
+  });
+
+  it('should kill the process group when aborted', async () => {
+    const controller = new AbortController();
+    const pending = createRunner().run('/bin/sh', ['-c', 'sleep 30'], {
+      cwd,
+      timeoutMs: 10000,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    const run = await pending;
+    expect(run.signal).toBe('SIGKILL');
+    expect(run.timedOut).toBe(false);
+  });
+
+  it('should not start a command once aborted', async () => {
+    const marker = `${cwd}/runner-started-${process.pid}`;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createRunner().run('/bin/sh', ['-c', `touch ${marker}`], {
+        cwd,
+        timeoutMs: 10000,
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('This operation was aborted');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it('should run commands inside the configured wrapper', async () => {
+    const run = await createRunner({
+      RUNNER_WRAPPER: 'env WRAPPED_IN={cwd}',
+    }).run(node, ['-e', 'console.log(process.env.WRAPPED_IN)'], {
+      cwd,
+      timeoutMs: 10000,
+    });
+
+    expect(run.stdout).toBe(`${cwd}\n`);
+  });
+
+  it('should apply the CPU time limit', async () => {
+    const run = await createRunner().run('/bin/sh', ['-c', 'ulimit -t'], {
+      cwd,
+      timeoutMs: 10000,
+    });
+
+    expect(run.stdout.trim()).toBe('300');
+  });
+
+  it('should report commands that cannot be started', async () => {
+    const run = await createRunner().run(node, ['-v'], {
+      cwd: '/nonexistent-runner-dir',
+      timeoutMs: 10000,
+    });
+
+    expect(run.error).toBeDefined();
+    expect(describeFailure(run)).toMatch(/could not be started/);
+  });
+});
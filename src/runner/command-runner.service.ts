@@ -0,0 +1,249 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+
+export interface RunOptions {
+  cwd: string;
+  timeoutMs: number;
+  // Aborting kills the process group; the run then resolves as killed
+  signal?: AbortSignal;
+  // Extra variables on top of the scrubbed environment
+  env?: Record<string, string>;
+}
+
+export interface CommandRun {
+  command: string;
+  exitCode: number | null;
+  // Signal that ended the process, e.g. SIGKILL after a timeout
+  signal: NodeJS.Signals | null;
+  durationMs: number;
+  timedOut: boolean;
+  // The output cap was reached; the process was killed and the rest dropped
+  outputTruncated: boolean;
+  stdout: string;
+  stderr: string;
+  // The process could not be started at all
+  error?: string;
+}
+
+// Variables student code may see; everything else, API keys included, is
+// dropped. Extend with RUNNER_ENV_ALLOWLIST
+const BASE_ENV_ALLOWLIST = [
+  'PATH',
+  'HOME',
+  'LANG',
+  'LC_ALL',
+  'TZ',
+  'TMPDIR',
+  'PUB_CACHE',
+  'FLUTTER_ROOT',
+  'ANDROID_HOME',
+  'ANDROID_SDK_ROOT',
+  'JAVA_HOME',
+];
+const DEFAULT_CPU_SECONDS = 300;
+const DEFAULT_MAX_OUTPUT_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Runs the commands that execute student code: with a scrubbed environment,
+ * CPU and memory limits, a cap on captured output and an optional wrapper
+ * such as bubblewrap, firejail or docker. Each command gets its own process
+ * group, which is killed as a whole on timeout, abort or exit.
+ */
+@Injectable()
+export class CommandRunnerService {
+  private readonly logger = new Logger(CommandRunnerService.name);
+  private readonly envAllowlist: string[];
+  private readonly cpuSeconds: number;
+  private readonly memoryMb?: number;
+  private readonly maxOutputBytes: number;
+  private readonly wrapper: string[];
+
+  constructor(private readonly configService: ConfigService) {
+    const extra = this.configService.get<string>('RUNNER_ENV_ALLOWLIST') ?? '';
+    this.envAllowlist = [
+      ...BASE_ENV_ALLOWLIST,
+      ...extra
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ];
+    this.cpuSeconds =
+      this.positiveNumber('RUNNER_CPU_SECONDS') ?? DEFAULT_CPU_SECONDS;
+    // Off by default: the Dart VM reserves far more virtual memory than it
+    // uses, so this needs tuning per machine
+    this.memoryMb = this.positiveNumber('RUNNER_MEMORY_MB');
+    this.maxOutputBytes =
+      this.positiveNumber('RUNNER_MAX_OUTPUT_BYTES') ??
+      DEFAULT_MAX_OUTPUT_BYTES;
+    this.wrapper = (this.configService.get<string>('RUNNER_WRAPPER') ?? '')
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * Runs `command` with `args` without a shell and resolves once the process
+   * group is gone. Failures are reported on the result; it only rejects, with
+   * the abort reason, when the signal was aborted before the start.
+   */
+  run(
+    command: string,
+    args: string[],
+    options: RunOptions,
+  ): Promise<CommandRun> {
+    // The abort listener would never fire, so the command would run to the end
+    if (options.signal?.aborted) {
+      return Promise.reject(options.signal.reason as Error);
+    }
+    const display = [command, ...args].join(' ');
+    const argv = this.buildArgv(command, args, options.cwd);
+    const started = Date.now();
+
+    return new Promise((resolve) => {
+      const stdout = new OutputBuffer(this.maxOutputBytes);
+      const stderr = new OutputBuffer(this.maxOutputBytes);
+      let timedOut = false;
+      let spawnError: string | undefined;
+
+      const child = spawn(argv[0], argv.slice(1), {
+        cwd: options.cwd,
+        env: { ...this.scrubbedEnv(), ...options.env },
+        // A new process group, so children of the command can be killed too
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const killGroup = () => {
+        if (child.pid === undefined) {
+          return;
+        }
+        try {
+          process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // The group is already gone
+        }
+      };
+      const onOutput = (buffer: OutputBuffer) => (chunk: Buffer) => {
+        if (!buffer.append(chunk)) {
+          killGroup();
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, options.timeoutMs);
+      options.signal?.addEventListener('abort', killGroup, { once: true });
+
+      child.stdout.on('data', onOutput(stdout));
+      child.stderr.on('data', onOutput(stderr));
+      child.on('error', (error) => {
+        spawnError = error.message;
+      });
+      // Background processes left behind would hold the pipes open
+      child.on('exit', killGroup);
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', killGroup);
+
+        const run: CommandRun = {
+          command: display,
+          exitCode,
+          signal,
+          durationMs: Date.now() - started,
+          timedOut,
+          outputTruncated: stdout.truncated || stderr.truncated,
+          stdout: stdout.toString(),
+          stderr: stderr.toString(),
+          error: spawnError,
+        };
+        if (run.timedOut || run.outputTruncated || run.error) {
+          this.logger.warn(`${display}: ${describeFailure(run)}`);
+        }
+        resolve(run);
+      });
+    });
+  }
+
+  private buildArgv(command: string, args: string[], cwd: string): string[] {
+    const limits: string[] = [`ulimit -t ${this.cpuSeconds}`];
+    if (this.memoryMb) {
+      limits.push(`ulimit -v ${this.memoryMb * 1024}`);
+    }
+
+    // The limits are set inside the wrapper, so they also hold in a container
+    return [
+      ...this.wrapper.map((part) => part.replace(/\{cwd\}/g, cwd)),
+      '/bin/sh',
+      '-c',
+      `${limits.join(' && ')} && exec "$@"`,
+      'sh',
+      command,
+      ...args,
+    ];
+  }
+
+  private scrubbedEnv(): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const name of this.envAllowlist) {
+      const value = process.env[name];
+      if (value !== undefined) {
+        env[name] = value;
+      }
+    }
+    return env;
+  }
+
+  private positiveNumber(key: string): number | undefined {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  }
+}
+
+/**
+ * Describes why a run did not exit cleanly, for check messages and logs.
+ */
+export function describeFailure(run: CommandRun): string {
+  if (run.error) {
+    return `could not be started: ${run.error}`;
+  }
+  if (run.timedOut) {
+    return `timed out after ${Math.round(run.durationMs / 1000)}s`;
+  }
+  if (run.outputTruncated) {
+    return 'was stopped after exceeding the output limit';
+  }
+  if (run.signal) {
+    return `was killed by ${run.signal}`;
+  }
+  return `exited with code ${run.exitCode}`;
+}
+
+class OutputBuffer {
+  private readonly chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private readonly limit: number) {}
+
+  // Returns false once the limit is reached
+  append(chunk: Buffer): boolean {
+    if (this.truncated) {
+      return false;
+    }
+    const room = this.limit - this.size;
+    if (chunk.length > room) {
+      this.chunks.push(chunk.subarray(0, room));
+      this.size = this.limit;
+      this.truncated = true;
+      return false;
+    }
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+    return true;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandRunnerService } from './command-runner.service';
+import { FlutterSdkService, parseMachineVersion } from './flutter-sdk.service';
+
+describe('FlutterSdkService', () => {
+  let sdkDir: string;
+  let fvmDir: string;
+
+  // A stand-in SDK whose flutter prints what `flutter --version --machine` does
+  const installSdk = async (dir: string, version: string, dart: string) => {
+    const flutter = path.join(dir, version, 'bin', 'flutter');
+    await fs.outputFile(
+      flutter,
+      `#!/bin/sh\necho '{"frameworkVersion": "${version}", "channel": "stable", "dartSdkVersion": "${dart}"}'\n`,
+    );
+    await fs.chmod(flutter, 0o755);
+  };
+
+  const createService = () => {
+    const config = new ConfigService({
+      FLUTTER_SDK_DIRS: `${sdkDir}, ${fvmDir}`,
+    });
+    return new FlutterSdkService(config, new CommandRunnerService(config));
+  };
+
+  beforeEach(async () => {
+    sdkDir = await fs.mkdtemp(path.join(os.tmpdir(), 'flutter-sdks-'));
+    fvmDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fvm-versions-'));
+    await installSdk(sdkDir, '3.24.3', '3.5.3');
+    await installSdk(fvmDir, '3.19.6', '3.3.4');
+    await installSdk(fvmDir, '3.24.3', '3.5.3');
+    // Not an SDK
+    await fs.ensureDir(path.join(fvmDir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(sdkDir);
+    await fs.remove(fvmDir);
+  });
+
+  it('should find the SDKs installed in every directory', async () => {
+    await expect(createService().findAll()).resolves.toEqual([
+      { version: '3.24.3', root: path.join(sdkDir, '3.24.3') },
+      { version: '3.19.6', root: path.join(fvmDir, '3.19.6') },
+    ]);
+  });
+
+  it('should resolve a version to its SDK and fall back to the PATH', async () => {
+    const service = createService();
+    const root = path.join(fvmDir, '3.19.6');
+
+    const sdk = await service.resolve('3.19.6');
+    expect(sdk).toMatchObject({
+      version: '3.19.6',
+      root,
+      flutter: path.join(root, 'bin', 'flutter'),
+      dart: path.join(root, 'bin', 'dart'),
+    });
+    expect(sdk.env.FLUTTER_ROOT).toBe(root);
+    expect(sdk.env.PATH.split(path.delimiter)[0]).toBe(path.join(root, 'bin'));
+    await expect(service.resolve()).resolves.toEqual({
+      flutter: 'flutter',
+      dart: 'dart',
+      env: {},
+    });
+    await expect(service.resolve('3.10.0')).rejects.toThrow(
+      new BadRequestException(
+        'Flutter SDK 3.10.0 is not installed; available: 3.24.3, 3.19.6',
+      ),
+    );
+  });
+
+  it('should ask the SDK for its versions', async () => {
+    const service = createService();
+    const sdk = await service.resolve('3.19.6');
+
+    await expect(service.versions(sdk, os.tmpdir())).resolves.toEqual({
+      flutter: '3.19.6',
+      dart: '3.3.4',
+    });
+  });
+
+  it('should parse the machine-readable version output', () => {
+    expect(
+      parseMachineVersion(
+        'Building flutter tool...\n{"frameworkVersion": "3.27.0-0.1.pre", "dartSdkVersion": "3.6.0 (build 3.6.0-216.1.beta)"}',
+      ),
+    ).toEqual({ flutter: '3.27.0-0.1.pre', dart: '3.6.0-216.1.beta' });
+    expect(parseMachineVersion('Flutter 3.24.3 • channel stable')).toBe(
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import {
+  CommandRunnerService,
+  describeFailure,
+} from './command-runner.service';
+
+export interface FlutterSdk {
+  // The version an assignment selected; undefined for the SDK on the PATH
+  version?: string;
+  root?: string;
+  flutter: string;
+  dart: string;
+  // Puts the SDK's bin/ first, so tools it starts come from the same SDK
+  env: Record<string, string>;
+}
+
+export interface InstalledSdk {
+  version: string;
+  root: string;
+}
+
+export interface FlutterSdkVersions {
+  flutter: string;
+  dart: string;
+}
+
+const VERSION_TIMEOUT_MS = 60 * 1000;
+// Version names double as directory names, so they must not escape them
+const VERSION_NAME = /^[\w][\w.+-]*$/;
+
+/**
+ * Resolves the Flutter SDK an assignment selects. SDKs are looked up by
+ * version in the directories of FLUTTER_SDK_DIRS, each holding one SDK per
+ * subdirectory named after its version, like `fvm/versions/3.24.3`. The SDK on
+ * the PATH is used when no version is selected.
+ */
+@Injectable()
+export class FlutterSdkService {
+  private readonly logger = new Logger(FlutterSdkService.name);
+  private readonly sdkDirs: string[];
+  // `flutter --version` takes seconds; an SDK's version never changes
+  private readonly versionCache = new Map<string, FlutterSdkVersions>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly commandRunner: CommandRunnerService,
+  ) {
+    this.sdkDirs = (this.configService.get<string>('FLUTTER_SDK_DIRS') ?? '')
+      .split(',')
+      .map((dir) => dir.trim())
+      .filter(Boolean)
+      .map((dir) => path.resolve(dir));
+  }
+
+  /**
+   * Lists the installed SDKs by version. When several directories hold the
+   * same version, the first one listed in FLUTTER_SDK_DIRS wins.
+   */
+  async findAll(): Promise<InstalledSdk[]> {
+    const sdks = new Map<string, InstalledSdk>();
+    for (const dir of this.sdkDirs) {
+      const entries = await fs.readdir(dir).catch(() => [] as string[]);
+      for (const version of entries.sort()) {
+        const root = path.join(dir, version);
+        if (
+          !sdks.has(version) &&
+          VERSION_NAME.test(version) &&
+          (await fs.pathExists(path.join(root, 'bin', 'flutter')))
+        ) {
+          sdks.set(version, { version, root });
+        }
+      }
+    }
+    return [...sdks.values()];
+  }
+
+  /**
+   * Returns the SDK for `version`, or the one on the PATH without a version.
+   * Throws a BadRequestException when that version is not installed.
+   */
+  async resolve(version?: string): Promise<FlutterSdk> {
+    if (!version) {
+      return { flutter: 'flutter', dart: 'dart', env: {} };
+    }
+
+    const installed = await this.findAll();
+    const sdk = installed.find((candidate) => candidate.version === version);
+    if (!sdk) {
+      const available = installed.map((candidate) => candidate.version);
+      throw new BadRequestException(
+        `Flutter SDK ${version} is not installed; available: ${available.join(', ') || 'none'}`,
+      );
+    }
+
+    const bin = path.join(sdk.root, 'bin');
+    return {
+      version,
+      root: sdk.root,
+      flutter: path.join(bin, 'flutter'),
+      dart: path.join(bin, 'dart'),
+      env: {
+        FLUTTER_ROOT: sdk.root,
+        PATH: [bin, process.env.PATH].filter(Boolean).join(path.delimiter),
+      },
+    };
+  }
+
+  /**
+   * Asks the SDK for its Flutter and Dart versions. Undefined when it cannot
+   * tell, e.g. because it is not set up.
+   */
+  async versions(
+    sdk: FlutterSdk,
+    cwd: string,
+    signal?: AbortSignal,
+  ): Promise<FlutterSdkVersions | undefined> {
+    const key = sdk.root ?? sdk.flutter;
+    const cached = this.versionCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const run = await this.commandRunner.run(
+      sdk.flutter,
+      ['--version', '--machine'],
+      { cwd, timeoutMs: VERSION_TIMEOUT_MS, signal, env: sdk.env },
+    );
+    const versions =
+      run.exitCode === 0 ? parseMachineVersion(run.stdout) : undefined;
+    if (!versions) {
+      this.logger.warn(
+        `${run.command} ${run.exitCode === 0 ? 'printed no versions' : describeFailure(run)}`,
+      );
+      return undefined;
+    }
+    this.versionCache.set(key, versions);
+    return versions;
+  }
+}
+
+/**
+ * Reads the versions from `flutter --version --machine`. The JSON may follow
+ * other output, such as a notice that the tool is being built.
+ */
+export function parseMachineVersion(
+  output: string,
+): FlutterSdkVersions | undefined {
+  const start = output.indexOf('{');
+  if (start === -1) {
+    return undefined;
+  }
+  try {
+    const info = JSON.parse(output.slice(start)) as Record<string, unknown>;
+    const { frameworkVersion, dartSdkVersion } = info;
+    if (
+      typeof frameworkVersion !== 'string' ||
+      typeof dartSdkVersion !== 'string'
+    ) {
+      return undefined;
+    }
+    // Pre-release SDKs report e.g. "3.6.0 (build 3.6.0-216.1.beta)"
+    const build = /\(build ([^)\s]+)\)/.exec(dartSdkVersion);
+    return {
+      flutter: frameworkVersion,
+      dart: build ? build[1] : dartSdkVersion.split(' ')[0],
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { CommandRunnerService } from './command-runner.service';
+import { FlutterSdkService } from './flutter-sdk.service';
+
+@Module({
+  providers: [CommandRunnerService, FlutterSdkService],
+  exports: [CommandRunnerService, FlutterSdkService],
+})
+export class RunnerModule {}
@@ -0,0 +1,37 @@
+export class SimilarityParticipant {
+  submissionId: string;
+  studentId?: string;
+  repoUrl: string;
+}
+
+export class MatchedRegion {
+  fileA: string;
+  startLineA: number;
+  endLineA: number;
+  fileB: string;
+  startLineB: number;
+  endLineB: number;
+}
+
+export class SimilarityPair {
+  a: SimilarityParticipant;
+  b: SimilarityParticipant;
+  // Shared fingerprints over those of the smaller submission (0..1)
+  similarity: number;
+  sharedFingerprints: number;
+  regions: MatchedRegion[];
+}
+
+export class SimilarityReportDto {
+  assignmentId: string;
+  threshold: number;
+  submissionsCompared: number;
+  pairs: SimilarityPair[];
+}
+
+export class StarterCodeSummaryDto {
+  assignmentId: string;
+  files: string[];
+  fingerprints: number;
+  updatedAt: string;
+}
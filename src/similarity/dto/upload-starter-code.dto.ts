@@ -0,0 +1,25 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+
+export class StarterFileDto {
+  @IsString()
+  @IsNotEmpty()
+  path: string;
+
+  @IsString()
+  content: string;
+}
+
+export class UploadStarterCodeDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => StarterFileDto)
+  files: StarterFileDto[];
+}
@@ -0,0 +1,7 @@
+// Keyed by the assignment id. Only fingerprints are kept, not the sources.
+export class StarterCode {
+  id: string;
+  files: string[];
+  hashes: number[];
+  updatedAt: string;
+}
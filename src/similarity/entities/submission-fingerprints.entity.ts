@@ -0,0 +1,17 @@
+export class SourceFingerprint {
+  hash: number;
+  // Path relative to the repository root, e.g. `lib/main.dart`
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+// Keyed by the submission id
+export class SubmissionFingerprints {
+  id: string;
+  assignmentId: string;
+  studentId?: string;
+  repoUrl: string;
+  fingerprints: SourceFingerprint[];
+  createdAt: string;
+}
@@ -0,0 +1,49 @@
+import { fingerprintFile, tokenizeDart } from './fingerprint';
+
+describe('fingerprint', () => {
+  const original = `
+class TodoList {
+  final List<String> items = [];
+
+  // Adds a todo
+  void add(String title) {
+    if (title.isEmpty) return;
+    items.add(title);
+  }
+
+  int count() => items.length;
+}
+`;
+  const renamed = `
+/* renamed and reformatted */
+class Tasks { final List<String> entries = [];
+  void push(String name) { if (name.isEmpty) return; entries.add(name); }
+  int size() => entries.length; }
+`;
+
+  it('should normalize identifiers, literals and comments', () => {
+    const values = tokenizeDart(
+      "var x = 'a // not a comment'; /* a /* nested */ comment */ y = 0x1F;",
+    ).map((token) => token.value);
+
+    expect(values).toEqual(['var', 'I', '=', 'S', ';', 'I', '=', 'N', ';']);
+  });
+
+  it('should track the line of each token', () => {
+    const tokens = tokenizeDart("a\n'''multi\nline'''\nb");
+
+    expect(tokens.map((token) => token.line)).toEqual([1, 2, 4]);
+  });
+
+  it('should give renamed and reformatted code the same fingerprints', () => {
+    const hashes = (source: string) =>
+      fingerprintFile('lib/main.dart', source).map((fp) => fp.hash);
+
+    expect(hashes(renamed)).toEqual(hashes(original));
+    expect(hashes(original).length).toBeGreaterThan(0);
+  });
+
+  it('should not fingerprint files shorter than one k-gram', () => {
+    expect(fingerprintFile('lib/main.dart', 'void main() {}')).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+import { SourceFingerprint } from './entities/submission-fingerprints.entity';
+
+// Tokens per k-gram and k-grams per winnowing window. Any shared run of at
+// least K_GRAM + WINDOW - 1 tokens is guaranteed to produce a shared hash.
+export const K_GRAM = 12;
+export const WINDOW = 8;
+
+const DART_KEYWORDS = new Set(
+  (
+    'abstract as assert async await base break case catch class const ' +
+    'continue covariant default deferred do dynamic else enum export ' +
+    'extends extension external factory false final finally for get hide ' +
+    'if implements import in interface is late library mixin new null on ' +
+    'operator part required rethrow return sealed set show static super ' +
+    'switch sync this throw true try typedef var void when while with yield'
+  ).split(' '),
+);
+
+const STRING_START = /r?['"]/y;
+const NUMBER = /0[xX][0-9a-fA-F]+|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/y;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+export interface Token {
+  value: string;
+  line: number;
+  // The token as written and where it starts in the source
+  text: string;
+  start: number;
+}
+
+/**
+ * Splits Dart source into normalized tokens: comments and whitespace are
+ * dropped, identifiers become `I`, string literals `S` and numbers `N`, so
+ * renaming variables or reformatting does not change the token stream.
+ */
+export function tokenizeDart(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const advance = (to: number) => {
+    for (; i < to; i++) {
+      if (source[i] === '\n') {
+        line++;
+      }
+    }
+  };
+  const push = (value: string, end: number) => {
+    tokens.push({ value, line, text: source.slice(i, end), start: i });
+    advance(end);
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      advance(i + 1);
+      continue;
+    }
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      advance(end === -1 ? source.length : end);
+      continue;
+    }
+    if (source.startsWith('/*', i)) {
+      advance(blockCommentEnd(source, i));
+      continue;
+    }
+    if (matchAt(STRING_START, source, i)) {
+      push('S', stringEnd(source, i));
+      continue;
+    }
+
+    const number = matchAt(NUMBER, source, i);
+    if (number) {
+      push('N', i + number.length);
+      continue;
+    }
+
+    const word = matchAt(IDENTIFIER, source, i);
+    if (word) {
+      push(DART_KEYWORDS.has(word) ? word : 'I', i + word.length);
+      continue;
+    }
+
+    push(char, i + 1);
+  }
+
+  return tokens;
+}
+
+/**
+ * Winnows the hashed k-grams of a file's token stream, keeping the minimum
+ * hash of every window along with the lines it spans.
+ */
+export function fingerprintFile(
+  file: string,
+  source: string,
+): SourceFingerprint[] {
+  const tokens = tokenizeDart(source);
+  const grams: SourceFingerprint[] = [];
+  for (let start = 0; start + K_GRAM <= tokens.length; start++) {
+    const gram = tokens.slice(start, start + K_GRAM);
+    grams.push({
+      hash: hash(gram.map((token) => token.value).join(' ')),
+      file,
+      startLine: gram[0].line,
+      endLine: gram[gram.length - 1].line,
+    });
+  }
+
+  const selected: SourceFingerprint[] = [];
+  const windows = grams.length > 0 ? Math.max(grams.length - WINDOW + 1, 1) : 0;
+  let last = -1;
+  for (let start = 0; start < windows; start++) {
+    const end = Math.min(start + WINDOW, grams.length);
+    // Rightmost minimum, so a run of equal hashes is only recorded once
+    let min = start;
+    for (let j = start; j < end; j++) {
+      if (grams[j].hash <= grams[min].hash) {
+        min = j;
+      }
+    }
+    if (min !== last) {
+      selected.push(grams[min]);
+      last = min;
+    }
+  }
+
+  return selected;
+}
+
+// Matches a sticky pattern at `index` without copying the source
+function matchAt(
+  pattern: RegExp,
+  source: string,
+  index: number,
+): string | undefined {
+  pattern.lastIndex = index;
+  return pattern.exec(source)?.[0];
+}
+
+// 32-bit FNV-1a
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function blockCommentEnd(source: string, start: number): number {
+  // Dart block comments nest
+  let depth = 0;
+  let i = start;
+  while (i < source.length) {
+    if (source.startsWith('/*', i)) {
+      depth++;
+      i += 2;
+    } else if (source.startsWith('*/', i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+function stringEnd(source: string, start: number): number {
+  let i = start;
+  const raw = source[i] === 'r';
+  if (raw) {
+    i++;
+  }
+  const quote = source.startsWith(source[i].repeat(3), i)
+    ? source[i].repeat(3)
+    : source[i];
+  i += quote.length;
+
+  while (i < source.length) {
+    if (!raw && source[i] === '\\') {
+      i += 2;
+    } else if (source.startsWith(quote, i)) {
+      return i + quote.length;
+    } else if (quote.length === 1 && source[i] === '\n') {
+      // Unterminated single-line string
+      return i;
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
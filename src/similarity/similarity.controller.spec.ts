@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SimilarityController } from './similarity.controller';
+import { SimilarityService } from './similarity.service';
+
+describe('SimilarityController', () => {
+  let controller: SimilarityController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SimilarityController],
+      providers: [{ provide: SimilarityService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SimilarityController>(SimilarityController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { SimilarityService } from './similarity.service';
+import { UploadStarterCodeDto } from './dto/upload-starter-code.dto';
+import { SimilarityReportQueryDto } from './dto/similarity-report-query.dto';
+import {
+  SimilarityReportDto,
+  StarterCodeSummaryDto,
+} from './dto/similarity-report.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('assignments/:assignmentId')
+export class SimilarityController {
+  constructor(private readonly similarityService: SimilarityService) {}
+
+  @Get('similarity')
+  report(
+    @Param('assignmentId') assignmentId: string,
+    @Query() query: SimilarityReportQueryDto,
+  ): Promise<SimilarityReportDto> {
+    return this.similarityService.report(assignmentId, query.threshold);
+  }
+
+  @Put('starter-code')
+  @Roles('instructor')
+  setStarterCode(
+    @Param('assignmentId') assignmentId: string,
+    @Body() uploadDto: UploadStarterCodeDto,
+  ): Promise<StarterCodeSummaryDto> {
+    return this.similarityService.setStarterCode(assignmentId, uploadDto);
+  }
+
+  @Get('starter-code')
+  getStarterCode(
+    @Param('assignmentId') assignmentId: string,
+  ): Promise<StarterCodeSummaryDto> {
+    return this.similarityService.getStarterCode(assignmentId);
+  }
+
+  @Delete('starter-code')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeStarterCode(
+    @Param('assignmentId') assignmentId: string,
+  ): Promise<void> {
+    return this.similarityService.removeStarterCode(assignmentId);
+  }
+}
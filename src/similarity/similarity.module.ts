@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { SimilarityService } from './similarity.service';
+import { SimilarityController } from './similarity.controller';
+
+@Module({
+  imports: [StorageModule, AssignmentsModule],
+  controllers: [SimilarityController],
+  providers: [SimilarityService],
+  exports: [SimilarityService],
+})
+export class SimilarityModule {}
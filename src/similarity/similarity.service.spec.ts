@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { SimilarityService } from './similarity.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { StorageService } from '../storage/storage.service';
+import { Submission } from '../submissions/entities/submission.entity';
+
+describe('SimilarityService', () => {
+  let service: SimilarityService;
+  let dataDir: string;
+
+  const solution = `
+class TodoRepository {
+  final Map<int, String> todos = {};
+  int nextId = 0;
+
+  int add(String title) {
+    final id = nextId++;
+    todos[id] = title.trim();
+    return id;
+  }
+
+  bool remove(int id) {
+    if (!todos.containsKey(id)) {
+      return false;
+    }
+    todos.remove(id);
+    return true;
+  }
+
+  List<String> titles() => todos.values.where((t) => t.isNotEmpty).toList();
+}
+`;
+  const other = `
+class Counter {
+  int value = 0;
+  void increment() { value += 1; }
+  void reset() { value = 0; }
+  String describe() { return 'Counter at $value'; }
+  bool get isZero => value == 0;
+}
+`;
+
+  const submission = (id: string, studentId: string): Submission => ({
+    id,
+    assignmentId: 'a1',
+    studentId,
+    repoUrl: `https://github.com/${studentId}/todo`,
+    totalScore: 10,
+    maxScore: 20,
+    result: { totalScore: 10, maxScore: 20, checks: [] },
+    createdAt: new Date().toISOString(),
+  });
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'similarity-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SimilarityService,
+        StorageService,
+        {
+          provide: AssignmentsService,
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'a1' }) },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<SimilarityService>(SimilarityService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should report copied code with the matching regions', async () => {
+    const renamed = solution
+      .replace(/todos/g, 'items')
+      .replace(/TodoRepository/g, 'ItemStore');
+    await service.record(submission('s1', 'alice'), [
+      { path: 'repo.dart', content: solution },
+    ]);
+    await service.record(submission('s2', 'bob'), [
+      { path: 'store.dart', content: renamed },
+    ]);
+    await service.record(submission('s3', 'carol'), [
+      { path: 'counter.dart', content: other },
+    ]);
+
+    const report = await service.report('a1');
+
+    expect(report.submissionsCompared).toBe(3);
+    expect(report.pairs).toHaveLength(1);
+    const [pair] = report.pairs;
+    expect([pair.a.studentId, pair.b.studentId].sort()).toEqual([
+      'alice',
+      'bob',
+    ]);
+    expect(pair.similarity).toBe(1);
+    expect(pair.regions[0]).toMatchObject({
+      fileA: expect.stringMatching(/^lib\//) as string,
+      fileB: expect.stringMatching(/^lib\//) as string,
+    });
+  });
+
+  it('should ignore code shared with the starter code', async () => {
+    await service.record(submission('s1', 'alice'), [
+      { path: 'repo.dart', content: solution },
+    ]);
+    await service.record(submission('s2', 'bob'), [
+      { path: 'repo.dart', content: solution },
+    ]);
+    expect((await service.report('a1', 0)).pairs).toHaveLength(1);
+
+    await service.setStarterCode('a1', {
+      files: [{ path: 'lib/repo.dart', content: solution }],
+    });
+
+    expect((await service.report('a1', 0)).pairs).toHaveLength(0);
+  });
+
+  it('should only compare the latest submission of each student', async () => {
+    await service.record(submission('s1', 'alice'), [
+      { path: 'repo.dart', content: solution },
+    ]);
+    await service.record(submission('s2', 'alice'), [
+      { path: 'repo.dart', content: solution },
+    ]);
+
+    const report = await service.report('a1', 0);
+
+    expect(report.submissionsCompared).toBe(1);
+    expect(report.pairs).toHaveLength(0);
+  });
+});
@@ -0,0 +1,273 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { Submission } from '../submissions/entities/submission.entity';
+import { fingerprintFile } from './fingerprint';
+import {
+  SourceFingerprint,
+  SubmissionFingerprints,
+} from './entities/submission-fingerprints.entity';
+import { StarterCode } from './entities/starter-code.entity';
+import { UploadStarterCodeDto } from './dto/upload-starter-code.dto';
+import {
+  MatchedRegion,
+  SimilarityPair,
+  SimilarityParticipant,
+  SimilarityReportDto,
+  StarterCodeSummaryDto,
+} from './dto/similarity-report.dto';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+// Pairs sharing fewer fingerprints are too small to be meaningful
+const MIN_SHARED_FINGERPRINTS = 5;
+
+interface Candidate {
+  record: SubmissionFingerprints;
+  // Fingerprints left once starter code is removed, first occurrence per hash
+  byHash: Map<number, SourceFingerprint>;
+}
+
+@Injectable()
+export class SimilarityService {
+  private readonly logger = new Logger(SimilarityService.name);
+  private readonly fingerprints: JsonCollection<SubmissionFingerprints>;
+  private readonly starterCode: JsonCollection<StarterCode>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly assignmentsService: AssignmentsService,
+  ) {
+    this.fingerprints =
+      this.storageService.collection<SubmissionFingerprints>('fingerprints');
+    this.starterCode =
+      this.storageService.collection<StarterCode>('starter-code');
+  }
+
+  /**
+   * Fingerprints a submission's lib/ sources (paths relative to lib/) and
+   * compares it against the other students' latest submissions.
+   */
+  async record(
+    submission: Submission,
+    files: Array<{ path: string; content: string }>,
+  ): Promise<void> {
+    const record: SubmissionFingerprints = {
+      id: submission.id,
+      assignmentId: submission.assignmentId,
+      studentId: submission.studentId,
+      repoUrl: submission.repoUrl,
+      fingerprints: files.flatMap((file) =>
+        fingerprintFile(`lib/${file.path}`, file.content),
+      ),
+      createdAt: submission.createdAt,
+    };
+    await this.fingerprints.save(record);
+
+    const { pairs } = await this.compare(
+      submission.assignmentId,
+      DEFAULT_SIMILARITY_THRESHOLD,
+      submission.id,
+    );
+    for (const pair of pairs) {
+      this.logger.warn(
+        `Submission ${pair.a.submissionId} is ${Math.round(pair.similarity * 100)}% similar to ${pair.b.submissionId}`,
+      );
+    }
+  }
+
+  async report(
+    assignmentId: string,
+    threshold = DEFAULT_SIMILARITY_THRESHOLD,
+  ): Promise<SimilarityReportDto> {
+    await this.assignmentsService.findOne(assignmentId);
+    const { pairs, compared } = await this.compare(assignmentId, threshold);
+    return {
+      assignmentId,
+      threshold,
+      submissionsCompared: compared,
+      pairs,
+    };
+  }
+
+  async setStarterCode(
+    assignmentId: string,
+    uploadDto: UploadStarterCodeDto,
+  ): Promise<StarterCodeSummaryDto> {
+    await this.assignmentsService.findOne(assignmentId);
+    const hashes = new Set(
+      uploadDto.files.flatMap((file) =>
+        fingerprintFile(file.path, file.content).map((fp) => fp.hash),
+      ),
+    );
+    const starterCode: StarterCode = {
+      id: assignmentId,
+      files: uploadDto.files.map((file) => file.path),
+      hashes: Array.from(hashes),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.starterCode.save(starterCode);
+    this.logger.log(
+      `Stored starter code for assignment ${assignmentId} (${hashes.size} fingerprints)`,
+    );
+    return this.toSummary(starterCode);
+  }
+
+  async getStarterCode(assignmentId: string): Promise<StarterCodeSummaryDto> {
+    const starterCode = await this.starterCode.findById(assignmentId);
+    if (!starterCode) {
+      throw new NotFoundException(
+        `Assignment ${assignmentId} has no starter code`,
+      );
+    }
+    return this.toSummary(starterCode);
+  }
+
+  async removeStarterCode(assignmentId: string): Promise<void> {
+    const removed = await this.starterCode.remove(assignmentId);
+    if (!removed) {
+      throw new NotFoundException(
+        `Assignment ${assignmentId} has no starter code`,
+      );
+    }
+  }
+
+  /**
+   * Compares the latest submission of every student (by student id, or
+   * repository when there is none). With `submissionId`, only pairs involving
+   * that submission are returned.
+   */
+  private async compare(
+    assignmentId: string,
+    threshold: number,
+    submissionId?: string,
+  ): Promise<{ pairs: SimilarityPair[]; compared: number }> {
+    const starterCode = await this.starterCode.findById(assignmentId);
+    const ignored = new Set(starterCode?.hashes ?? []);
+
+    const latest = new Map<string, SubmissionFingerprints>();
+    for (const record of await this.fingerprints.findAll()) {
+      if (record.assignmentId !== assignmentId) {
+        continue;
+      }
+      const owner = record.studentId ?? record.repoUrl;
+      const current = latest.get(owner);
+      if (!current || record.createdAt > current.createdAt) {
+        latest.set(owner, record);
+      }
+    }
+
+    const candidates: Candidate[] = Array.from(latest.values()).map(
+      (record) => {
+        const byHash = new Map<number, SourceFingerprint>();
+        for (const fp of record.fingerprints) {
+          if (!ignored.has(fp.hash) && !byHash.has(fp.hash)) {
+            byHash.set(fp.hash, fp);
+          }
+        }
+        return { record, byHash };
+      },
+    );
+
+    const pairs: SimilarityPair[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        let [a, b] = [candidates[i], candidates[j]];
+        if (submissionId && b.record.id === submissionId) {
+          [a, b] = [b, a];
+        }
+        if (submissionId && a.record.id !== submissionId) {
+          continue;
+        }
+        const pair = this.comparePair(a, b);
+        if (pair && pair.similarity >= threshold) {
+          pairs.push(pair);
+        }
+      }
+    }
+
+    pairs.sort((x, y) => y.similarity - x.similarity);
+    return { pairs, compared: candidates.length };
+  }
+
+  private comparePair(a: Candidate, b: Candidate): SimilarityPair | undefined {
+    const matches: Array<[SourceFingerprint, SourceFingerprint]> = [];
+    for (const [hash, fingerprint] of a.byHash) {
+      const other = b.byHash.get(hash);
+      if (other) {
+        matches.push([fingerprint, other]);
+      }
+    }
+    if (matches.length < MIN_SHARED_FINGERPRINTS) {
+      return undefined;
+    }
+
+    const smaller = Math.min(a.byHash.size, b.byHash.size);
+    return {
+      a: this.toParticipant(a.record),
+      b: this.toParticipant(b.record),
+      similarity: Math.round((matches.length / smaller) * 100) / 100,
+      sharedFingerprints: matches.length,
+      regions: this.mergeRegions(matches),
+    };
+  }
+
+  // Joins matches that overlap or touch on both sides into larger regions
+  private mergeRegions(
+    matches: Array<[SourceFingerprint, SourceFingerprint]>,
+  ): MatchedRegion[] {
+    const sorted = matches
+      .map(([a, b]) => ({
+        fileA: a.file,
+        startLineA: a.startLine,
+        endLineA: a.endLine,
+        fileB: b.file,
+        startLineB: b.startLine,
+        endLineB: b.endLine,
+      }))
+      .sort(
+        (x, y) =>
+          x.fileA.localeCompare(y.fileA) ||
+          x.fileB.localeCompare(y.fileB) ||
+          x.startLineA - y.startLineA ||
+          x.startLineB - y.startLineB,
+      );
+
+    const regions: MatchedRegion[] = [];
+    for (const match of sorted) {
+      const last = regions[regions.length - 1];
+      if (
+        last &&
+        last.fileA === match.fileA &&
+        last.fileB === match.fileB &&
+        match.startLineA <= last.endLineA + 1 &&
+        match.startLineB <= last.endLineB + 1 &&
+        match.endLineB >= last.startLineB - 1
+      ) {
+        last.endLineA = Math.max(last.endLineA, match.endLineA);
+        last.startLineB = Math.min(last.startLineB, match.startLineB);
+        last.endLineB = Math.max(last.endLineB, match.endLineB);
+      } else {
+        regions.push(match);
+      }
+    }
+    return regions;
+  }
+
+  private toParticipant(record: SubmissionFingerprints): SimilarityParticipant {
+    return {
+      submissionId: record.id,
+      studentId: record.studentId,
+      repoUrl: record.repoUrl,
+    };
+  }
+
+  private toSummary(starterCode: StarterCode): StarterCodeSummaryDto {
+    return {
+      assignmentId: starterCode.id,
+      files: starterCode.files,
+      fingerprints: starterCode.hashes.length,
+      updatedAt: starterCode.updatedAt,
+    };
+  }
+}
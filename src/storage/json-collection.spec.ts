@@ -0,0 +1,33 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonCollection } from './json-collection';
+
+describe('JsonCollection', () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'json-collection-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should keep writing after a failed write', async () => {
+    const directory = path.join(dataDir, 'collections');
+    const collection = new JsonCollection<{ id: string }>(
+      path.join(directory, 'items.json'),
+    );
+    // A file where the directory should be makes the write fail
+    await fs.writeFile(directory, '');
+
+    await expect(collection.save({ id: 'a' })).rejects.toThrow();
+
+    await fs.remove(directory);
+    await expect(collection.save({ id: 'b' })).resolves.toEqual({ id: 'b' });
+    await expect(
+      fs.readJson(path.join(directory, 'items.json')),
+    ).resolves.toEqual([{ id: 'a' }, { id: 'b' }]);
+  });
+});
@@ -0,0 +1,77 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export interface StoredEntity {
+  id: string;
+}
+
+/**
+ * A small file-backed collection. Records are kept in memory and the whole
+ * collection is rewritten atomically (temp file + rename) after every change,
+ * so a crash never leaves a half-written file behind.
+ */
+export class JsonCollection<T extends StoredEntity> {
+  private records: Map<string, T> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async findAll(): Promise<T[]> {
+    const records = await this.load();
+    return Array.from(records.values());
+  }
+
+  async findById(id: string): Promise<T | undefined> {
+    const records = await this.load();
+    return records.get(id);
+  }
+
+  async save(entity: T): Promise<T> {
+    const records = await this.load();
+    records.set(entity.id, entity);
+    await this.persist();
+    return entity;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const records = await this.load();
+    const removed = records.delete(id);
+    if (removed) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    const records = new Map<string, T>();
+    if (await fs.pathExists(this.filePath)) {
+      const content = (await fs.readJson(this.filePath)) as T[];
+      for (const record of content) {
+        records.set(record.id, record);
+      }
+    }
+
+    // Another caller may have loaded the file while we were reading it
+    if (!this.records) {
+      this.records = records;
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = Array.from(this.records?.values() ?? []);
+    const write = this.writeChain.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.writeJson(tempPath, snapshot, { spaces: 2 });
+      await fs.move(tempPath, this.filePath, { overwrite: true });
+    });
+    // The caller sees the failure; later writes must still run
+    this.writeChain = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { JsonCollection, StoredEntity } from './json-collection';
+
+@Injectable()
+export class StorageService {
+  private readonly dataDir: string;
+  private readonly collections = new Map<
+    string,
+    JsonCollection<StoredEntity>
+  >();
+
+  constructor(private readonly configService: ConfigService) {
+    this.dataDir = path.resolve(
+      this.configService.get<string>('DATA_DIR') ??
+        path.join(process.cwd(), 'data'),
+    );
+  }
+
+  /**
+   * Returns a directory under DATA_DIR for files that do not fit a JSON
+   * collection, such as uploaded archives.
+   */
+  directory(name: string): string {
+    return path.join(this.dataDir, name);
+  }
+
+  collection<T extends StoredEntity>(name: string): JsonCollection<T> {
+    let collection = this.collections.get(name) as
+      | JsonCollection<T>
+      | undefined;
+    if (!collection) {
+      collection = new JsonCollection<T>(
+        path.join(this.dataDir, `${name}.json`),
+      );
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { EVALUATION_STATUSES } from '../../evaluate/dto/evaluate-response.dto';
+import type { EvaluationStatus } from '../../evaluate/dto/evaluate-response.dto';
+
+export class ListSubmissionsQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  studentId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  assignmentId?: string;
+
+  @IsOptional()
+  @IsIn(EVALUATION_STATUSES)
+  status?: EvaluationStatus;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'from must be an ISO 8601 date' })
+  from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'to must be an ISO 8601 date' })
+  to?: string;
+}
@@ -0,0 +1,10 @@
+export class TimelineEntryDto {
+  submissionId: string;
+  assignmentId: string;
+  commitSha?: string;
+  totalScore: number;
+  maxScore: number;
+  // Change since the student's previous submission for the same assignment
+  delta?: number;
+  createdAt: string;
+}
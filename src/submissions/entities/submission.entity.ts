@@ -0,0 +1,31 @@
+import {
+  EvaluateResponseDto,
+  EvaluationStatus,
+} from '../../evaluate/dto/evaluate-response.dto';
+
+export class ScoreOverride {
+  // The overridden check; the total score when unset
+  check?: string;
+  // The score before the first override
+  originalScore: number;
+  score: number;
+  justification: string;
+  overriddenBy: string;
+  overriddenAt: string;
+}
+
+export class Submission {
+  id: string;
+  jobId?: string;
+  assignmentId: string;
+  studentId?: string;
+  repoUrl: string;
+  commitSha?: string;
+  totalScore: number;
+  maxScore: number;
+  status?: EvaluationStatus; // Unset on submissions graded before statuses
+  result: EvaluateResponseDto;
+  // Current instructor overrides, one per check and one for the total
+  overrides?: ScoreOverride[];
+  createdAt: string;
+}
@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { SubmissionsController } from './submissions.controller';
+import { SubmissionsService } from './submissions.service';
+import { ReportsService } from '../reports/reports.service';
+
+describe('SubmissionsController', () => {
+  let controller: SubmissionsController;
+  const submissionsService = { findAll: jest.fn(), findOne: jest.fn() };
+  const student = { id: 's1', role: 'student' as const, studentId: 's1' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SubmissionsController],
+      providers: [
+        { provide: SubmissionsService, useValue: submissionsService },
+        { provide: ReportsService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<SubmissionsController>(SubmissionsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should limit students to their own submissions', async () => {
+    submissionsService.findAll.mockResolvedValue([]);
+    submissionsService.findOne.mockResolvedValue({ id: 'x', studentId: 's2' });
+
+    await controller.findAll({}, student);
+    expect(submissionsService.findAll).toHaveBeenCalledWith({
+      studentId: 's1',
+    });
+    expect(() => controller.findAll({ studentId: 's2' }, student)).toThrow(
+      ForbiddenException,
+    );
+    await expect(controller.findOne('x', student)).rejects.toBeInstanceOf(
+      ForbiddenException,
+    );
+    await expect(
+      controller.findOne('x', { id: 'ta', role: 'ta' }),
+    ).resolves.toEqual({ id: 'x', studentId: 's2' });
+  });
+});
@@ -0,0 +1,70 @@
+import { Controller, Get, Param, Query, StreamableFile } from '@nestjs/common';
+import { SubmissionsService } from './submissions.service';
+import { ListSubmissionsQueryDto } from './dto/list-submissions-query.dto';
+import { TimelineEntryDto } from './dto/timeline-entry.dto';
+import { Submission } from './entities/submission.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentPrincipal } from '../auth/decorators/current-principal.decorator';
+import { assertOwnWork, isStaff } from '../auth/access';
+import { Principal } from '../auth/entities/principal.entity';
+import { ReportsService } from '../reports/reports.service';
+import { ReportQueryDto } from '../reports/dto/report-query.dto';
+
+@Controller('submissions')
+@Roles('instructor', 'ta', 'student')
+export class SubmissionsController {
+  constructor(
+    private readonly submissionsService: SubmissionsService,
+    private readonly reportsService: ReportsService,
+  ) {}
+
+  // Students only ever see their own submissions
+  @Get()
+  findAll(
+    @Query() query: ListSubmissionsQueryDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<Submission[]> {
+    if (!isStaff(principal)) {
+      assertOwnWork(principal, query.studentId ?? principal.studentId);
+      query.studentId = principal.studentId;
+    }
+    return this.submissionsService.findAll(query);
+  }
+
+  @Get('students/:studentId/timeline')
+  timeline(
+    @Param('studentId') studentId: string,
+    @CurrentPrincipal() principal: Principal,
+    @Query('assignmentId') assignmentId?: string,
+  ): Promise<TimelineEntryDto[]> {
+    assertOwnWork(principal, studentId);
+    return this.submissionsService.timeline(studentId, assignmentId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<Submission> {
+    const submission = await this.submissionsService.findOne(id);
+    assertOwnWork(principal, submission.studentId);
+    return submission;
+  }
+
+  @Get(':id/report')
+  async report(
+    @Param('id') id: string,
+    @Query() query: ReportQueryDto,
+    @CurrentPrincipal() principal: Principal,
+  ): Promise<StreamableFile> {
+    const submission = await this.findOne(id, principal);
+    const report = await this.reportsService.render(
+      submission,
+      query.format ?? 'md',
+    );
+    return new StreamableFile(report.content, {
+      type: report.contentType,
+      disposition: `inline; filename="${report.fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { ReportsModule } from '../reports/reports.module';
+import { SubmissionsService } from './submissions.service';
+import { SubmissionsController } from './submissions.controller';
+
+@Module({
+  imports: [StorageModule, ReportsModule],
+  controllers: [SubmissionsController],
+  providers: [SubmissionsService],
+  exports: [SubmissionsService],
+})
+export class SubmissionsModule {}
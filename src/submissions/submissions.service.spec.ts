@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { SubmissionsService } from './submissions.service';
+import { StorageService } from '../storage/storage.service';
+import { EvaluationStatus } from '../evaluate/dto/evaluate-response.dto';
+
+describe('SubmissionsService', () => {
+  let service: SubmissionsService;
+  let dataDir: string;
+
+  const submit = (
+    studentId: string,
+    assignmentId: string,
+    score: number,
+    status?: EvaluationStatus,
+  ) =>
+    service.record(
+      { repoUrl: 'https://github.com/user/repo', assignmentId, studentId },
+      {
+        totalScore: score,
+        maxScore: 20,
+        status,
+        checks: [],
+        details: {
+          cloneSuccessful: true,
+          commitSha: 'abc123',
+          filesValid: true,
+          pubGetSuccessful: true,
+          buildSuccessful: true,
+          testsPassed: true,
+        },
+      },
+    );
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'submissions-'));
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubmissionsService,
+        StorageService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<SubmissionsService>(SubmissionsService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should record the resolved commit', async () => {
+    const submission = await submit('s1', 'todo', 12);
+
+    expect(submission.commitSha).toBe('abc123');
+    expect(await service.findOne(submission.id)).toEqual(submission);
+  });
+
+  it('should filter by student and assignment', async () => {
+    await submit('s1', 'todo', 12);
+    await submit('s2', 'todo', 14);
+    await submit('s1', 'weather', 9);
+
+    const results = await service.findAll({
+      studentId: 's1',
+      assignmentId: 'todo',
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].totalScore).toBe(12);
+  });
+
+  it('should filter by status, treating unset statuses as graded', async () => {
+    await submit('s1', 'todo', 12);
+    await submit('s2', 'todo', 8, 'pendingReview');
+
+    const pending = await service.findAll({ status: 'pendingReview' });
+    const graded = await service.findAll({ status: 'graded' });
+
+    expect(pending.map((submission) => submission.studentId)).toEqual(['s2']);
+    expect(graded.map((submission) => submission.studentId)).toEqual(['s1']);
+  });
+
+  it('should report score changes per assignment in the timeline', async () => {
+    await submit('s1', 'todo', 10);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await submit('s1', 'weather', 8);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await submit('s1', 'todo', 15.5);
+
+    const timeline = await service.timeline('s1');
+
+    expect(timeline.map((entry) => [entry.assignmentId, entry.delta])).toEqual([
+      ['todo', undefined],
+      ['weather', undefined],
+      ['todo', 5.5],
+    ]);
+  });
+});
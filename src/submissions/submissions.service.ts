@@ -0,0 +1,106 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { EvaluateRequestDto } from '../evaluate/dto/evaluate-request.dto';
+import { EvaluateResponseDto } from '../evaluate/dto/evaluate-response.dto';
+import { ListSubmissionsQueryDto } from './dto/list-submissions-query.dto';
+import { TimelineEntryDto } from './dto/timeline-entry.dto';
+import { Submission } from './entities/submission.entity';
+
+@Injectable()
+export class SubmissionsService {
+  private readonly logger = new Logger(SubmissionsService.name);
+  private readonly submissions: JsonCollection<Submission>;
+
+  constructor(private readonly storageService: StorageService) {
+    this.submissions =
+      this.storageService.collection<Submission>('submissions');
+  }
+
+  async record(
+    request: EvaluateRequestDto,
+    result: EvaluateResponseDto,
+    jobId?: string,
+  ): Promise<Submission> {
+    const submission: Submission = {
+      id: randomUUID(),
+      jobId,
+      assignmentId: request.assignmentId,
+      studentId: request.studentId,
+      repoUrl: request.repoUrl,
+      commitSha: result.details?.commitSha,
+      totalScore: result.totalScore,
+      maxScore: result.maxScore,
+      status: result.status ?? 'graded',
+      result,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.submissions.save(submission);
+    this.logger.log(
+      `Recorded submission ${submission.id} for ${submission.studentId ?? submission.repoUrl}`,
+    );
+    return submission;
+  }
+
+  async findAll(query: ListSubmissionsQueryDto = {}): Promise<Submission[]> {
+    const from = query.from ? new Date(query.from).getTime() : undefined;
+    const to = query.to ? new Date(query.to).getTime() : undefined;
+
+    return (await this.submissions.findAll())
+      .filter((submission) => {
+        const createdAt = new Date(submission.createdAt).getTime();
+        return (
+          (!query.studentId || submission.studentId === query.studentId) &&
+          (!query.assignmentId ||
+            submission.assignmentId === query.assignmentId) &&
+          // Submissions recorded before statuses existed were all graded
+          (!query.status || (submission.status ?? 'graded') === query.status) &&
+          (from === undefined || createdAt >= from) &&
+          (to === undefined || createdAt <= to)
+        );
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async findOne(id: string): Promise<Submission> {
+    const submission = await this.submissions.findById(id);
+    if (!submission) {
+      throw new NotFoundException(`Submission ${id} not found`);
+    }
+    return submission;
+  }
+
+  async update(submission: Submission): Promise<Submission> {
+    await this.findOne(submission.id);
+    return this.submissions.save(submission);
+  }
+
+  async timeline(
+    studentId: string,
+    assignmentId?: string,
+  ): Promise<TimelineEntryDto[]> {
+    const submissions = (
+      await this.findAll({ studentId, assignmentId })
+    ).reverse();
+    const previousScores = new Map<string, number>();
+
+    return submissions.map((submission) => {
+      const previous = previousScores.get(submission.assignmentId);
+      previousScores.set(submission.assignmentId, submission.totalScore);
+      return {
+        submissionId: submission.id,
+        assignmentId: submission.assignmentId,
+        commitSha: submission.commitSha,
+        totalScore: submission.totalScore,
+        maxScore: submission.maxScore,
+        delta:
+          previous === undefined
+            ? undefined
+            : Math.round((submission.totalScore - previous) * 100) / 100,
+        createdAt: submission.createdAt,
+      };
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MinLength,
+} from 'class-validator';
+
+export class CreateWebhookDto {
+  @IsString()
+  @IsNotEmpty()
+  @IsUrl(
+    { protocols: ['http', 'https'], require_tld: false },
+    { message: 'url must be an http(s) URL' },
+  )
+  url: string;
+
+  // Generated when omitted
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+}
@@ -0,0 +1,19 @@
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { WEBHOOK_DELIVERY_STATUSES } from '../entities/webhook-delivery.entity';
+import type { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+
+export class ListDeliveriesQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  assignmentId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  webhookId?: string;
+
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+}
@@ -0,0 +1,54 @@
+import { EvaluateResponseDto } from '../../evaluate/dto/evaluate-response.dto';
+
+export const WEBHOOK_EVENTS = [
+  'evaluation.completed',
+  'evaluation.failed',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'delivered',
+  'failed',
+] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+// The JSON body POSTed to the webhook's URL
+export class WebhookPayload {
+  event: WebhookEvent;
+  jobId: string;
+  assignmentId: string;
+  studentId?: string;
+  repoUrl: string;
+  // Set when the evaluation completed
+  submissionId?: string;
+  result?: EvaluateResponseDto;
+  // Set when the evaluation failed
+  error?: string;
+  occurredAt: string;
+}
+
+export class WebhookAttempt {
+  attemptedAt: string;
+  // Missing when no response arrived (connection refused, timeout, ...)
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export class WebhookDelivery {
+  id: string;
+  webhookId: string;
+  assignmentId: string;
+  url: string;
+  event: WebhookEvent;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  // When the next attempt of a pending delivery is due
+  nextAttemptAt?: string;
+  // The delivery this one manually repeats
+  redeliveryOf?: string;
+  createdAt: string;
+  updatedAt: string;
+}
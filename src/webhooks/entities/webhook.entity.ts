@@ -0,0 +1,11 @@
+// A callback URL that receives the assignment's finished evaluations
+export class Webhook {
+  id: string;
+  assignmentId: string;
+  url: string;
+  // Signs every delivery; only returned when the webhook is registered
+  secret: string;
+  createdAt: string;
+}
+
+export type WebhookSummary = Omit<Webhook, 'secret'>;
@@ -0,0 +1,26 @@
+import { Controller, Get, Param, Post, Query } from '@nestjs/common';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { ListDeliveriesQueryDto } from './dto/list-deliveries-query.dto';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+@Controller('webhooks/deliveries')
+export class WebhookDeliveriesController {
+  constructor(
+    private readonly webhookDeliveriesService: WebhookDeliveriesService,
+  ) {}
+
+  @Get()
+  findAll(@Query() query: ListDeliveriesQueryDto): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveriesService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string): Promise<WebhookDelivery> {
+    return this.webhookDeliveriesService.findOne(id);
+  }
+
+  @Post(':id/redeliver')
+  redeliver(@Param('id') id: string): Promise<WebhookDelivery> {
+    return this.webhookDeliveriesService.redeliver(id);
+  }
+}
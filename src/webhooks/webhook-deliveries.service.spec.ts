@@ -0,0 +1,185 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhooksService } from './webhooks.service';
+import { StorageService } from '../storage/storage.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { EvaluationJob } from '../evaluate/entities/evaluation-job.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { verifySignature } from './webhook-signature';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookDeliveriesService', () => {
+  let module: TestingModule;
+  let service: WebhookDeliveriesService;
+  let webhooksService: WebhooksService;
+  let dataDir: string;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  // Status codes the stand-in receiver answers with, in order; then 200
+  let responses: number[];
+  let received: ReceivedRequest[];
+  const secret = 'moodle-shared-secret';
+  const job: EvaluationJob = {
+    id: 'job-1',
+    status: 'completed',
+    request: {
+      repoUrl: 'https://github.com/amira/todo',
+      assignmentId: 'todo',
+      studentId: '221JMT4512',
+    },
+    result: { totalScore: 18, maxScore: 20, status: 'graded', checks: [] },
+    submissionId: 'sub-1',
+    createdAt: '2025-01-30T18:40:00.000Z',
+    finishedAt: '2025-01-30T18:42:10.000Z',
+  };
+
+  beforeEach(async () => {
+    responses = [];
+    received = [];
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      receiver.listen(0, '127.0.0.1', resolve),
+    );
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/grades`;
+
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+    module = await Test.createTestingModule({
+      providers: [
+        WebhookDeliveriesService,
+        WebhooksService,
+        StorageService,
+        {
+          provide: AssignmentsService,
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'todo' }) },
+        },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            DATA_DIR: dataDir,
+            WEBHOOK_MAX_ATTEMPTS: '3',
+            WEBHOOK_RETRY_DELAY_SECONDS: '0.01',
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhookDeliveriesService>(WebhookDeliveriesService);
+    webhooksService = module.get<WebhooksService>(WebhooksService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    await new Promise((resolve) => receiver.close(resolve));
+    await fs.remove(dataDir);
+  });
+
+  const waitForStatus = async (id: string, status: string) => {
+    for (let attempt = 0; attempt < 400; attempt++) {
+      const delivery = await service.findOne(id);
+      if (delivery.status === status) {
+        return delivery;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Delivery ${id} never became ${status}`);
+  };
+
+  const dispatchOne = async (): Promise<WebhookDelivery> => {
+    const [delivery] = await service.dispatch(job);
+    return delivery;
+  };
+
+  it('should POST a signed payload to every webhook of the assignment', async () => {
+    await webhooksService.register('todo', { url: receiverUrl, secret });
+
+    const delivery = await waitForStatus((await dispatchOne()).id, 'delivered');
+
+    expect(received).toHaveLength(1);
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-event']).toBe('evaluation.completed');
+    expect(headers['x-webhook-delivery']).toBe(delivery.id);
+    expect(
+      verifySignature(
+        secret,
+        headers['x-webhook-timestamp'] as string,
+        body,
+        headers['x-webhook-signature'] as string,
+      ),
+    ).toBe(true);
+    expect(JSON.parse(body)).toMatchObject({
+      event: 'evaluation.completed',
+      jobId: 'job-1',
+      studentId: '221JMT4512',
+      submissionId: 'sub-1',
+      result: { totalScore: 18 },
+    });
+    expect(delivery.attempts).toEqual([
+      expect.objectContaining({ statusCode: 200 }),
+    ]);
+  });
+
+  it('should retry failed attempts', async () => {
+    await webhooksService.register('todo', { url: receiverUrl, secret });
+    responses = [503, 500];
+
+    const delivery = await waitForStatus((await dispatchOne()).id, 'delivered');
+
+    expect(delivery.attempts.map((attempt) => attempt.statusCode)).toEqual([
+      503, 500, 200,
+    ]);
+    expect(delivery.attempts[0].error).toBe('HTTP 503');
+    expect(delivery.nextAttemptAt).toBeUndefined();
+  });
+
+  it('should give up after the last attempt and allow a redelivery', async () => {
+    await webhooksService.register('todo', { url: receiverUrl, secret });
+    responses = [500, 500, 500];
+
+    const pending = await dispatchOne();
+    await expect(service.redeliver(pending.id)).rejects.toThrow(
+      ConflictException,
+    );
+    const failed = await waitForStatus(pending.id, 'failed');
+    expect(failed.attempts).toHaveLength(3);
+
+    const redelivery = await service.redeliver(failed.id);
+    expect(redelivery.redeliveryOf).toBe(failed.id);
+    await waitForStatus(redelivery.id, 'delivered');
+    expect(JSON.parse(received[3].body)).toEqual(JSON.parse(received[0].body));
+    await expect(service.findAll({ status: 'failed' })).resolves.toMatchObject([
+      { id: failed.id },
+    ]);
+  });
+
+  it('should record attempts that get no response', async () => {
+    await webhooksService.register('todo', {
+      url: 'http://127.0.0.1:1/grades',
+      secret,
+    });
+
+    const failed = await waitForStatus((await dispatchOne()).id, 'failed');
+
+    expect(failed.attempts).toHaveLength(3);
+    expect(failed.attempts[0].statusCode).toBeUndefined();
+    expect(failed.attempts[0].error).toMatch(/ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,318 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { EvaluationJob } from '../evaluate/entities/evaluation-job.entity';
+import { WebhooksService } from './webhooks.service';
+import { ListDeliveriesQueryDto } from './dto/list-deliveries-query.dto';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookPayload,
+} from './entities/webhook-delivery.entity';
+import {
+  DELIVERY_HEADER,
+  EVENT_HEADER,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  signPayload,
+} from './webhook-signature';
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_RETRY_DELAY_SECONDS = 30;
+const DEFAULT_TIMEOUT_SECONDS = 10;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * POSTs finished evaluations to the assignment's webhooks. Every delivery is
+ * logged with its attempts; failed attempts are retried with exponential
+ * backoff, and pending retries survive a restart.
+ */
+@Injectable()
+export class WebhookDeliveriesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDeliveriesService.name);
+  private readonly deliveries: JsonCollection<WebhookDelivery>;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly storageService: StorageService,
+    private readonly webhooksService: WebhooksService,
+  ) {
+    this.deliveries =
+      this.storageService.collection<WebhookDelivery>('webhook-deliveries');
+    this.maxAttempts = Math.max(
+      1,
+      Math.floor(this.setting('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS)),
+    );
+    this.retryDelayMs =
+      this.setting('WEBHOOK_RETRY_DELAY_SECONDS', DEFAULT_RETRY_DELAY_SECONDS) *
+      1000;
+    this.timeoutMs =
+      this.setting('WEBHOOK_TIMEOUT_SECONDS', DEFAULT_TIMEOUT_SECONDS) * 1000;
+  }
+
+  async onModuleInit(): Promise<void> {
+    const pending = (await this.deliveries.findAll()).filter(
+      (delivery) => delivery.status === 'pending',
+    );
+    for (const delivery of pending) {
+      this.schedule(delivery);
+    }
+    if (pending.length > 0) {
+      this.logger.log(`Resuming ${pending.length} webhook delivery(ies)`);
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Queues a delivery of a completed or failed job to each of its assignment's
+   * webhooks and returns them.
+   */
+  async dispatch(job: EvaluationJob): Promise<WebhookDelivery[]> {
+    if (job.status !== 'completed' && job.status !== 'failed') {
+      return [];
+    }
+
+    const payload: WebhookPayload = {
+      event:
+        job.status === 'completed'
+          ? 'evaluation.completed'
+          : 'evaluation.failed',
+      jobId: job.id,
+      assignmentId: job.request.assignmentId,
+      studentId: job.request.studentId,
+      repoUrl: job.request.repoUrl,
+      submissionId: job.submissionId,
+      result: job.result,
+      error: job.error,
+      occurredAt: job.finishedAt ?? new Date().toISOString(),
+    };
+    const webhooks = await this.webhooksService.findForAssignment(
+      job.request.assignmentId,
+    );
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const webhook of webhooks) {
+      deliveries.push(
+        await this.create({
+          webhookId: webhook.id,
+          assignmentId: webhook.assignmentId,
+          url: webhook.url,
+          event: payload.event,
+          payload,
+        }),
+      );
+    }
+    return deliveries;
+  }
+
+  async findAll(
+    query: ListDeliveriesQueryDto = {},
+  ): Promise<WebhookDelivery[]> {
+    return (await this.deliveries.findAll())
+      .filter(
+        (delivery) =>
+          (!query.assignmentId ||
+            delivery.assignmentId === query.assignmentId) &&
+          (!query.webhookId || delivery.webhookId === query.webhookId) &&
+          (!query.status || delivery.status === query.status),
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async findOne(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveries.findById(id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Sends a finished delivery's payload again as a new delivery, with a fresh
+   * set of attempts, to the webhook's current URL.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const original = await this.findOne(id);
+    if (original.status === 'pending') {
+      throw new ConflictException(
+        `Webhook delivery ${id} is still being retried`,
+      );
+    }
+    const webhook = await this.webhooksService.findById(original.webhookId);
+    if (!webhook) {
+      throw new NotFoundException(
+        `Webhook ${original.webhookId} of delivery ${id} was removed`,
+      );
+    }
+
+    return this.create({
+      webhookId: webhook.id,
+      assignmentId: webhook.assignmentId,
+      url: webhook.url,
+      event: original.event,
+      payload: original.payload,
+      redeliveryOf: original.id,
+    });
+  }
+
+  private async create(
+    fields: Pick<
+      WebhookDelivery,
+      | 'webhookId'
+      | 'assignmentId'
+      | 'url'
+      | 'event'
+      | 'payload'
+      | 'redeliveryOf'
+    >,
+  ): Promise<WebhookDelivery> {
+    const now = new Date().toISOString();
+    const delivery = await this.deliveries.save({
+      id: randomUUID(),
+      ...fields,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.schedule(delivery);
+    return delivery;
+  }
+
+  private schedule(delivery: WebhookDelivery): void {
+    const due = delivery.nextAttemptAt
+      ? new Date(delivery.nextAttemptAt).getTime() - Date.now()
+      : 0;
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(delivery.id);
+        void this.attempt(delivery.id).catch((error: Error) =>
+          this.logger.error(
+            `Webhook delivery ${delivery.id} failed: ${error.message}`,
+          ),
+        );
+      },
+      Math.max(0, due),
+    );
+    // Pending retries must not keep the process alive on shutdown
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  private async attempt(id: string): Promise<void> {
+    const delivery = await this.findOne(id);
+    const webhook = await this.webhooksService.findById(delivery.webhookId);
+    if (!webhook) {
+      await this.deliveries.save({
+        ...delivery,
+        status: 'failed',
+        nextAttemptAt: undefined,
+        updatedAt: new Date().toISOString(),
+      });
+      this.logger.warn(
+        `Dropped webhook delivery ${id}: webhook ${delivery.webhookId} was removed`,
+      );
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const started = Date.now();
+    const attempt: WebhookAttempt = {
+      attemptedAt: new Date(started).toISOString(),
+      durationMs: 0,
+    };
+    try {
+      const response = await axios.post(delivery.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [EVENT_HEADER]: delivery.event,
+          [DELIVERY_HEADER]: delivery.id,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signPayload(webhook.secret, timestamp, body),
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+        // The response body is not used
+        responseType: 'text',
+      });
+      attempt.statusCode = response.status;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        attempt.statusCode = error.response.status;
+        attempt.error = `HTTP ${error.response.status}`;
+      } else {
+        attempt.error = (error as Error).message;
+      }
+    }
+    attempt.durationMs = Date.now() - started;
+
+    const attempts = [...delivery.attempts, attempt];
+    const delivered = !attempt.error;
+    const retry = !delivered && attempts.length < this.maxAttempts;
+    const updated = await this.deliveries.save({
+      ...delivery,
+      status: delivered ? 'delivered' : retry ? 'pending' : 'failed',
+      attempts,
+      nextAttemptAt: retry
+        ? new Date(Date.now() + this.delayFor(attempts.length)).toISOString()
+        : undefined,
+      updatedAt: new Date().toISOString(),
+    });
+
+    if (delivered) {
+      this.logger.log(`Delivered ${delivery.event} to ${delivery.url}`);
+    } else if (retry) {
+      this.logger.warn(
+        `Webhook delivery ${id} to ${delivery.url} failed (${attempt.error}), retrying at ${updated.nextAttemptAt}`,
+      );
+      this.schedule(updated);
+    } else {
+      this.logger.error(
+        `Webhook delivery ${id} to ${delivery.url} failed after ${attempts.length} attempt(s): ${attempt.error}`,
+      );
+    }
+  }
+
+  // Doubles after every failed attempt, up to an hour
+  private delayFor(failedAttempts: number): number {
+    return Math.min(
+      this.retryDelayMs * 2 ** (failedAttempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+  }
+
+  // A positive number of seconds or attempts
+  private setting(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`${key} must be a positive number`);
+    }
+    return value;
+  }
+}
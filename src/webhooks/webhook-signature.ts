@@ -0,0 +1,34 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const EVENT_HEADER = 'X-Webhook-Event';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * The signature header value for a delivery: `sha256=` followed by the hex
+ * HMAC-SHA256 of `<timestamp>.<body>` keyed with the webhook's secret.
+ * Signing the timestamp lets receivers reject replayed deliveries.
+ */
+export function signPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+// What receivers do to check a delivery, in constant time
+export function verifySignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
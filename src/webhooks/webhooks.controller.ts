@@ -0,0 +1,45 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { Webhook, WebhookSummary } from './entities/webhook.entity';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('assignments/:assignmentId/webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  @Roles('instructor')
+  register(
+    @Param('assignmentId') assignmentId: string,
+    @Body() createWebhookDto: CreateWebhookDto,
+  ): Promise<Webhook> {
+    return this.webhooksService.register(assignmentId, createWebhookDto);
+  }
+
+  @Get()
+  findAll(
+    @Param('assignmentId') assignmentId: string,
+  ): Promise<WebhookSummary[]> {
+    return this.webhooksService.findAll(assignmentId);
+  }
+
+  @Delete(':id')
+  @Roles('instructor')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @Param('assignmentId') assignmentId: string,
+    @Param('id') id: string,
+  ): Promise<void> {
+    return this.webhooksService.remove(assignmentId, id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { StorageModule } from '../storage/storage.module';
+import { AssignmentsModule } from '../assignments/assignments.module';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDeliveriesController } from './webhook-deliveries.controller';
+
+@Module({
+  imports: [StorageModule, AssignmentsModule],
+  controllers: [WebhooksController, WebhookDeliveriesController],
+  providers: [WebhooksService, WebhookDeliveriesService],
+  exports: [WebhookDeliveriesService],
+})
+export class WebhooksModule {}
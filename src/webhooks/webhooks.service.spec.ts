@@ -0,0 +1,64 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { WebhooksService } from './webhooks.service';
+import { StorageService } from '../storage/storage.service';
+import { AssignmentsService } from '../assignments/assignments.service';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let dataDir: string;
+  const assignmentsService = { findOne: jest.fn() };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-'));
+    assignmentsService.findOne.mockResolvedValue({ id: 'todo' });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        StorageService,
+        { provide: AssignmentsService, useValue: assignmentsService },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ DATA_DIR: dataDir }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(dataDir);
+  });
+
+  it('should generate a secret and only return it on registration', async () => {
+    const webhook = await service.register('todo', {
+      url: 'https://moodle.example.edu/grades',
+    });
+
+    expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+    const [listed] = await service.findAll('todo');
+    expect(listed).toEqual({
+      id: webhook.id,
+      assignmentId: 'todo',
+      url: 'https://moodle.example.edu/grades',
+      createdAt: webhook.createdAt,
+    });
+  });
+
+  it('should only remove webhooks of the given assignment', async () => {
+    const webhook = await service.register('todo', {
+      url: 'https://moodle.example.edu/grades',
+    });
+
+    await expect(service.remove('weather', webhook.id)).rejects.toThrow(
+      NotFoundException,
+    );
+    await service.remove('todo', webhook.id);
+    await expect(service.findForAssignment('todo')).resolves.toEqual([]);
+  });
+});
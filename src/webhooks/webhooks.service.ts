@@ -0,0 +1,74 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomBytes, randomUUID } from 'crypto';
+import { StorageService } from '../storage/storage.service';
+import { JsonCollection } from '../storage/json-collection';
+import { AssignmentsService } from '../assignments/assignments.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { Webhook, WebhookSummary } from './entities/webhook.entity';
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly webhooks: JsonCollection<Webhook>;
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly assignmentsService: AssignmentsService,
+  ) {
+    this.webhooks = this.storageService.collection<Webhook>('webhooks');
+  }
+
+  /**
+   * Registers a callback URL for the assignment's finished evaluations. The
+   * returned webhook is the only place its secret is ever shown.
+   */
+  async register(
+    assignmentId: string,
+    createWebhookDto: CreateWebhookDto,
+  ): Promise<Webhook> {
+    await this.assignmentsService.findOne(assignmentId);
+
+    const webhook: Webhook = {
+      id: randomUUID(),
+      assignmentId,
+      url: createWebhookDto.url,
+      secret: createWebhookDto.secret ?? randomBytes(32).toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+    await this.webhooks.save(webhook);
+    this.logger.log(
+      `Registered webhook ${webhook.id} for assignment ${assignmentId}`,
+    );
+    return webhook;
+  }
+
+  async findAll(assignmentId: string): Promise<WebhookSummary[]> {
+    await this.assignmentsService.findOne(assignmentId);
+    return (await this.findForAssignment(assignmentId)).map((webhook) => ({
+      id: webhook.id,
+      assignmentId: webhook.assignmentId,
+      url: webhook.url,
+      createdAt: webhook.createdAt,
+    }));
+  }
+
+  async remove(assignmentId: string, id: string): Promise<void> {
+    const webhook = await this.webhooks.findById(id);
+    if (!webhook || webhook.assignmentId !== assignmentId) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    await this.webhooks.remove(id);
+    this.logger.log(`Removed webhook ${id} of assignment ${assignmentId}`);
+  }
+
+  // Webhooks with their secrets, for signing deliveries
+  async findForAssignment(assignmentId: string): Promise<Webhook[]> {
+    return (await this.webhooks.findAll())
+      .filter((webhook) => webhook.assignmentId === assignmentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  findById(id: string): Promise<Webhook | undefined> {
+    return this.webhooks.findById(id);
+  }
+}